@@ -6,6 +6,15 @@ import { join } from 'path';
 
 console.log('Building static website...');
 
+// The browser calls NS directly, so the keys are baked into the bundle. They
+// are only optional when the build points at a mock gateway.
+const requiredKeys = ['VITE_NS_API_KEY', 'VITE_NS_PLACES_API_KEY', 'VITE_NS_VIRTUAL_TRAIN_API_KEY'];
+const missingKeys = requiredKeys.filter(name => !process.env[name]);
+if (missingKeys.length > 0 && !process.env.VITE_NS_GATEWAY_URL) {
+  console.error(`Missing ${missingKeys.join(', ')}: a static build needs its own NS subscription keys (see DEPLOYMENT.md)`);
+  process.exit(1);
+}
+
 try {
   // Install dependencies if needed
   console.log('Installing dependencies...');
@@ -21,7 +30,9 @@ try {
   // Build frontend with Vite
   console.log('Building frontend...');
   execSync('npm run build', { 
-    stdio: 'inherit'
+    stdio: 'inherit',
+    // No Express server in a static deployment: the client calls the NS gateway directly
+    env: { ...process.env, VITE_STATIC_MODE: 'true' }
   });
 
   // Move files from dist/public to dist root for static deployment
@@ -4,12 +4,20 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
+import TripPage from "@/pages/trip";
+import StationPage from "@/pages/station";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
+import { AuthProvider } from "@/hooks/use-auth";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/trip/:ctxRecon" component={TripPage} />
+      <Route path="/station/:code" component={StationPage} />
+      <Route path="/login">{() => <AuthPage mode="login" />}</Route>
+      <Route path="/register">{() => <AuthPage mode="register" />}</Route>
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +26,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,40 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { LogIn, LogOut, User } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+// Login link or the logged-in user with a logout button, for the page headers
+export default function AccountMenu() {
+  const { user, available, isLoading, logoutMutation } = useAuth();
+  const [location] = useLocation();
+  const queryString = useSearch();
+
+  if (!available || isLoading) return null;
+
+  if (!user) {
+    const here = queryString ? `${location}?${queryString}` : location;
+    return (
+      <Link href={`/login?next=${encodeURIComponent(here)}`} className="flex items-center space-x-1 text-sm hover:underline">
+        <LogIn className="w-4 h-4" />
+        <span>Log in</span>
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-3 text-sm">
+      <span className="flex items-center space-x-1">
+        <User className="w-4 h-4" />
+        <span>{user.username}</span>
+      </span>
+      <button
+        type="button"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+        className="flex items-center space-x-1 hover:underline"
+      >
+        <LogOut className="w-4 h-4" />
+        <span>Log out</span>
+      </button>
+    </div>
+  );
+}
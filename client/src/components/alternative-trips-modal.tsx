@@ -1,10 +1,11 @@
 import { useState, useEffect } from "react";
 import { X, Clock, Train, ChevronDown, ChevronUp } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { searchTrips } from "@/lib/nsApi";
+import { searchTrips, getTrainDetails } from "@/lib/nsApi";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { type Trip } from "@shared/schema";
+import { legKey } from "@shared/nsGateway";
 import TripCompactHeader from "./trip-compact-header";
 
 interface AlternativeTripsModalProps {
@@ -54,42 +55,14 @@ export default function AlternativeTripsModal({
           if (!trainNumber || !destinationStationCode || trainNumber === 'Unknown') return null;
 
           try {
-            // For static deployment, make direct call to NS Virtual Train API with seating features
-            const virtualTrainUrl = `https://gateway.apiportal.ns.nl/virtual-train-api/api/v1/trein/${trainNumber}/${encodeURIComponent(destinationStationCode)}?dateTime=${encodeURIComponent(dateTime)}&features=zitplaats,druktev2,platformitems`;
-
-            const response = await fetch(virtualTrainUrl, {
-              headers: {
-                'Ocp-Apim-Subscription-Key': import.meta.env.VITE_NS_API_KEY,
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-              }
-            });
-
-            if (!response.ok) {
-              console.warn(`Failed to fetch train details for ${trainNumber}:`, response.statusText);
-              return null;
-            }
-
-            const data = await response.json();
-
-            // Extract seat counts from Virtual Train API response
-            let firstClassSeats = 0;
-            let secondClassSeats = 0;
-            
-            if (data.materieeldelen && data.materieeldelen.length > 0) {
-              data.materieeldelen.forEach((deel: any) => {
-                if (deel.zitplaatsen) {
-                  firstClassSeats += deel.zitplaatsen.zitplaatsEersteKlas || 0;
-                  secondClassSeats += deel.zitplaatsen.zitplaatsTweedeKlas || 0;
-                }
-              });
-            }
+            const composition = await getTrainDetails(trainNumber, destinationStationCode, dateTime);
+            if (!composition) return null;
 
             return {
-              legKey: `${trainNumber}-${destinationStationCode}`,
-              trainType: data.type || leg.product.categoryCode,
-              firstClassSeats: firstClassSeats,
-              secondClassSeats: secondClassSeats
+              legKey: legKey(trainNumber, destinationStationCode),
+              trainType: composition.trainType || leg.product.categoryCode,
+              firstClassSeats: composition.seats.firstClass,
+              secondClassSeats: composition.seats.secondClass
             };
           } catch (err) {
             console.warn(`Error fetching train details for ${trainNumber}:`, err);
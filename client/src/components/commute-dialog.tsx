@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCalendarFeed } from "@/hooks/use-calendar-feed";
+import { useSavedRoutes } from "@/hooks/use-saved-routes";
+import { type SavedRouteItem } from "@/lib/accountApi";
+
+// ISO weekdays, 1 = Monday
+const WEEKDAYS = [
+  { day: 1, label: "Mo" },
+  { day: 2, label: "Tu" },
+  { day: 3, label: "We" },
+  { day: 4, label: "Th" },
+  { day: 5, label: "Fr" },
+  { day: 6, label: "Sa" },
+  { day: 7, label: "Su" },
+];
+
+interface CommuteDialogProps {
+  route: SavedRouteItem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// When a saved route is travelled as a commute, and the calendar link that
+// lists the planned trips for those days
+export default function CommuteDialog({ route, open, onOpenChange }: CommuteDialogProps) {
+  const { updateRoute } = useSavedRoutes();
+  const { url, webcalUrl, createFeed, removeFeed } = useCalendarFeed();
+  const [days, setDays] = useState<string[]>([]);
+  const [time, setTime] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDays(route.commuteDays.map(String));
+    setTime(route.commuteTime || "08:00");
+  }, [open, route]);
+
+  const save = () => {
+    const commuteDays = days.map(Number).sort((a, b) => a - b);
+    updateRoute.mutate(
+      { id: route.id, patch: { commuteDays, commuteTime: commuteDays.length > 0 ? time : null } },
+      { onSuccess: () => onOpenChange(false) },
+    );
+  };
+
+  const error = updateRoute.error || createFeed.error || removeFeed.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Commute: {route.name}</DialogTitle>
+          <DialogDescription>
+            {route.fromStation} → {route.toStation}
+            {route.options.viaStation && ` via ${route.options.viaStation}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="text-sm font-medium">{route.options.searchForArrival ? "Arrive by" : "Leave at"}</div>
+            <div className="flex flex-wrap items-center gap-3">
+              <ToggleGroup type="multiple" value={days} onValueChange={setDays} variant="outline" size="sm">
+                {WEEKDAYS.map(({ day, label }) => (
+                  <ToggleGroupItem key={day} value={String(day)} aria-label={label}>
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Input type="time" value={time} onChange={(event) => setTime(event.target.value)} className="w-28" />
+            </div>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <div className="text-sm font-medium">Calendar subscription</div>
+            <p className="text-sm text-gray-600">
+              Your commutes for the coming week, with current times, platforms and delays. Calendar apps refresh it
+              every 15 minutes or so.
+            </p>
+            {url ? (
+              <>
+                <div className="flex gap-2">
+                  <Input readOnly value={url} onFocus={(event) => event.target.select()} className="text-xs" />
+                  <Button variant="outline" size="icon" title="Copy link" onClick={() => navigator.clipboard?.writeText(url)}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-3 text-sm">
+                  <a href={webcalUrl!} className="text-ns-blue hover:underline">
+                    Subscribe in calendar app
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => createFeed.mutate()}
+                    disabled={createFeed.isPending}
+                    className="flex items-center gap-1 text-gray-600 hover:text-ns-blue"
+                    title="The current link stops working"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    New link
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeFeed.mutate()}
+                    disabled={removeFeed.isPending}
+                    className="text-gray-600 hover:text-red-600"
+                  >
+                    Turn off
+                  </button>
+                </div>
+              </>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => createFeed.mutate()} disabled={createFeed.isPending}>
+                Create calendar link
+              </Button>
+            )}
+          </div>
+          {error && <div className="text-sm text-red-600">{error.message}</div>}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={save}
+            disabled={(days.length > 0 && !time) || updateRoute.isPending}
+            className="bg-ns-blue hover:bg-blue-800 text-white"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Construction, OctagonAlert } from "lucide-react";
+import { getDisruptions } from "@/lib/nsApi";
+import { formatNoticeDateTime } from "./travel-notices";
+import { type Disruption, type DisruptionType, type Trip } from "@shared/schema";
+
+const TYPE_STYLES: Record<DisruptionType, { className: string; icon: React.ReactNode; label: string }> = {
+  CALAMITY: {
+    className: "bg-red-100 border-red-300 text-red-900",
+    icon: <OctagonAlert className="w-5 h-5 flex-shrink-0 mt-0.5" />,
+    label: "Calamity",
+  },
+  DISRUPTION: {
+    className: "bg-red-50 border-red-200 text-red-800",
+    icon: <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />,
+    label: "Disruption",
+  },
+  MAINTENANCE: {
+    className: "bg-yellow-50 border-yellow-200 text-yellow-800",
+    icon: <Construction className="w-5 h-5 flex-shrink-0 mt-0.5" />,
+    label: "Engineering works",
+  },
+};
+
+// Disruptions are refreshed less often than trips: NS updates them every few minutes
+const DISRUPTIONS_REFRESH_INTERVAL_MS = 2 * 60 * 1000;
+
+// UIC codes of every station the found trips call at
+function routeStations(trips: Trip[]): string[] {
+  const codes = new Set<string>();
+  for (const leg of trips.flatMap((trip) => trip.legs)) {
+    codes.add(leg.origin.uicCode);
+    codes.add(leg.destination.uicCode);
+    for (const stop of leg.stops) {
+      if (!stop.passing) codes.add(stop.uicCode);
+    }
+  }
+  return Array.from(codes).sort();
+}
+
+function period(disruption: Disruption): string | null {
+  if (disruption.expectedDuration) return disruption.expectedDuration;
+  if (disruption.start && disruption.end) {
+    return `${formatNoticeDateTime(disruption.start)} – ${formatNoticeDateTime(disruption.end)}`;
+  }
+  return disruption.start ? `Since ${formatNoticeDateTime(disruption.start)}` : null;
+}
+
+// Disruptions and engineering works on the searched route, above the results
+export default function DisruptionsBanner({ trips }: { trips: Trip[] }) {
+  const stations = routeStations(trips);
+
+  const { data } = useQuery({
+    queryKey: ["/api/disruptions", stations.join(",")],
+    queryFn: () => getDisruptions(stations),
+    enabled: stations.length > 0,
+    refetchInterval: DISRUPTIONS_REFRESH_INTERVAL_MS,
+    staleTime: DISRUPTIONS_REFRESH_INTERVAL_MS,
+    // The banner is extra information; a failing feed must not get in the way
+    retry: false,
+  });
+
+  const disruptions = data?.disruptions || [];
+  if (disruptions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {disruptions.map((disruption) => {
+        const style = TYPE_STYLES[disruption.type];
+        const when = period(disruption);
+        const affected = disruption.stations.map((station) => station.name);
+
+        return (
+          <div key={disruption.id} className={`flex items-start gap-3 border rounded-lg p-3 ${style.className}`}>
+            {style.icon}
+            <div className="min-w-0 text-sm">
+              <div className="font-semibold">
+                {style.label}: {disruption.title}
+              </div>
+              {disruption.description && <div>{disruption.description}</div>}
+              {disruption.additionalTravelTime && <div>{disruption.additionalTravelTime}</div>}
+              {affected.length > 0 && (
+                <div className="text-xs opacity-80">Affects {affected.join(", ")}</div>
+              )}
+              {when && <div className="text-xs opacity-80">{when}</div>}
+              {disruption.advices.map((advice, index) => (
+                <div key={index} className="text-xs">{advice}</div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
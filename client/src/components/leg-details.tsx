@@ -1,22 +1,32 @@
 import { useState } from "react";
 import { Route, ChevronDown, ChevronUp, Clock } from "lucide-react";
-import { type Leg } from "@shared/schema";
+import { Link } from "wouter";
+import { type Leg, type TravelDirection, type TripSearch } from "@shared/schema";
+import { getPlatformLettersForCarriage, type CarriageAllocation } from "@shared/composition";
 import AlternativeTripsModal from "./alternative-trips-modal";
+import TravelNotices from "./travel-notices";
+import { legNotices } from "@shared/notices";
+import { transferRisks } from "@shared/transferRisk";
+import TransferRiskBadge from "./transfer-risk-badge";
+import MissedConnectionHint from "./missed-connection-hint";
+import { useTransferFallbacks } from "@/hooks/use-transfer-fallbacks";
 
 interface LegDetailsProps {
   legs: Leg[];
   originalDestination?: string;
+  // The search the trip came from; missed-connection fallbacks use its options
+  search?: TripSearch;
   legSeatingData?: { [key: string]: { first: number; second: number } };
   legTrainTypes?: { [key: string]: string };
   legCarriageData?: { [key: string]: { 
     carriageCount: number; 
     bakkenImages: string[]; 
-    direction?: string;
-    perronAllocation?: any[];
+    direction?: TravelDirection | null;
+    perronAllocation?: CarriageAllocation[];
   } };
 }
 
-export default function LegDetails({ legs, originalDestination, legSeatingData, legTrainTypes, legCarriageData }: LegDetailsProps) {
+export default function LegDetails({ legs, originalDestination, search, legSeatingData, legTrainTypes, legCarriageData }: LegDetailsProps) {
   console.log('LegDetails props:', { 
     legsCount: legs?.length, 
     legSeatingDataKeys: Object.keys(legSeatingData || {}),
@@ -28,9 +38,9 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
   const [showCarriageModal, setShowCarriageModal] = useState(false);
   const [selectedCarriageData, setSelectedCarriageData] = useState<{
     bakkenImages: string[];
-    direction?: string;
+    direction?: TravelDirection | null;
     trainType: string;
-    perronAllocation?: any[];
+    perronAllocation?: CarriageAllocation[];
   } | null>(null);
   const [firstClassDetection, setFirstClassDetection] = useState<{
     [imageIndex: number]: string | null;
@@ -155,158 +165,6 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
     return diffMinutes > 0 ? `${diffMinutes} min stop` : "0 min stop";
   };
 
-  // Function to get perron numbers for left and right sides of each image
-  const getPerronNumbersForImage = (perronAllocation: any[], imageIndex: number) => {
-    if (!perronAllocation || perronAllocation.length === 0) {
-      return { leftPerron: null, rightPerron: null };
-    }
-
-    // Alphabet array for perron letter inference
-    const alphabet = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z'];
-
-    // Get all perron letters from the current image with their positions
-    const currentImagePerrons = perronAllocation[imageIndex]?.perronVoorzieningen
-      ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-      ?.map((voorziening: any) => ({
-        letter: voorziening.description,
-        position: voorziening.scaledPosition || 0
-      }))
-      ?.sort((a: any, b: any) => a.position - b.position) || [];
-
-    // If current image has perron letters, analyze their positions
-    if (currentImagePerrons.length > 0) {
-      const bakImage = perronAllocation[imageIndex]?.bakImage;
-      if (!bakImage?.breedte) {
-        // Fallback to simple logic if we don't have position data
-        return {
-          leftPerron: currentImagePerrons[0].letter,
-          rightPerron: currentImagePerrons[currentImagePerrons.length - 1].letter
-        };
-      }
-
-      // Calculate the start position of this carriage in the total train
-      let carriageStartPosition = 0;
-      for (let i = 0; i < imageIndex; i++) {
-        carriageStartPosition += perronAllocation[i]?.bakImage?.breedte || 0;
-      }
-
-      // Convert absolute positions to relative positions within this carriage
-      const perronsWithRelativePositions = currentImagePerrons.map((perron: any) => {
-        const positionInCarriage = perron.position - carriageStartPosition;
-        const percentagePosition = Math.min(Math.max((positionInCarriage / bakImage.breedte) * 100, 0), 100);
-        return {
-          ...perron,
-          percentagePosition
-        };
-      });
-
-      // If we have multiple perron letters, determine left and right based on positions
-      if (perronsWithRelativePositions.length > 1) {
-        const sortedPerrons = perronsWithRelativePositions.sort((a: any, b: any) => a.percentagePosition - b.percentagePosition);
-        return {
-          leftPerron: sortedPerrons[0].letter,
-          rightPerron: sortedPerrons[sortedPerrons.length - 1].letter
-        };
-      }
-
-      // If we have only one perron letter, infer adjacent perrons based on position
-      const singlePerron = perronsWithRelativePositions[0];
-      const percentagePosition = singlePerron.percentagePosition;
-
-      // If the perron is positioned beyond 10% from the left, the left side likely corresponds to the previous perron letter
-      if (percentagePosition > 10) {
-        // First, try to find previous perron letters in other images
-        for (let i = imageIndex - 1; i >= 0; i--) {
-          const previousImagePerrons = perronAllocation[i]?.perronVoorzieningen
-            ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-            ?.map((voorziening: any) => voorziening.description)
-            ?.sort() || [];
-
-          if (previousImagePerrons.length > 0) {
-            return {
-              leftPerron: previousImagePerrons[previousImagePerrons.length - 1], // Use the last (rightmost) perron from previous image
-              rightPerron: singlePerron.letter
-            };
-          }
-        }
-
-        // If no previous perron letters found, infer using alphabet
-        const currentLetterIndex = alphabet.indexOf(singlePerron.letter);
-        if (currentLetterIndex > 0) {
-          return {
-            leftPerron: alphabet[currentLetterIndex - 1],
-            rightPerron: singlePerron.letter
-          };
-        }
-      }
-
-      // If the perron is positioned at 10% or less from the left, the right side likely corresponds to the next perron letter
-      if (percentagePosition <= 10) {
-        // First, try to find next perron letters in other images
-        for (let i = imageIndex + 1; i < perronAllocation.length; i++) {
-          const nextImagePerrons = perronAllocation[i]?.perronVoorzieningen
-            ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-            ?.map((voorziening: any) => voorziening.description)
-            ?.sort() || [];
-
-          if (nextImagePerrons.length > 0) {
-            return {
-              leftPerron: singlePerron.letter,
-              rightPerron: nextImagePerrons[0] // Use the first (leftmost) perron from next image
-            };
-          }
-        }
-
-        // If no next perron letters found, infer using alphabet
-        const currentLetterIndex = alphabet.indexOf(singlePerron.letter);
-        if (currentLetterIndex < alphabet.length - 1) {
-          return {
-            leftPerron: singlePerron.letter,
-            rightPerron: alphabet[currentLetterIndex + 1]
-          };
-        }
-      }
-
-      // If we can't infer adjacent perrons, just return the single perron for both sides
-      return {
-        leftPerron: singlePerron.letter,
-        rightPerron: singlePerron.letter
-      };
-    }
-
-    // If no perron letters in current image, look at previous images
-    for (let i = imageIndex - 1; i >= 0; i--) {
-      const previousImagePerrons = perronAllocation[i]?.perronVoorzieningen
-        ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-        ?.map((voorziening: any) => voorziening.description)
-        ?.sort() || [];
-
-      if (previousImagePerrons.length > 0) {
-        return {
-          leftPerron: previousImagePerrons[0],
-          rightPerron: previousImagePerrons[previousImagePerrons.length - 1]
-        };
-      }
-    }
-
-    // If no perron letters found in any previous images, look at next images
-    for (let i = imageIndex + 1; i < perronAllocation.length; i++) {
-      const nextImagePerrons = perronAllocation[i]?.perronVoorzieningen
-        ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-        ?.map((voorziening: any) => voorziening.description)
-        ?.sort() || [];
-
-      if (nextImagePerrons.length > 0) {
-        return {
-          leftPerron: nextImagePerrons[0],
-          rightPerron: nextImagePerrons[nextImagePerrons.length - 1]
-        };
-      }
-    }
-
-    return { leftPerron: null, rightPerron: null };
-  };
-
   // Handle train click to show carriage modal
   const handleTrainClick = (leg: any) => {
     console.log('handleTrainClick called with leg:', leg);
@@ -356,7 +214,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
     
     selectedCarriageData.bakkenImages.forEach((_, imageIndex) => {
       const detectionResult = firstClassDetection[imageIndex];
-      const perronNumbers = getPerronNumbersForImage(selectedCarriageData.perronAllocation || [], imageIndex);
+      const perronNumbers = getPlatformLettersForCarriage(selectedCarriageData.perronAllocation || [], imageIndex);
       
       // Only process if we have both detection result and perron numbers
       if (detectionResult && typeof detectionResult === 'string' && 
@@ -449,6 +307,9 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
     }
   };
 
+  const risks = transferRisks(legs);
+  const missedConnection = useTransferFallbacks(legs, true, search);
+
   return (
     <>
       <div>
@@ -456,18 +317,21 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
 
         {legs.map((leg, index) => {
           const transferTime = getTransferTime(index);
+          const risk = risks.find((candidate) => candidate.legIndex === index);
           
           return (
             <div key={leg.idx || index}>
               {/* Transfer Time Display */}
               {transferTime !== null && (
-                <div className="flex items-center justify-center py-2 mb-4">
+                <div className="flex flex-col items-center gap-1 py-2 mb-4">
                   <div className="bg-blue-50 border border-blue-200 rounded-full px-3 py-1 flex items-center space-x-2">
                     <Clock className="w-4 h-4 text-blue-600" />
                     <span className="text-sm text-blue-700 font-medium">
                       {transferTime} min transfer time
                     </span>
+                    {risk && <TransferRiskBadge risk={risk} />}
                   </div>
+                  <MissedConnectionHint missed={missedConnection(index)} />
                 </div>
               )}
               
@@ -515,6 +379,8 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
             </div>
           </div>
 
+          <TravelNotices notices={legNotices(leg)} className="mb-3" />
+
           {/* Leg Journey */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             {/* Origin */}
@@ -541,6 +407,11 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                 })()}
                 <div className="text-xs text-gray-500">
                   Platform {leg.origin.actualTrack || leg.origin.plannedTrack || "?"}
+                  {leg.origin.stationCode && (
+                    <Link href={`/station/${leg.origin.stationCode}`} className="ml-2 text-ns-blue hover:underline">
+                      Departures
+                    </Link>
+                  )}
                 </div>
                 {leg.origin.actualDateTime !== leg.origin.plannedDateTime && (
                   <div className="text-xs text-yellow-600">
@@ -574,6 +445,11 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                 })()}
                 <div className="text-xs text-gray-500">
                   Platform {leg.destination.actualTrack || leg.destination.plannedTrack || "?"}
+                  {leg.destination.stationCode && (
+                    <Link href={`/station/${leg.destination.stationCode}?board=arrivals`} className="ml-2 text-ns-blue hover:underline">
+                      Arrivals
+                    </Link>
+                  )}
                 </div>
                 {leg.destination.actualDateTime !== leg.destination.plannedDateTime && (
                   <div className="text-xs text-yellow-600">
@@ -655,7 +531,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                         <div className="mt-2 space-y-1">
                           {carriageData.bakkenImages.map((imageUrl, index) => {
                             // Get perron voorzieningen for this carriage
-                            const perronVoorzieningen = carriageData.perronAllocation?.[index]?.perronVoorzieningen || [];
+                            const perronVoorzieningen = carriageData.perronAllocation?.[index]?.platformFeatures || [];
                             
                             return (
                               <div key={index} className="bg-white border border-blue-200 rounded p-2">
@@ -680,7 +556,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                                   <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded">
                                     <div className="text-xs font-medium text-green-800 mb-1">Platform Facilities:</div>
                                     <div className="flex flex-wrap gap-1">
-                                      {perronVoorzieningen.map((voorziening: any, vIndex: number) => (
+                                      {perronVoorzieningen.map((voorziening, vIndex) => (
                                         <span 
                                           key={vIndex} 
                                           className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded"
@@ -815,11 +691,11 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                         }> = [];
                         
                         // Collect from perronAllocation with positions
-                        selectedCarriageData.perronAllocation?.forEach((allocation: any) => {
-                          allocation.perronVoorzieningen?.forEach((voorziening: any) => {
+                        selectedCarriageData.perronAllocation?.forEach((allocation) => {
+                          allocation.platformFeatures.forEach((voorziening) => {
                             const label = voorziening.description;
                             const type = voorziening.type;
-                            const position = voorziening.paddingLeft || 0;
+                            const position = voorziening.position;
                             
                             if (type === 'PERRONLETTER' && label) {
                               facilitiesWithPositions.push({
@@ -911,11 +787,11 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                         }> = [];
                         
                         // Collect from perronAllocation with positions
-                        selectedCarriageData.perronAllocation?.forEach((allocation: any) => {
-                          allocation.perronVoorzieningen?.forEach((voorziening: any) => {
+                        selectedCarriageData.perronAllocation?.forEach((allocation) => {
+                          allocation.platformFeatures.forEach((voorziening) => {
                             const label = voorziening.description;
                             const type = voorziening.type;
-                            const position = voorziening.paddingLeft || 0;
+                            const position = voorziening.position;
                             
                             if (type === 'PERRONLETTER' && label) {
                               facilitiesWithPositions.push({
@@ -991,7 +867,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
               <div className="space-y-4">
                 {selectedCarriageData.bakkenImages.map((imageUrl, index) => {
                   // Get perron voorzieningen for this carriage
-                  const perronVoorzieningen = selectedCarriageData.perronAllocation?.[index]?.perronVoorzieningen || [];
+                  const perronVoorzieningen = selectedCarriageData.perronAllocation?.[index]?.platformFeatures || [];
                   console.log(`Carriage ${index + 1} perron voorzieningen:`, perronVoorzieningen);
                   
                   return (
@@ -1028,7 +904,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                       
                       {/* Perron Numbers Display */}
                       {(() => {
-                        const perronNumbers = getPerronNumbersForImage(selectedCarriageData.perronAllocation || [], index);
+                        const perronNumbers = getPlatformLettersForCarriage(selectedCarriageData.perronAllocation || [], index);
                         if (perronNumbers.leftPerron || perronNumbers.rightPerron) {
                           return (
                             <div className="text-center text-xs text-blue-600 mt-1 font-medium">
@@ -1073,7 +949,7 @@ export default function LegDetails({ legs, originalDestination, legSeatingData,
                             Platform Facilities ({perronVoorzieningen.length})
                           </div>
                           <div className="flex flex-wrap gap-2">
-                            {perronVoorzieningen.map((voorziening: any, vIndex: number) => (
+                            {perronVoorzieningen.map((voorziening, vIndex) => (
                               <span 
                                 key={vIndex} 
                                 className="text-sm bg-green-100 text-green-700 px-3 py-1 rounded-full border border-green-200 font-medium"
@@ -0,0 +1,27 @@
+import { Radio, WifiOff } from "lucide-react";
+import { type LiveTripStatus } from "@/lib/liveTrips";
+
+const STATUS_TEXT: Record<LiveTripStatus, string> = {
+  connecting: "Connecting to live updates...",
+  live: "Following live",
+  limited: "Not followed live: too many trips open at once",
+  failed: "Not followed live: the server refused live updates",
+};
+
+interface LiveTripStatusNoteProps {
+  status: LiveTripStatus | null;
+}
+
+// Whether the live monitor follows this trip; nothing when it isn't asked to
+export default function LiveTripStatusNote({ status }: LiveTripStatusNoteProps) {
+  if (!status) return null;
+  const followed = status === "live" || status === "connecting";
+  const Icon = followed ? Radio : WifiOff;
+
+  return (
+    <div className={`flex items-center gap-1 text-xs ${followed ? "text-green-700" : "text-gray-500"}`}>
+      <Icon className="w-3 h-3" />
+      <span>{STATUS_TEXT[status]}</span>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { CornerDownRight } from "lucide-react";
+import { type MissedConnection } from "@/hooks/use-transfer-fallbacks";
+
+const formatTime = (dateTime: string) =>
+  new Date(dateTime).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+
+// "if missed: +18 min via IC 3545" under a transfer
+export default function MissedConnectionHint({ missed }: { missed: MissedConnection | undefined }) {
+  if (!missed) return null;
+
+  if (!missed.plan) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-red-700">
+        <CornerDownRight className="w-3 h-3" />
+        if missed: no later connection
+      </span>
+    );
+  }
+
+  const { plan, delayMinutes } = missed;
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-gray-600"
+      title={`Leaves ${formatTime(plan.departure)}, arrives ${formatTime(plan.arrival)}, ${plan.transfers} transfer${plan.transfers !== 1 ? "s" : ""}`}
+    >
+      <CornerDownRight className="w-3 h-3" />
+      if missed: {delayMinutes !== null && delayMinutes > 0 ? `+${delayMinutes} min` : "same arrival"} via {plan.trainName}
+    </span>
+  );
+}
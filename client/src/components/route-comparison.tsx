@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Map as MapIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import RouteMap from "./route-map";
+import { type Trip } from "@shared/schema";
+
+const formatTime = (dateTime: string) =>
+  new Date(dateTime).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+
+// "08:54 → 10:16, 1 transfer"
+function tripLabel(trip: Trip): string {
+  const first = trip.legs[0];
+  const last = trip.legs[trip.legs.length - 1];
+  if (!first || !last) return "Trip";
+  const transfers = trip.transfers === 0 ? "direct" : `${trip.transfers} transfer${trip.transfers !== 1 ? "s" : ""}`;
+  return `${formatTime(first.origin.plannedDateTime)} → ${formatTime(last.destination.plannedDateTime)}, ${transfers}`;
+}
+
+interface RouteComparisonProps {
+  trips: Trip[];
+  onClear: () => void;
+}
+
+// The trips ticked for comparison in the results, drawn over each other on one map
+export default function RouteComparison({ trips, onClear }: RouteComparisonProps) {
+  const [open, setOpen] = useState(false);
+
+  if (trips.length === 0) return null;
+
+  return (
+    <>
+      <div className="sticky top-2 z-10 flex items-center justify-between gap-2 rounded-lg border border-ns-blue bg-blue-50 px-4 py-2 text-sm shadow-sm">
+        <span className="text-gray-700">
+          {trips.length} trip{trips.length !== 1 ? "s" : ""} selected
+        </span>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => setOpen(true)} className="bg-ns-blue hover:bg-blue-800 text-white">
+            <MapIcon className="w-4 h-4 mr-1" />
+            Compare on map
+          </Button>
+          <button type="button" onClick={onClear} title="Clear selection" className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Route comparison</DialogTitle>
+          </DialogHeader>
+          <RouteMap trips={trips} colorBy="trip" tripLabels={trips.map(tripLabel)} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { Ban, MapPinCheck, MapPinX } from "lucide-react";
+import { type Trip } from "@shared/schema";
+import { checkRouteConstraints, type RouteConstraintCheck, type RouteConstraints } from "@shared/routeConstraints";
+
+function badgeIcon(check: RouteConstraintCheck) {
+  if (check.kind === "avoid") return check.satisfied ? Ban : MapPinX;
+  return check.satisfied ? MapPinCheck : MapPinX;
+}
+
+interface RouteConstraintBadgesProps {
+  trip: Trip;
+  constraints: RouteConstraints;
+}
+
+// Which via and avoid stations of the search this trip meets
+export default function RouteConstraintBadges({ trip, constraints }: RouteConstraintBadgesProps) {
+  const checks = checkRouteConstraints(trip, constraints);
+  if (checks.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {checks.map((check) => {
+        const Icon = badgeIcon(check);
+        return (
+          <span
+            key={`${check.kind}-${check.station}`}
+            className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+              check.satisfied ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+            }`}
+            title={
+              check.kind === "via" && check.dwellMinutes !== null && check.dwellMinutes !== undefined
+                ? `${check.dwellMinutes} min at ${check.station}`
+                : undefined
+            }
+          >
+            <Icon className="w-3 h-3" />
+            {check.label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
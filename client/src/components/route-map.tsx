@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { Minus, Plus, RotateCcw } from "lucide-react";
+import { type Trip } from "@shared/schema";
+import {
+  TRIP_COLORS,
+  categoryColor,
+  layoutRouteMap,
+  pathData,
+  type MapStop,
+} from "@shared/routeMap";
+
+const WIDTH = 600;
+const HEIGHT = 400;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 40;
+
+interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FULL_VIEW: ViewBox = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+// Zoom in by `factor` (below 1 zooms out), keeping the map point x, y in place
+function zoomView(view: ViewBox, factor: number, x: number, y: number): ViewBox {
+  const width = Math.min(Math.max(view.width / factor, WIDTH / MAX_ZOOM), WIDTH / MIN_ZOOM);
+  const height = (width * HEIGHT) / WIDTH;
+  return {
+    x: x - ((x - view.x) * width) / view.width,
+    y: y - ((y - view.y) * height) / view.height,
+    width,
+    height,
+  };
+}
+
+interface RouteMapProps {
+  trips: Trip[];
+  // Colour legs by train category, or each trip in its own colour for comparisons
+  colorBy?: "category" | "trip";
+  tripLabels?: string[];
+  className?: string;
+}
+
+const STOP_RADIUS: Record<MapStop["kind"], number> = { endpoint: 6, transfer: 5, stop: 3, cancelled: 3.5, passing: 1.5 };
+
+// Journeys drawn as SVG from stop coordinates; scroll or the buttons to zoom,
+// drag to pan
+export default function RouteMap({ trips, colorBy = "category", tripLabels, className = "" }: RouteMapProps) {
+  const layout = useMemo(() => layoutRouteMap(trips, WIDTH, HEIGHT), [trips]);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [view, setView] = useState<ViewBox>(FULL_VIEW);
+  const hasLegs = layout.legs.length > 0;
+  // Live updates replace the trip objects; only other trips reset the view
+  const tripsKey = trips.map((trip) => trip.uid).join("|");
+
+  // Strokes, dots and labels keep their size on screen while zooming
+  const scale = view.width / WIDTH;
+
+  const zoomCentre = (factor: number) =>
+    setView((current) => zoomView(current, factor, current.x + current.width / 2, current.y + current.height / 2));
+
+  // React's onWheel is passive, so scrolling the page can't be stopped there
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const box = svg.getBoundingClientRect();
+      setView((current) =>
+        zoomView(
+          current,
+          event.deltaY < 0 ? 1.25 : 0.8,
+          current.x + ((event.clientX - box.left) / box.width) * current.width,
+          current.y + ((event.clientY - box.top) / box.height) * current.height,
+        ),
+      );
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [hasLegs]);
+
+  useEffect(() => setView(FULL_VIEW), [tripsKey]);
+
+  const onPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    setView((current) => ({
+      ...current,
+      x: current.x - ((event.clientX - start.x) / box.width) * current.width,
+      y: current.y - ((event.clientY - start.y) / box.height) * current.height,
+    }));
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (!hasLegs) {
+    return <div className={`text-sm text-gray-500 ${className}`}>No coordinates to draw this trip.</div>;
+  }
+
+  const legColor = (tripIndex: number, category: string) =>
+    colorBy === "trip" ? TRIP_COLORS[tripIndex % TRIP_COLORS.length] : categoryColor(category);
+  const categories = Array.from(new Set(layout.legs.map((leg) => leg.category)));
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="relative border border-gray-200 rounded-lg bg-slate-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+          className="w-full h-auto touch-none cursor-grab active:cursor-grabbing select-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          role="img"
+          aria-label="Route map"
+        >
+          {layout.legs.map((leg, index) => (
+            <path
+              key={`${leg.tripIndex}-${leg.legIdx}-${index}`}
+              d={pathData(leg.points)}
+              fill="none"
+              stroke={legColor(leg.tripIndex, leg.category)}
+              strokeWidth={(colorBy === "trip" ? 3 : 4) * scale}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeDasharray={leg.dashed || leg.cancelled ? `${6 * scale} ${5 * scale}` : undefined}
+              opacity={leg.cancelled ? 0.5 : colorBy === "trip" ? 0.8 : 1}
+            >
+              <title>{leg.cancelled ? `${leg.label} (cancelled)` : leg.label}</title>
+            </path>
+          ))}
+
+          {layout.stops.map((stop) => (
+            <g key={`${stop.tripIndex}-${stop.name}`}>
+              <circle
+                cx={stop.x}
+                cy={stop.y}
+                r={STOP_RADIUS[stop.kind] * scale}
+                fill={stop.kind === "passing" ? "#9ca3af" : stop.kind === "cancelled" ? "#fee2e2" : "#ffffff"}
+                stroke={stop.kind === "cancelled" ? "#dc2626" : stop.kind === "passing" ? "none" : "#1f2937"}
+                strokeWidth={(stop.kind === "transfer" || stop.kind === "endpoint" ? 2 : 1) * scale}
+              >
+                <title>
+                  {stop.name}
+                  {stop.kind === "transfer" ? " (transfer)" : stop.kind === "cancelled" ? " (cancelled)" : stop.kind === "passing" ? " (not stopping)" : ""}
+                </title>
+              </circle>
+              {(stop.kind === "endpoint" || stop.kind === "transfer" || scale < 0.4) && stop.kind !== "passing" && (
+                <text
+                  x={stop.x + 8 * scale}
+                  y={stop.y + 4 * scale}
+                  fontSize={(stop.kind === "stop" || stop.kind === "cancelled" ? 10 : 12) * scale}
+                  fontWeight={stop.kind === "stop" ? 400 : 600}
+                  fill={stop.kind === "cancelled" ? "#dc2626" : "#1f2937"}
+                  stroke="#f8fafc"
+                  strokeWidth={3 * scale}
+                  paintOrder="stroke"
+                  className="pointer-events-none"
+                >
+                  {stop.name}
+                </text>
+              )}
+            </g>
+          ))}
+        </svg>
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          <button
+            type="button"
+            title="Zoom in"
+            onClick={() => zoomCentre(1.5)}
+            className="p-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            title="Zoom out"
+            onClick={() => zoomCentre(1 / 1.5)}
+            className="p-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            title="Reset view"
+            onClick={() => setView(FULL_VIEW)}
+            className="p-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {colorBy === "trip"
+          ? trips.map((_, index) => (
+              <span key={index} className="flex items-center gap-1">
+                <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: TRIP_COLORS[index % TRIP_COLORS.length] }} />
+                {tripLabels?.[index] || `Trip ${index + 1}`}
+              </span>
+            ))
+          : categories.map((category) => (
+              <span key={category} className="flex items-center gap-1">
+                <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: categoryColor(category) }} />
+                {category === "WALK" ? "Walk" : category}
+              </span>
+            ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full border-2 border-gray-800 bg-white" />
+          Transfer
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-1.5 h-1.5 rounded-full bg-gray-400" />
+          Passing
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full border border-red-600 bg-red-100" />
+          Cancelled
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { isSameRoute, savedRouteFromSearch, useSavedRoutes } from "@/hooks/use-saved-routes";
+import { type TripSearch } from "@shared/schema";
+
+// "Save this search" on the results header; visitors are sent to log in first
+export default function SaveSearchButton({ search }: { search: TripSearch }) {
+  const { user, available } = useAuth();
+  const { routes, saveRoute } = useSavedRoutes();
+  const [location] = useLocation();
+  const queryString = useSearch();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isFavourite, setIsFavourite] = useState(true);
+
+  if (!available) return null;
+
+  if (!user) {
+    return (
+      <Link
+        href={`/login?next=${encodeURIComponent(`${location}?${queryString}`)}`}
+        className="flex items-center gap-1 text-sm text-ns-blue hover:underline"
+      >
+        <Bookmark className="w-4 h-4" />
+        Log in to save this search
+      </Link>
+    );
+  }
+
+  if (routes.some((route) => isSameRoute(route, search))) {
+    return (
+      <span className="flex items-center gap-1 text-sm text-gray-600">
+        <BookmarkCheck className="w-4 h-4 text-ns-blue" />
+        Saved
+      </span>
+    );
+  }
+
+  const openDialog = () => {
+    setName(`${search.fromStation} → ${search.toStation}`);
+    setOpen(true);
+  };
+
+  const save = () => {
+    saveRoute.mutate(savedRouteFromSearch(search, name.trim(), isFavourite), {
+      onSuccess: () => setOpen(false),
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog}>
+        <Bookmark className="w-4 h-4 mr-1" />
+        Save this search
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="text-sm text-gray-600">
+              {search.fromStation} → {search.toStation}
+              {search.viaStation && ` via ${search.viaStation}`}, with the current travel options
+            </div>
+            <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Name, e.g. Work" maxLength={100} />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={isFavourite} onCheckedChange={(checked) => setIsFavourite(checked === true)} />
+              Show as favourite
+            </label>
+            {saveRoute.error && <div className="text-sm text-red-600">{saveRoute.error.message}</div>}
+          </div>
+          <DialogFooter>
+            <Button onClick={save} disabled={!name.trim() || saveRoute.isPending} className="bg-ns-blue hover:bg-blue-800 text-white">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
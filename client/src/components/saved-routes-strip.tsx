@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Star, X, ArrowRight, CalendarClock } from "lucide-react";
+import CommuteDialog from "@/components/commute-dialog";
+import { useSavedRoutes, searchFromSavedRoute } from "@/hooks/use-saved-routes";
+import { useSearchState } from "@/hooks/use-search-state";
+import { type SavedRouteItem } from "@/lib/accountApi";
+
+const WEEKDAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// "Mon–Fri 08:10", "Tue, Thu 07:45"
+function commuteLabel(route: SavedRouteItem): string | null {
+  if (!route.commuteTime || route.commuteDays.length === 0) return null;
+  const days = [...route.commuteDays].sort((a, b) => a - b);
+  const isRange = days.length > 2 && days[days.length - 1] - days[0] === days.length - 1;
+  const dayNames = isRange
+    ? `${WEEKDAY_NAMES[days[0] - 1]}–${WEEKDAY_NAMES[days[days.length - 1] - 1]}`
+    : days.map((day) => WEEKDAY_NAMES[day - 1]).join(", ");
+  return `${dayNames} ${route.commuteTime}`;
+}
+
+// Saved routes above the search form: one tap searches the route from now on
+export default function SavedRoutesStrip() {
+  const { routes, updateRoute, removeRoute } = useSavedRoutes();
+  const { setSearch } = useSearchState();
+  const [commuteRoute, setCommuteRoute] = useState<SavedRouteItem | null>(null);
+
+  if (routes.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+      {routes.map((route) => {
+        const commute = commuteLabel(route);
+        return (
+          <div
+            key={route.id}
+            className={`flex items-center gap-1 flex-shrink-0 rounded-full border px-2 py-1 text-sm bg-white shadow-sm ${
+              route.isFavourite ? "border-ns-blue" : "border-gray-200"
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => updateRoute.mutate({ id: route.id, patch: { isFavourite: !route.isFavourite } })}
+              title={route.isFavourite ? "Remove from favourites" : "Add to favourites"}
+              className="p-0.5"
+            >
+              <Star className={`w-4 h-4 ${route.isFavourite ? "fill-yellow-400 text-yellow-500" : "text-gray-400"}`} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setSearch(searchFromSavedRoute(route))}
+              title={`${route.fromStation} → ${route.toStation}${route.options.viaStation ? ` via ${route.options.viaStation}` : ""}`}
+              className="flex items-center gap-1 font-medium text-gray-800 hover:text-ns-blue"
+            >
+              <span>{route.name}</span>
+              <ArrowRight className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setCommuteRoute(route)}
+              title={commute ? `Commute ${commute}` : "Set up as commute"}
+              className={`flex items-center gap-1 p-0.5 text-xs ${commute ? "text-ns-blue" : "text-gray-400 hover:text-ns-blue"}`}
+            >
+              <CalendarClock className="w-4 h-4" />
+              {commute && <span>{commute}</span>}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeRoute.mutate(route.id)}
+              title="Delete saved route"
+              className="p-0.5 text-gray-400 hover:text-red-600"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        );
+      })}
+      {commuteRoute && (
+        <CommuteDialog route={commuteRoute} open onOpenChange={(open) => !open && setCommuteRoute(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { History, ChevronDown, ChevronUp, ArrowRight, RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useSearchHistory, rebaseSearch } from "@/hooks/use-search-history";
+import { useSearchState } from "@/hooks/use-search-state";
+
+const MAX_SHOWN = 8;
+
+const relativeTime = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+// "5 minutes ago", "yesterday", "3 days ago"
+function formatSearchedAt(searchedAt: string, now: Date = new Date()): string {
+  const minutes = Math.round((new Date(searchedAt).getTime() - now.getTime()) / 60000);
+  if (Math.abs(minutes) < 60) return relativeTime.format(minutes, "minute");
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) return relativeTime.format(hours, "hour");
+  return relativeTime.format(Math.round(hours / 24), "day");
+}
+
+const formatSearchTime = (dateTime: string) => dateTime.slice(11, 16);
+
+const formatSearchDate = (dateTime: string) =>
+  new Date(dateTime).toLocaleDateString("nl-NL", { day: "numeric", month: "short" });
+
+// Earlier searches, to run again for today or exactly as they were
+export default function SearchHistoryPanel() {
+  const { searches, clearHistory } = useSearchHistory();
+  const { search: currentSearch, setSearch } = useSearchState();
+  // Out of the way while results are shown
+  const [expanded, setExpanded] = useState(!currentSearch);
+
+  if (searches.length === 0) return null;
+
+  return (
+    <Card className="bg-white rounded-xl shadow-lg mb-8">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-800"
+          >
+            <History className="w-4 h-4 text-ns-blue" />
+            <span>Recent searches</span>
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {expanded && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => clearHistory.mutate()}
+              disabled={clearHistory.isPending}
+              className="text-gray-500 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {expanded && (
+          <div className="mt-3 divide-y divide-gray-100">
+            {searches.slice(0, MAX_SHOWN).map(({ search, searchedAt }) => (
+              <div key={`${searchedAt}-${search.dateTime}`} className="flex items-center gap-3 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1 font-medium text-gray-800 truncate">
+                    <span className="truncate">{search.fromStation}</span>
+                    <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{search.toStation}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {search.searchForArrival ? "Arrive" : "Depart"} {formatSearchDate(search.dateTime)} {formatSearchTime(search.dateTime)}
+                    {search.viaStation && ` · via ${search.viaStation}`}
+                    {` · searched ${formatSearchedAt(searchedAt)}`}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => setSearch(rebaseSearch(search))}
+                  title="Same trip, today"
+                  className="bg-ns-blue hover:bg-blue-800 text-white"
+                >
+                  Today {formatSearchTime(search.dateTime)}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSearch(search)}
+                  title="Search again with the original date and time"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { type TransferRisk, type TransferRiskLevel } from "@shared/transferRisk";
+
+export const TRANSFER_RISK_LABELS: Record<TransferRiskLevel, string> = {
+  low: "Safe",
+  medium: "Tight",
+  high: "Risky",
+  missed: "Missed",
+};
+
+const LEVEL_STYLES: Record<TransferRiskLevel, { className: string; icon: typeof ShieldCheck }> = {
+  low: { className: "bg-green-100 text-green-800", icon: ShieldCheck },
+  medium: { className: "bg-yellow-100 text-yellow-800", icon: ShieldAlert },
+  high: { className: "bg-orange-100 text-orange-800", icon: ShieldAlert },
+  missed: { className: "bg-red-100 text-red-800", icon: ShieldX },
+};
+
+interface TransferRiskBadgeProps {
+  risk: TransferRisk;
+  // Shown before the level, e.g. "Weakest transfer"
+  prefix?: string;
+}
+
+// Risk of one connection; the reasons behind the score are in the tooltip
+export default function TransferRiskBadge({ risk, prefix }: TransferRiskBadgeProps) {
+  const { className, icon: Icon } = LEVEL_STYLES[risk.level];
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${className}`}
+      title={`${risk.station}: risk ${risk.score}/100\n${risk.reasons.join("\n")}`}
+    >
+      <Icon className="w-3 h-3" />
+      {prefix && `${prefix}: `}
+      {TRANSFER_RISK_LABELS[risk.level]}
+    </span>
+  );
+}
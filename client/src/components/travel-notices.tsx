@@ -0,0 +1,83 @@
+import { AlertTriangle, Construction, Info } from "lucide-react";
+import { type NoticeSeverity, type TravelNotice } from "@shared/notices";
+
+const SEVERITY_STYLES: Record<NoticeSeverity, { className: string; icon: React.ReactNode; label: string }> = {
+  disruption: {
+    className: "bg-red-50 border-red-200 text-red-800",
+    icon: <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    label: "Disruption",
+  },
+  maintenance: {
+    className: "bg-yellow-50 border-yellow-200 text-yellow-800",
+    icon: <Construction className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    label: "Engineering works",
+  },
+  info: {
+    className: "bg-blue-50 border-blue-200 text-blue-800",
+    icon: <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    label: "Travel information",
+  },
+};
+
+// "vr 1 aug 00:30", or the raw value when NS sent something unparseable
+export function formatNoticeDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString("nl-NL", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function validityText(notice: TravelNotice): string | null {
+  if (notice.validFrom && notice.validUntil) {
+    return `${formatNoticeDateTime(notice.validFrom)} – ${formatNoticeDateTime(notice.validUntil)}`;
+  }
+  if (notice.validFrom) return `From ${formatNoticeDateTime(notice.validFrom)}`;
+  if (notice.validUntil) return `Until ${formatNoticeDateTime(notice.validUntil)}`;
+  return null;
+}
+
+interface TravelNoticesProps {
+  notices: TravelNotice[];
+  className?: string;
+}
+
+// Disruption, maintenance and info notices from shared/notices.ts, most severe first
+export default function TravelNotices({ notices, className = "" }: TravelNoticesProps) {
+  if (notices.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {notices.map((notice) => {
+        const style = SEVERITY_STYLES[notice.severity];
+        const validity = validityText(notice);
+
+        return (
+          <div key={notice.id} className={`flex items-start gap-2 border rounded-lg p-2 text-sm ${style.className}`}>
+            {style.icon}
+            <div className="min-w-0">
+              <div className="font-medium">
+                <span className="sr-only">{style.label}: </span>
+                {notice.title}
+              </div>
+              {notice.text && <div className="text-xs">{notice.text}</div>}
+              {notice.affectedStops.length > 0 && (
+                <div className="text-xs opacity-80">Affects {notice.affectedStops.join(", ")}</div>
+              )}
+              {validity && <div className="text-xs opacity-80">{validity}</div>}
+              {notice.link && (
+                <a href={notice.link.url} target="_blank" rel="noreferrer" className="text-xs underline">
+                  {notice.link.title}
+                </a>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
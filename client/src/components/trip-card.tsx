@@ -7,22 +7,83 @@ import {
   ArrowRight,
   ChevronDown,
   ChevronUp,
+  Link2,
+  Map as MapIcon,
 } from "lucide-react";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import LegDetails from "./leg-details";
 import AlternativeTripsModal from "./alternative-trips-modal";
-import { type Trip } from "@shared/schema";
+import TravelNotices from "./travel-notices";
+import TripFare from "./trip-fare";
+import TripChanges from "./trip-changes";
+import LiveTripStatusNote from "./live-trip-status";
+import TripExportMenu from "./trip-export-menu";
+import RouteMap from "./route-map";
+import TransferRiskBadge from "./transfer-risk-badge";
+import MissedConnectionHint from "./missed-connection-hint";
+import RouteConstraintBadges from "./route-constraint-badges";
+import { type Trip, type TravelDirection, type TripSearch } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
+import { getTrainDetails } from "@/lib/nsApi";
+import { fareSelectionToParams, legKey } from "@shared/nsGateway";
+import {
+  allocatePlatformFeatures,
+  getPlatformLettersForCarriage,
+  type CarriageAllocation,
+} from "@shared/composition";
+import { tripNotices } from "@shared/notices";
+import { type FareSelection } from "@shared/fares";
+import { useLiveTrip } from "@/hooks/use-live-trip";
+import { useTransferFallbacks } from "@/hooks/use-transfer-fallbacks";
+import { transferRisks, tripTransferRisk } from "@shared/transferRisk";
+import { hasRouteConstraints, type RouteConstraints } from "@shared/routeConstraints";
+
+// The trip page reloads the trip with the same fare options, so they go in the link
+function tripPagePath(ctxRecon: string, fareSelection: FareSelection | undefined): string {
+  const query = fareSelection ? fareSelectionToParams(fareSelection).toString() : "";
+  return `/trip/${encodeURIComponent(ctxRecon)}${query ? `?${query}` : ""}`;
+}
 
 interface TripCardProps {
   trip: Trip;
   materialTypeFilter?: string | null;
+  defaultExpanded?: boolean;
+  // Class, discount and product to price the trip in; defaults to 2nd class, full fare
+  fareSelection?: FareSelection;
+  // Via and avoid stations of the search, shown as badges when there are any
+  routeConstraints?: RouteConstraints;
+  // The search the trip came from; missed-connection fallbacks use its options
+  search?: TripSearch;
+  // Selection for the map comparison in the results; no checkbox without it
+  compareSelected?: boolean;
+  onCompareChange?: (selected: boolean) => void;
 }
 
-export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
-  const [isCollapsed, setIsCollapsed] = useState(true);
+export default function TripCard({
+  trip: initialTrip,
+  materialTypeFilter,
+  defaultExpanded = false,
+  fareSelection,
+  routeConstraints,
+  search,
+  compareSelected,
+  onCompareChange,
+}: TripCardProps) {
+  const [isCollapsed, setIsCollapsed] = useState(!defaultExpanded);
+  // Delays, platforms and cancellations follow the live monitor while the card is
+  // expanded; each followed trip is polled upstream, so collapsed cards are not
+  const { trip, changes, changedAt, highlighted, status: liveStatus, dismissChanges } = useLiveTrip(
+    initialTrip,
+    fareSelection,
+    !isCollapsed,
+  );
   const [expandedStops, setExpandedStops] = useState<Set<number>>(new Set());
+  const [showMap, setShowMap] = useState(false);
+  // Fallbacks for missed connections are only looked up once the details are open
+  const missedConnection = useTransferFallbacks(trip.legs, !isCollapsed, search);
 
   const toggleStopsExpansion = (legIndex: number) => {
     setExpandedStops(prev => {
@@ -87,6 +148,10 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
   };
 
   const statusInfo = getStatusInfo();
+  const notices = tripNotices(trip);
+  const warningCount = notices.filter((notice) => notice.severity !== "info").length;
+  // The weakest connection decides how safe the whole trip is
+  const transferRisk = tripTransferRisk(trip);
 
   // Get first and last stations
   const firstLeg = trip.legs[0];
@@ -234,244 +299,6 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
     return result;
   };
 
-  // Utility function to allocate perronVoorzieningen to bakken based on proportional positioning
-  const allocatePerronVoorzieningen = (materieeldeel: any, perronVoorzieningen: any[]) => {
-    if (!materieeldeel?.bakken || !perronVoorzieningen || perronVoorzieningen.length === 0) {
-      return [];
-    }
-
-    const { bakken, breedte } = materieeldeel;
-    
-    // Calculate total width of all bakken images
-    const totalBakkenWidth = bakken.reduce((sum: number, bak: any) => {
-      return sum + (bak.afbeelding?.breedte || 0);
-    }, 0);
-
-    // Calculate the scale factor between actual train width and image width
-    const scaleFactor = breedte / totalBakkenWidth;
-
-    // Create allocation result
-    const allocation: Array<{
-      bakIndex: number;
-      bakImage: any;
-      perronVoorzieningen: any[];
-    }> = [];
-
-    // Initialize each bak with empty perronVoorzieningen array
-    bakken.forEach((bak: any, index: number) => {
-      allocation.push({
-        bakIndex: index,
-        bakImage: bak.afbeelding,
-        perronVoorzieningen: []
-      });
-    });
-
-    // Allocate each perronVoorziening to the appropriate bak
-    perronVoorzieningen.forEach((voorziening) => {
-      // Use paddingLeft (left edge) instead of center for positioning
-      const scaledPosition = voorziening.paddingLeft / scaleFactor;
-      
-      // Find which bak this voorziening belongs to
-      let currentPosition = 0;
-      let allocatedBakIndex = -1;
-      
-      for (let i = 0; i < bakken.length; i++) {
-        const bakWidth = bakken[i].afbeelding?.breedte || 0;
-        const bakStart = currentPosition;
-        const bakEnd = currentPosition + bakWidth;
-        
-        if (scaledPosition >= bakStart && scaledPosition <= bakEnd) {
-          allocatedBakIndex = i;
-          break;
-        }
-        
-        currentPosition += bakWidth;
-      }
-      
-      // If not found in any specific bak, allocate to the closest one
-      if (allocatedBakIndex === -1) {
-        currentPosition = 0;
-        let minDistance = Infinity;
-        
-        for (let i = 0; i < bakken.length; i++) {
-          const bakWidth = bakken[i].afbeelding?.breedte || 0;
-          const bakCenter = currentPosition + (bakWidth / 2);
-          const distance = Math.abs(scaledPosition - bakCenter);
-          
-          if (distance < minDistance) {
-            minDistance = distance;
-            allocatedBakIndex = i;
-          }
-          
-          currentPosition += bakWidth;
-        }
-      }
-      
-      // Add the voorziening to the allocated bak
-      if (allocatedBakIndex >= 0 && allocatedBakIndex < allocation.length) {
-        allocation[allocatedBakIndex].perronVoorzieningen.push({
-          ...voorziening,
-          scaledPosition,
-          originalPosition: voorziening.paddingLeft
-        });
-      }
-    });
-
-    return allocation;
-  };
-
-  // Function to get perron numbers for left and right sides of each image
-  const getPerronNumbersForImage = (perronAllocation: any[], imageIndex: number) => {
-    if (!perronAllocation || perronAllocation.length === 0) {
-      return { leftPerron: null, rightPerron: null };
-    }
-
-    // Alphabet array for perron letter inference
-    const alphabet = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z'];
-
-    // Get all perron letters from the current image with their positions
-    const currentImagePerrons = perronAllocation[imageIndex]?.perronVoorzieningen
-      ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-      ?.map((voorziening: any) => ({
-        letter: voorziening.description,
-        position: voorziening.scaledPosition || 0
-      }))
-      ?.sort((a: any, b: any) => a.position - b.position) || [];
-
-    // If current image has perron letters, analyze their positions
-    if (currentImagePerrons.length > 0) {
-      const bakImage = perronAllocation[imageIndex]?.bakImage;
-      if (!bakImage?.breedte) {
-        // Fallback to simple logic if we don't have position data
-        return {
-          leftPerron: currentImagePerrons[0].letter,
-          rightPerron: currentImagePerrons[currentImagePerrons.length - 1].letter
-        };
-      }
-
-      // Calculate the start position of this carriage in the total train
-      let carriageStartPosition = 0;
-      for (let i = 0; i < imageIndex; i++) {
-        carriageStartPosition += perronAllocation[i]?.bakImage?.breedte || 0;
-      }
-
-      // Convert absolute positions to relative positions within this carriage
-      const perronsWithRelativePositions = currentImagePerrons.map((perron: any) => {
-        const positionInCarriage = perron.position - carriageStartPosition;
-        const percentagePosition = Math.min(Math.max((positionInCarriage / bakImage.breedte) * 100, 0), 100);
-        return {
-          ...perron,
-          percentagePosition
-        };
-      });
-
-      // If we have multiple perron letters, determine left and right based on positions
-      if (perronsWithRelativePositions.length > 1) {
-        const sortedPerrons = perronsWithRelativePositions.sort((a: any, b: any) => a.percentagePosition - b.percentagePosition);
-        return {
-          leftPerron: sortedPerrons[0].letter,
-          rightPerron: sortedPerrons[sortedPerrons.length - 1].letter
-        };
-      }
-
-      // If we have only one perron letter, infer adjacent perrons based on position
-      const singlePerron = perronsWithRelativePositions[0];
-      const percentagePosition = singlePerron.percentagePosition;
-
-      // If the perron is positioned beyond 10% from the left, the left side likely corresponds to the previous perron letter
-      if (percentagePosition > 10) {
-        // First, try to find previous perron letters in other images
-        for (let i = imageIndex - 1; i >= 0; i--) {
-          const previousImagePerrons = perronAllocation[i]?.perronVoorzieningen
-            ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-            ?.map((voorziening: any) => voorziening.description)
-            ?.sort() || [];
-
-          if (previousImagePerrons.length > 0) {
-            return {
-              leftPerron: previousImagePerrons[previousImagePerrons.length - 1], // Use the last (rightmost) perron from previous image
-              rightPerron: singlePerron.letter
-            };
-          }
-        }
-
-        // If no previous perron letters found, infer using alphabet
-        const currentLetterIndex = alphabet.indexOf(singlePerron.letter);
-        if (currentLetterIndex > 0) {
-          return {
-            leftPerron: alphabet[currentLetterIndex - 1],
-            rightPerron: singlePerron.letter
-          };
-        }
-      }
-
-      // If the perron is positioned at 10% or less from the left, the right side likely corresponds to the next perron letter
-      if (percentagePosition <= 10) {
-        // First, try to find next perron letters in other images
-        for (let i = imageIndex + 1; i < perronAllocation.length; i++) {
-          const nextImagePerrons = perronAllocation[i]?.perronVoorzieningen
-            ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-            ?.map((voorziening: any) => voorziening.description)
-            ?.sort() || [];
-
-          if (nextImagePerrons.length > 0) {
-            return {
-              leftPerron: singlePerron.letter,
-              rightPerron: nextImagePerrons[0] // Use the first (leftmost) perron from next image
-            };
-          }
-        }
-
-        // If no next perron letters found, infer using alphabet
-        const currentLetterIndex = alphabet.indexOf(singlePerron.letter);
-        if (currentLetterIndex < alphabet.length - 1) {
-          return {
-            leftPerron: singlePerron.letter,
-            rightPerron: alphabet[currentLetterIndex + 1]
-          };
-        }
-      }
-
-      // If we can't infer adjacent perrons, just return the single perron for both sides
-      return {
-        leftPerron: singlePerron.letter,
-        rightPerron: singlePerron.letter
-      };
-    }
-
-    // If no perron letters in current image, look at previous images
-    for (let i = imageIndex - 1; i >= 0; i--) {
-      const previousImagePerrons = perronAllocation[i]?.perronVoorzieningen
-        ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-        ?.map((voorziening: any) => voorziening.description)
-        ?.sort() || [];
-
-      if (previousImagePerrons.length > 0) {
-        return {
-          leftPerron: previousImagePerrons[0],
-          rightPerron: previousImagePerrons[previousImagePerrons.length - 1]
-        };
-      }
-    }
-
-    // If no perron letters found in any previous images, look at next images
-    for (let i = imageIndex + 1; i < perronAllocation.length; i++) {
-      const nextImagePerrons = perronAllocation[i]?.perronVoorzieningen
-        ?.filter((voorziening: any) => voorziening.type === 'PERRONLETTER')
-        ?.map((voorziening: any) => voorziening.description)
-        ?.sort() || [];
-
-      if (nextImagePerrons.length > 0) {
-        return {
-          leftPerron: nextImagePerrons[0],
-          rightPerron: nextImagePerrons[nextImagePerrons.length - 1]
-        };
-      }
-    }
-
-    return { leftPerron: null, rightPerron: null };
-  };
-
   // State to store train types and seating data for each leg
   const [legTrainTypes, setLegTrainTypes] = useState<{ [key: string]: string }>(
     {},
@@ -483,17 +310,17 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
     [key: string]: { 
       carriageCount: number; 
       bakkenImages: string[]; 
-      direction?: string;
-      perronAllocation?: any[];
+      direction?: TravelDirection | null;
+      perronAllocation?: CarriageAllocation[];
     };
   }>({});
   const [forceUpdate, setForceUpdate] = useState(0);
   const [showCarriageModal, setShowCarriageModal] = useState(false);
   const [selectedCarriageData, setSelectedCarriageData] = useState<{ 
     bakkenImages: string[]; 
-    direction?: string; 
+    direction?: TravelDirection | null;
     trainType: string;
-    perronAllocation?: any[];
+    perronAllocation?: CarriageAllocation[];
   } | null>(null);
   const [firstClassDetection, setFirstClassDetection] = useState<{
     [imageIndex: number]: string | null;
@@ -565,7 +392,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
     
     selectedCarriageData.bakkenImages.forEach((_, imageIndex) => {
       const detectionResult = firstClassDetection[imageIndex];
-      const perronNumbers = getPerronNumbersForImage(selectedCarriageData.perronAllocation || [], imageIndex);
+      const perronNumbers = getPlatformLettersForCarriage(selectedCarriageData.perronAllocation || [], imageIndex);
       
       // Only process if we have both detection result and perron numbers
       if (detectionResult && typeof detectionResult === 'string' && 
@@ -697,6 +524,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
   const getDetailedHeader = () => {
     // Line 1: Transfer count
     const transferCount = `${trip.transfers} transfer${trip.transfers !== 1 ? "s" : ""}`;
+    const risks = transferRisks(trip.legs);
 
     // Line 2: Travel and transfer details - each leg shows travel to destination, then transfer info
     const transferParts: React.ReactNode[] = [];
@@ -1002,6 +830,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
           nextModalityType = "bus";
 
         if (nextModalityType !== "walking" && waitingTime > 0) {
+          const risk = risks.find((candidate) => candidate.legIndex === index + 1);
           // Get platform information for the transfer
           const arrivalPlatform =
             leg.destination.actualTrack || leg.destination.plannedTrack;
@@ -1021,6 +850,10 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
               className="text-sm text-purple-600 ml-8 -mt-1 mb-1"
             >
               ↻ transfer: {waitingTime}min{platformInfo}
+              {risk && <span className="ml-2"><TransferRiskBadge risk={risk} /></span>}
+              <div>
+                <MissedConnectionHint missed={missedConnection(index + 1)} />
+              </div>
             </div>,
           );
         }
@@ -1068,87 +901,22 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
 
           if (!trainNumber || !boardingStationCode) return null;
 
-          // For static deployment, make direct call to NS Virtual Train API with CORS and seating features
-          const virtualTrainUrl = `https://gateway.apiportal.ns.nl/virtual-train-api/api/v1/trein/${trainNumber}/${encodeURIComponent(boardingStationCode)}?dateTime=${encodeURIComponent(dateTime)}&features=zitplaats,druktev2,platformitems`;
-          const timestamp = new Date().toISOString();
-
-          const response = await fetch(virtualTrainUrl, {
-            headers: {
-              "Ocp-Apim-Subscription-Key": "ae99952bf4d24fb893ce33472cb6d605"
-                // import.meta.env.VITE_NS_API_KEY || "",
-            },
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
-
-          const data = await response.json();
-
-          // Log the full structure to understand seat data format
-          console.log(
-            "Full Virtual Train API Response Structure:",
-            JSON.stringify(data, null, 2),
-          );
-
+          const composition = await getTrainDetails(trainNumber, boardingStationCode, dateTime);
+          if (!composition) return null;
 
-
-          if (!response.ok) {
-            console.warn(
-              `Failed to fetch train details for ${trainNumber}:`,
-              response.statusText,
-            );
-            return null;
-          }
-
-          // Extract seat counts, carriage count, bakken images, and direction from Virtual Train API response
-          let firstClassSeats = 0;
-          let secondClassSeats = 0;
-          let carriageCount = 0;
-          let bakkenImages: string[] = [];
-          let direction = data.rijrichting || null; // Extract direction (LINKS/RECHTS)
-          let perronAllocation: any[] = [];
-
-          if (data.materieeldelen && data.materieeldelen.length > 0) {
-            data.materieeldelen.forEach((deel: any) => {
-              // Count carriages from bakken array and collect images
-              if (deel.bakken && deel.bakken.length > 0) {
-                carriageCount += deel.bakken.length;
-                deel.bakken.forEach((bak: any) => {
-                  if (bak.afbeelding && bak.afbeelding.url) {
-                    bakkenImages.push(bak.afbeelding.url);
-                  }
-                });
-              }
-              // Sum seating from materieeldeel level
-              if (deel.zitplaatsen) {
-                firstClassSeats += deel.zitplaatsen.zitplaatsEersteKlas || 0;
-                secondClassSeats += deel.zitplaatsen.zitplaatsTweedeKlas || 0;
-              }
-            });
-
-            // Allocate perronVoorzieningen to bakken for the first materieeldeel
-            if (data.perronVoorzieningen && data.materieeldelen[0]) {
-              console.log("Found perronVoorzieningen:", data.perronVoorzieningen);
-              console.log("Found materieeldelen[0]:", data.materieeldelen[0]);
-              perronAllocation = allocatePerronVoorzieningen(
-                data.materieeldelen[0], 
-                data.perronVoorzieningen
-              );
-              console.log("Perron allocation result:", perronAllocation);
-            } else {
-              console.log("No perronVoorzieningen or materieeldelen found");
-            }
-          }
+          // Platform features are drawn against the first train part
+          const perronAllocation = composition.parts[0]
+            ? allocatePlatformFeatures(composition.parts[0], composition.platformFeatures)
+            : [];
 
           return {
-            legKey: `${trainNumber}-${boardingStationCode}`,
-            trainType: data.type || leg.product.categoryCode,
-            firstClassSeats: firstClassSeats,
-            secondClassSeats: secondClassSeats,
-            carriageCount: carriageCount,
-            bakkenImages: bakkenImages,
-            direction: direction,
+            legKey: legKey(trainNumber, boardingStationCode),
+            trainType: composition.trainType || leg.product.categoryCode,
+            firstClassSeats: composition.seats.firstClass,
+            secondClassSeats: composition.seats.secondClass,
+            carriageCount: composition.carriages.length,
+            bakkenImages: composition.carriages.map((carriage) => carriage.imageUrl),
+            direction: composition.direction,
             perronAllocation: perronAllocation,
           };
         } catch (error) {
@@ -1169,8 +937,8 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
         [key: string]: { 
           carriageCount: number; 
           bakkenImages: string[]; 
-          direction?: string;
-          perronAllocation?: any[];
+          direction?: TravelDirection | null;
+          perronAllocation?: CarriageAllocation[];
         };
       } = {};
 
@@ -1218,7 +986,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
   // No longer filtering at card level - parent component handles filtering
 
   return (
-         <Card className="bg-white rounded-xl shadow-lg hover:shadow-xl transition-shadow border border-gray-200 mx-1">
+         <Card className={`bg-white rounded-xl shadow-lg hover:shadow-xl transition-shadow border mx-1 ${highlighted ? "border-yellow-400 ring-2 ring-yellow-300" : "border-gray-200"}`}>
       {/* Trip Header */}
              <CardContent className="p-2 border-b border-gray-100">
         <div className="mb-3 space-y-2">
@@ -1352,6 +1120,22 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
               {statusInfo.icon}
               <span>{statusInfo.text}</span>
             </div>
+            {warningCount > 0 && (
+              <div className="px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1 bg-yellow-100 text-yellow-800">
+                <AlertTriangle className="w-4 h-4" />
+                <span>{warningCount} notice{warningCount !== 1 ? "s" : ""}</span>
+              </div>
+            )}
+            {transferRisk && <TransferRiskBadge risk={transferRisk.worst} prefix="Transfers" />}
+            {onCompareChange && (
+              <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer" title="Compare on map">
+                <Checkbox
+                  checked={compareSelected === true}
+                  onCheckedChange={(checked) => onCompareChange(checked === true)}
+                />
+                Compare
+              </label>
+            )}
             
             {/* Collapse/Expand Triangle */}
             <button
@@ -1373,9 +1157,19 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                   .padStart(2, "0")}
               </div>
               <div className="text-xs text-gray-600">Total journey</div>
+              <TripFare trip={trip} selection={fareSelection} />
             </div>
           </div>
 
+          {routeConstraints && hasRouteConstraints(routeConstraints) && (
+            <div className="mt-2">
+              <RouteConstraintBadges trip={trip} constraints={routeConstraints} />
+            </div>
+          )}
+
+          <TripChanges changes={changes} changedAt={changedAt} onDismiss={dismissChanges} />
+          <LiveTripStatusNote status={liveStatus} />
+
           {/* Trip details on separate line - collapsible */}
           {!isCollapsed && (
             <div className="text-gray-600 text-sm space-y-1">
@@ -1416,6 +1210,27 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                   </>
                 );
               })()}
+              <TripFare trip={trip} selection={fareSelection} detailed />
+              <TravelNotices notices={notices} className="pt-2" />
+              <div className="flex items-center gap-4">
+                <Link
+                  href={tripPagePath(trip.ctxRecon, fareSelection)}
+                  className="inline-flex items-center gap-1 text-xs text-ns-blue hover:underline pt-2"
+                >
+                  <Link2 className="w-3 h-3" />
+                  Link to this trip
+                </Link>
+                <TripExportMenu trip={trip} />
+                <button
+                  type="button"
+                  onClick={() => setShowMap(!showMap)}
+                  className="inline-flex items-center gap-1 text-xs text-ns-blue hover:underline pt-2"
+                >
+                  <MapIcon className="w-3 h-3" />
+                  {showMap ? "Hide map" : "Show map"}
+                </button>
+              </div>
+              {showMap && <RouteMap trips={[trip]} className="pt-2" />}
             </div>
           )}
         </div>
@@ -1475,11 +1290,11 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                         }> = [];
                         
                         // Collect from perronAllocation with positions
-                        selectedCarriageData.perronAllocation?.forEach((allocation: any) => {
-                          allocation.perronVoorzieningen?.forEach((voorziening: any) => {
+                        selectedCarriageData.perronAllocation?.forEach((allocation) => {
+                          allocation.platformFeatures.forEach((voorziening) => {
                             const label = voorziening.description;
                             const type = voorziening.type;
-                            const position = voorziening.paddingLeft || 0;
+                            const position = voorziening.position;
                             
                             if (type === 'PERRONLETTER' && label) {
                               facilitiesWithPositions.push({
@@ -1571,11 +1386,11 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                         }> = [];
                         
                         // Collect from perronAllocation with positions
-                        selectedCarriageData.perronAllocation?.forEach((allocation: any) => {
-                          allocation.perronVoorzieningen?.forEach((voorziening: any) => {
+                        selectedCarriageData.perronAllocation?.forEach((allocation) => {
+                          allocation.platformFeatures.forEach((voorziening) => {
                             const label = voorziening.description;
                             const type = voorziening.type;
-                            const position = voorziening.paddingLeft || 0;
+                            const position = voorziening.position;
                             
                             if (type === 'PERRONLETTER' && label) {
                               facilitiesWithPositions.push({
@@ -1650,7 +1465,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
               
               <div className="space-y-4">
                 {selectedCarriageData.bakkenImages.map((imageUrl, index) => {
-                  const perronVoorzieningen = selectedCarriageData.perronAllocation?.[index]?.perronVoorzieningen || [];
+                  const perronVoorzieningen = selectedCarriageData.perronAllocation?.[index]?.platformFeatures || [];
                   console.log(`Rendering carriage ${index + 1}, perronVoorzieningen:`, perronVoorzieningen);
                   console.log(`selectedCarriageData.perronAllocation:`, selectedCarriageData.perronAllocation);
                   return (
@@ -1689,7 +1504,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                         
                         {/* Perron Numbers Display */}
                         {(() => {
-                          const perronNumbers = getPerronNumbersForImage(selectedCarriageData.perronAllocation || [], index);
+                          const perronNumbers = getPlatformLettersForCarriage(selectedCarriageData.perronAllocation || [], index);
                           if (perronNumbers.leftPerron || perronNumbers.rightPerron) {
                             return (
                               <div className="text-center text-xs text-blue-600 mt-1 font-medium">
@@ -1749,26 +1564,26 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                                 </div>
                                 
                                 {/* Plot each voorziening at its precise position */}
-                                {perronVoorzieningen.map((voorziening: any, vIndex: number) => {
-                                  const bakImage = selectedCarriageData.perronAllocation?.[index]?.bakImage;
-                                  if (!bakImage?.breedte) return null;
+                                {perronVoorzieningen.map((voorziening, vIndex) => {
+                                  const carriage = selectedCarriageData.perronAllocation?.[index]?.carriage;
+                                  if (!carriage?.width) return null;
                                   
                                   // Calculate position relative to this specific bak image
                                   // The voorziening.scaledPosition is already calculated relative to the total train width
                                   // We need to find where this carriage starts in the total train and calculate the relative position
                                   const totalBakkenWidth = selectedCarriageData.bakkenImages.reduce((sum: number, _: string, i: number) => {
-                                    return sum + (selectedCarriageData.perronAllocation?.[i]?.bakImage?.breedte || 0);
+                                    return sum + (selectedCarriageData.perronAllocation?.[i]?.carriage.width || 0);
                                   }, 0);
                                   
                                   // Calculate the start position of this carriage in the total train
                                   let carriageStartPosition = 0;
                                   for (let i = 0; i < index; i++) {
-                                    carriageStartPosition += selectedCarriageData.perronAllocation?.[i]?.bakImage?.breedte || 0;
+                                    carriageStartPosition += selectedCarriageData.perronAllocation?.[i]?.carriage.width || 0;
                                   }
                                   
                                   // Calculate the position relative to this specific carriage
                                   const positionInCarriage = voorziening.scaledPosition - carriageStartPosition;
-                                  const percentagePosition = Math.min(Math.max((positionInCarriage / bakImage.breedte) * 100, 0), 100);
+                                  const percentagePosition = Math.min(Math.max((positionInCarriage / carriage.width) * 100, 0), 100);
                                   
                                   return (
                                     <div
@@ -1794,7 +1609,7 @@ export default function TripCard({ trip, materialTypeFilter }: TripCardProps) {
                             
                             {/* List of facilities */}
                             <div className="flex flex-wrap gap-2">
-                              {perronVoorzieningen.map((voorziening: any, vIndex: number) => (
+                              {perronVoorzieningen.map((voorziening, vIndex) => (
                                 <span key={vIndex} className="text-sm bg-green-100 text-green-700 px-3 py-1 rounded-full border border-green-200 font-medium" title={`${voorziening.type}: ${voorziening.description || 'No description'}`}>
                                   {voorziening.type === 'PERRONLETTER' ? `Platform ${voorziening.description}` : 
                                    voorziening.type === 'LIFT' ? '🛗 Lift' :
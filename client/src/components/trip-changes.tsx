@@ -0,0 +1,57 @@
+import { Clock, MapPin, XCircle, Train, X, Radio } from "lucide-react";
+import { type TripChange, type TripChangeKind } from "@shared/schema";
+
+const CHANGE_ICONS: Record<TripChangeKind, typeof Clock> = {
+  delay: Clock,
+  track: MapPin,
+  cancelled: XCircle,
+  composition: Train,
+};
+
+// Worse news in red; a train running again or a smaller delay in green
+function changeColor(change: TripChange): string {
+  if (change.kind === "cancelled") return change.current ? "text-red-700" : "text-green-700";
+  if (change.kind === "delay" && typeof change.previous === "number" && typeof change.current === "number") {
+    return change.current > change.previous ? "text-red-700" : "text-green-700";
+  }
+  return "text-yellow-800";
+}
+
+interface TripChangesProps {
+  changes: TripChange[];
+  changedAt: string | null;
+  onDismiss: () => void;
+}
+
+// What the live monitor found since the trip was first shown
+export default function TripChanges({ changes, changedAt, onDismiss }: TripChangesProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-3 text-sm">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1 font-semibold text-yellow-900">
+          <Radio className="w-4 h-4" />
+          <span>
+            Live update
+            {changedAt && ` · ${new Date(changedAt).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" })}`}
+          </span>
+        </div>
+        <button type="button" onClick={onDismiss} title="Dismiss" className="p-0.5 text-yellow-700 hover:text-yellow-900">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="space-y-0.5">
+        {changes.map((change, index) => {
+          const Icon = CHANGE_ICONS[change.kind];
+          return (
+            <li key={index} className={`flex items-start gap-2 ${changeColor(change)}`}>
+              <Icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{change.description}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { type Trip } from "@shared/schema";
+import { tripFileName, tripToIcs, type TripEventMode } from "@shared/calendar";
+import { tripToGeoJson, tripToGpx } from "@shared/geoExport";
+
+// Built in the browser from the trip on screen, so it works in static
+// deployments too; the server offers the same files at
+// /api/trips/:ctxRecon/ics, /geojson and /gpx
+function download(contents: string, type: string, fileName: string) {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const downloadIcs = (trip: Trip, mode: TripEventMode) =>
+  download(tripToIcs(trip, mode), "text/calendar;charset=utf-8", tripFileName(trip, "ics"));
+
+const downloadGeoJson = (trip: Trip) =>
+  download(JSON.stringify(tripToGeoJson(trip), null, 2), "application/geo+json", tripFileName(trip, "geojson"));
+
+const downloadGpx = (trip: Trip) => download(tripToGpx(trip), "application/gpx+xml", tripFileName(trip, "gpx"));
+
+export default function TripExportMenu({ trip }: { trip: Trip }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 text-xs text-ns-blue hover:underline pt-2"
+        >
+          <Download className="w-3 h-3" />
+          Export
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Add to calendar</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => downloadIcs(trip, "trip")}>
+          One event for the whole journey
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => downloadIcs(trip, "legs")} disabled={trip.legs.length < 2}>
+          One event per leg
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Route</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => downloadGeoJson(trip)}>GeoJSON</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => downloadGpx(trip)}>GPX</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,82 @@
+import { Euro } from "lucide-react";
+import { type Trip } from "@shared/schema";
+import {
+  DEFAULT_FARE_SELECTION,
+  DISCOUNT_LABELS,
+  PRODUCT_LABELS,
+  TRAVEL_CLASS_LABELS,
+  formatPrice,
+  tripFares,
+  type FareSelection,
+  type TripPrice,
+} from "@shared/fares";
+
+interface TripFareProps {
+  trip: Trip;
+  selection?: FareSelection;
+  // Adds the 1st vs 2nd class comparison below the price
+  detailed?: boolean;
+}
+
+function priceText(price: TripPrice): string {
+  if (price.offPeakFree) return "Free off-peak";
+  return price.priceInCents === null ? "Price unknown" : formatPrice(price.priceInCents);
+}
+
+export default function TripFare({ trip, selection = DEFAULT_FARE_SELECTION, detailed = false }: TripFareProps) {
+  const fares = tripFares(trip, selection);
+  const { selected, firstClass, secondClass } = fares;
+
+  if (!detailed) {
+    return (
+      <div className="text-right">
+        <div className={`text-sm font-semibold ${fares.unknown ? "text-gray-500" : "text-gray-800"}`}>
+          {fares.unknown && selected.priceInCents !== null ? `from ${priceText(selected)}` : priceText(selected)}
+        </div>
+        <div className="text-xs text-gray-600">
+          {TRAVEL_CLASS_LABELS[selection.travelClass]}
+          {selected.supplementInCents > 0 && ` · incl. ${formatPrice(selected.supplementInCents)} supplement`}
+        </div>
+      </div>
+    );
+  }
+
+  // Extra cost of 1st class over 2nd for the same product and discount
+  const upgrade =
+    firstClass.priceInCents !== null && secondClass.priceInCents !== null
+      ? firstClass.priceInCents - secondClass.priceInCents
+      : null;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mt-3">
+      <div className="flex items-center gap-1 font-medium text-gray-800 mb-2">
+        <Euro className="w-4 h-4" />
+        {PRODUCT_LABELS[selection.product]}, {DISCOUNT_LABELS[selection.discount].toLowerCase()}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {[secondClass, firstClass].map((price) => (
+          <div
+            key={price.travelClass}
+            className={`rounded p-2 border ${
+              price.travelClass === selection.travelClass ? "border-ns-blue bg-white" : "border-gray-200"
+            }`}
+          >
+            <div className="text-xs text-gray-600">{TRAVEL_CLASS_LABELS[price.travelClass]}</div>
+            <div className="font-semibold text-gray-800">{priceText(price)}</div>
+            {price.supplementInCents > 0 && (
+              <div className="text-xs text-gray-600">incl. {formatPrice(price.supplementInCents)} supplement</div>
+            )}
+          </div>
+        ))}
+      </div>
+      {upgrade !== null && upgrade > 0 && (
+        <div className="text-xs text-gray-600 mt-2">1st class costs {formatPrice(upgrade)} more</div>
+      )}
+      {fares.unknown && (
+        <div className="text-xs text-yellow-700 mt-2">
+          NS cannot price the whole trip; parts by other operators or abroad may cost extra.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,55 +1,71 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { List, AlertCircle, Clock, Filter } from "lucide-react";
+import { List, AlertCircle, Clock, Filter, ChartGantt, ShieldAlert, Route } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import TripCard from "./trip-card";
-import { NSApiResponseSchema, type NSApiResponse, type TripSearch } from "@shared/schema";
+import DisruptionsBanner from "./disruptions-banner";
+import SaveSearchButton from "./save-search-button";
+import RouteComparison from "./route-comparison";
+import TripTimeline from "./trip-timeline";
+import { NSApiResponseSchema, type NSApiResponse, type Trip } from "@shared/schema";
+import { tripSearchToParams } from "@shared/nsGateway";
+import { TRIP_COLORS } from "@shared/routeMap";
+import { TRANSFER_RISK_LEVELS, tripTransferRisk, type TransferRiskLevel } from "@shared/transferRisk";
+import { checkRouteConstraints, describeRouteConstraints } from "@shared/routeConstraints";
+import { TRANSFER_RISK_LABELS } from "./transfer-risk-badge";
 import { searchTrips } from "@/lib/nsApi";
+import { useSearchState, EMPTY_FILTERS } from "@/hooks/use-search-state";
 
 export default function TripResults() {
-  const [searchParams, setSearchParams] = useState<TripSearch | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  // Search and filters come from the query string (see useSearchState)
+  const { search: searchParams, filters, setFilters } = useSearchState();
   const [showDebugInfo, setShowDebugInfo] = useState(false);
-  const [transferFilter, setTransferFilter] = useState<number | null>(null);
-  const [materialTypeFilter, setMaterialTypeFilter] = useState<string | null>(null);
-  const [excludeMaterialTypeFilter, setExcludeMaterialTypeFilter] = useState<string | null>(null);
-  const [travelTimeFilter, setTravelTimeFilter] = useState<number | null>(null);
-  const [hideCancelledTrips, setHideCancelledTrips] = useState(false);
-  const [showFilters, setShowFilters] = useState(false);
+  const transferFilter = filters.transfers;
+  const materialTypeFilter = filters.materialType;
+  const excludeMaterialTypeFilter = filters.excludeMaterialType;
+  const travelTimeFilter = filters.maxTravelTime;
+  const hideCancelledTrips = filters.hideCancelled;
+  const maxTransferRisk = filters.maxTransferRisk;
+  const setTransferFilter = (transfers: number | null) => setFilters({ transfers });
+  const setMaterialTypeFilter = (materialType: string | null) => setFilters({ materialType });
+  const setExcludeMaterialTypeFilter = (excludeMaterialType: string | null) => setFilters({ excludeMaterialType });
+  const setTravelTimeFilter = (maxTravelTime: number | null) => setFilters({ maxTravelTime });
+  const setHideCancelledTrips = (hideCancelled: boolean) => setFilters({ hideCancelled });
+  const setMaxTransferRisk = (maxTransferRisk: TransferRiskLevel | null) => setFilters({ maxTransferRisk });
+  // Open the filter panel straight away when a shared link carries filters
+  const [showFilters, setShowFilters] = useState(
+    () => JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS),
+  );
   const [allTrips, setAllTrips] = useState<NSApiResponse["trips"]>([]);
   const [loadingMore, setLoadingMore] = useState(false);
   const [enhancedTrainTypes, setEnhancedTrainTypes] = useState<Set<string>>(new Set());
   const [tripEnhancedTypes, setTripEnhancedTypes] = useState<{[tripId: string]: string[]}>({});
+  // Cards, or all results on one time axis; a trip clicked on the timeline opens in a dialog
+  const [view, setView] = useState<"list" | "timeline">("list");
+  const [timelineTrip, setTimelineTrip] = useState<Trip | null>(null);
+  // Trips ticked for the map comparison, by uid, in the order they were ticked
+  const [compareUids, setCompareUids] = useState<string[]>([]);
+  const setCompared = (uid: string, selected: boolean) =>
+    setCompareUids((current) =>
+      selected
+        ? [...current.filter((candidate) => candidate !== uid), uid].slice(-TRIP_COLORS.length)
+        : current.filter((candidate) => candidate !== uid),
+    );
 
-  // Listen for search events - must be before useQuery for hooks order
+  // Start over with the results of a new search (also on back/forward)
+  const searchKey = searchParams ? tripSearchToParams(searchParams).toString() : "";
   useEffect(() => {
-    const handleSearch = (event: CustomEvent<TripSearch>) => {
-      console.log("TripResults received search event:", event.detail);
-      setSearchParams(event.detail);
-      setIsLoading(true);
-      // Reset all trips and filters when new search is performed
-      setAllTrips([]);
-      setTransferFilter(null);
-      setMaterialTypeFilter(null);
-      setExcludeMaterialTypeFilter(null);
-      setTravelTimeFilter(null);
-      setHideCancelledTrips(false);
-      setShowFilters(false);
-    };
-
-    console.log("TripResults: Adding event listener for tripSearch");
-    window.addEventListener('tripSearch', handleSearch as EventListener);
-    return () => {
-      console.log("TripResults: Removing event listener for tripSearch");
-      window.removeEventListener('tripSearch', handleSearch as EventListener);
-    };
-  }, []);
+    console.log("TripResults search changed:", searchParams);
+    setAllTrips([]);
+    setCompareUids([]);
+  }, [searchKey]);
 
   // Query trips data - must be called before any conditional returns
   const { data, error, isError, isLoading: queryLoading } = useQuery<NSApiResponse>({
-    queryKey: ["/api/trips", searchParams?.fromStation, searchParams?.toStation, searchParams?.dateTime, searchParams?.excludeBus, searchParams?.excludeTram, searchParams?.excludeMetro, searchParams?.walkingOnly],
+    queryKey: ["/api/trips", searchParams?.fromStation, searchParams?.toStation, searchParams?.dateTime, searchParams?.viaStation, searchParams?.viaWaitMinutes, searchParams?.avoidStations?.join("|"), searchParams?.searchForArrival, searchParams?.excludeBus, searchParams?.excludeTram, searchParams?.excludeMetro, searchParams?.walkingOnly, searchParams?.travelClass, searchParams?.discount, searchParams?.product],
     enabled: !!searchParams,
     queryFn: () => searchTrips(searchParams!),
     select: (rawData) => {
@@ -58,9 +74,6 @@ export default function TripResults() {
       // The UI components will handle displaying the available data
       return rawData as NSApiResponse;
     },
-    meta: {
-      onSettled: () => setIsLoading(false),
-    },
   });
 
   // Initialize all trips with data when available
@@ -104,11 +117,10 @@ export default function TripResults() {
     error,
     isError,
     queryLoading,
-    isLoading
   });
 
   // Loading state - only show loading if we're actually loading and don't have data yet
-  if ((isLoading || queryLoading) && !data) {
+  if (queryLoading && !data) {
     return (
       <div className="text-center py-12">
         <div className="inline-flex items-center space-x-2 text-ns-blue">
@@ -120,7 +132,6 @@ export default function TripResults() {
           <h4 className="font-bold mb-2">Debug Info:</h4>
           <p><strong>Search Params:</strong> {JSON.stringify(searchParams, null, 2)}</p>
           <p><strong>Query Loading:</strong> {String(queryLoading)}</p>
-          <p><strong>Is Loading:</strong> {String(isLoading)}</p>
         </div>
       </div>
     );
@@ -234,11 +245,17 @@ export default function TripResults() {
       const moreTripsData = await searchTrips({
         fromStation: searchParams.fromStation,
         toStation: searchParams.toStation,
+        viaStation: searchParams.viaStation,
+        viaWaitMinutes: searchParams.viaWaitMinutes,
+        avoidStations: searchParams.avoidStations,
         dateTime: formattedNextTime,
         excludeBus: searchParams.excludeBus,
         excludeTram: searchParams.excludeTram,
         excludeMetro: searchParams.excludeMetro,
-        walkingOnly: searchParams.walkingOnly
+        walkingOnly: searchParams.walkingOnly,
+        travelClass: searchParams.travelClass,
+        discount: searchParams.discount,
+        product: searchParams.product,
       });
       
       if (moreTripsData.trips && moreTripsData.trips.length > 0) {
@@ -349,6 +366,15 @@ export default function TripResults() {
       filteredTrips = filteredTrips.filter(trip => !isTripCancelled(trip));
     }
 
+    // Apply transfer risk filter; direct trips have no transfer to miss
+    const tripWithinRisk = (trip: Trip, maxLevel: TransferRiskLevel) => {
+      const risk = tripTransferRisk(trip);
+      return !risk || TRANSFER_RISK_LEVELS.indexOf(risk.level) <= TRANSFER_RISK_LEVELS.indexOf(maxLevel);
+    };
+    if (maxTransferRisk) {
+      filteredTrips = filteredTrips.filter(trip => tripWithinRisk(trip, maxTransferRisk));
+    }
+
     // Sort trips by arrival time (earliest first), then by total journey time (shortest first)
     filteredTrips = [...filteredTrips].sort((a, b) => {
       const getArrivalTime = (trip: any) => {
@@ -396,16 +422,25 @@ export default function TripResults() {
     
     const additionalCount = allTrips.length - (data?.trips?.length || 0);
 
+    // Via and avoid stations; avoided ones are already filtered out by searchTrips
+    const constraintSummary = searchParams ? describeRouteConstraints(searchParams) : [];
+    const tripsMeetingConstraints = searchParams
+      ? currentTrips.filter(trip => checkRouteConstraints(trip, searchParams).every(check => check.satisfied)).length
+      : currentTrips.length;
+
     return (
       <div className="space-y-4">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-gray-800 flex items-center">
-            <List className="text-ns-blue mr-3" />
-            Available Trips
-          </h2>
+          <div className="flex items-center gap-4">
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+              <List className="text-ns-blue mr-3" />
+              Available Trips
+            </h2>
+            {searchParams && <SaveSearchButton search={searchParams} />}
+          </div>
           <div className="text-sm text-gray-600">
-            {(transferFilter !== null || materialTypeFilter !== null || travelTimeFilter !== null || hideCancelledTrips) 
-              ? `${filteredTrips.length} of ${currentTrips.length} trips${transferFilter !== null ? ` (${transferFilter} transfer${transferFilter !== 1 ? 's' : ''})` : ''}${materialTypeFilter ? ` (${materialTypeFilter})` : ''}${travelTimeFilter ? ` (≤${travelTimeFilter}min)` : ''}${hideCancelledTrips ? ' (cancelled hidden)' : ''}`
+            {(transferFilter !== null || materialTypeFilter !== null || travelTimeFilter !== null || hideCancelledTrips || maxTransferRisk !== null) 
+              ? `${filteredTrips.length} of ${currentTrips.length} trips${transferFilter !== null ? ` (${transferFilter} transfer${transferFilter !== 1 ? 's' : ''})` : ''}${materialTypeFilter ? ` (${materialTypeFilter})` : ''}${travelTimeFilter ? ` (≤${travelTimeFilter}min)` : ''}${hideCancelledTrips ? ' (cancelled hidden)' : ''}${maxTransferRisk ? ` (transfers ≤ ${TRANSFER_RISK_LABELS[maxTransferRisk].toLowerCase()})` : ''}`
               : `${currentTrips.length} trips found`
             }
             {additionalCount > 0 && (
@@ -413,28 +448,68 @@ export default function TripResults() {
                 (includes {additionalCount} additional)
               </span>
             )}
+            {data.cacheInfo && (
+              <span
+                className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  data.cacheInfo.status === 'MISS' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {data.cacheInfo.status === 'MISS' ? 'Live' : `Cached ${data.cacheInfo.ageSeconds} s ago`}
+              </span>
+            )}
           </div>
         </div>
 
+        {constraintSummary.length > 0 && (
+          <div className="-mt-4 flex items-center gap-2 text-sm text-gray-600">
+            <Route className="w-4 h-4 text-ns-blue" />
+            <span>
+              Routing {constraintSummary.join(", ")}: {tripsMeetingConstraints} of {currentTrips.length} trips meet every constraint
+            </span>
+          </div>
+        )}
+
+        <DisruptionsBanner trips={currentTrips} />
+
         {/* Filters Toggle */}
         <div className="mb-6">
-          <Button
-            onClick={() => setShowFilters(!showFilters)}
-            variant="outline"
-            className="mb-4 flex items-center gap-2"
-          >
-            <Filter className="w-4 h-4" />
-            {showFilters ? 'Hide Filters' : 'Show Filters'}
-            {(transferFilter !== null || materialTypeFilter !== null || travelTimeFilter !== null || hideCancelledTrips) && (
-              <span className="ml-2 px-2 py-1 bg-ns-blue text-white text-xs rounded-full">
-                {[transferFilter !== null, materialTypeFilter !== null, travelTimeFilter !== null, hideCancelledTrips].filter(Boolean).length}
-              </span>
-            )}
-          </Button>
+          <div className="flex items-center justify-between mb-4">
+            <Button
+              onClick={() => setShowFilters(!showFilters)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Filter className="w-4 h-4" />
+              {showFilters ? 'Hide Filters' : 'Show Filters'}
+              {(transferFilter !== null || materialTypeFilter !== null || travelTimeFilter !== null || hideCancelledTrips || maxTransferRisk !== null) && (
+                <span className="ml-2 px-2 py-1 bg-ns-blue text-white text-xs rounded-full">
+                  {[transferFilter !== null, materialTypeFilter !== null, travelTimeFilter !== null, hideCancelledTrips, maxTransferRisk !== null].filter(Boolean).length}
+                </span>
+              )}
+            </Button>
+            <div className="flex rounded-lg border border-gray-200 bg-white p-0.5">
+              {([
+                ["list", List, "List"],
+                ["timeline", ChartGantt, "Timeline"],
+              ] as const).map(([value, Icon, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setView(value)}
+                  className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    view === value ? "bg-ns-blue text-white" : "text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           
           {showFilters && (
             <div className="p-4 bg-gray-50 rounded-lg border">
-              <div className="grid md:grid-cols-5 gap-6">
+              <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-6">
             {/* Transfer Filter */}
             <div>
               <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center">
@@ -693,6 +768,39 @@ export default function TripResults() {
                 </button>
               </div>
             </div>
+
+            {/* Transfer Risk Filter */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center">
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                Filter by Transfer Risk
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setMaxTransferRisk(null)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    maxTransferRisk === null
+                      ? 'bg-ns-blue text-white'
+                      : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-300'
+                  }`}
+                >
+                  All
+                </button>
+                {(["low", "medium", "high"] as const).map((level) => (
+                  <button
+                    key={level}
+                    onClick={() => setMaxTransferRisk(level)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      maxTransferRisk === level
+                        ? 'bg-ns-blue text-white'
+                        : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-300'
+                    }`}
+                  >
+                    {level === "low" ? "Safe only" : `Up to ${TRANSFER_RISK_LABELS[level].toLowerCase()}`} ({currentTrips.filter(trip => tripWithinRisk(trip, level)).length})
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
             </div>
           )}
@@ -719,19 +827,53 @@ export default function TripResults() {
                 <p><strong>Error:</strong></p>
                 <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify(error, null, 2)}</pre>
                 <p><strong>Query State:</strong></p>
-                <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify({isError, queryLoading, isLoading}, null, 2)}</pre>
+                <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify({isError, queryLoading}, null, 2)}</pre>
               </div>
             </div>
           )}
         </div>
 
-        {filteredTrips.length > 0 ? (
+        {filteredTrips.length > 0 && view === "timeline" ? (
+          <>
+            <Card className="bg-white rounded-xl border border-gray-200">
+              <CardContent className="p-4">
+                <TripTimeline trips={filteredTrips} onSelectTrip={setTimelineTrip} />
+              </CardContent>
+            </Card>
+            <Dialog open={timelineTrip !== null} onOpenChange={(open) => !open && setTimelineTrip(null)}>
+              <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-2 pt-10">
+                <DialogTitle className="sr-only">Trip details</DialogTitle>
+                {timelineTrip && (
+                  <TripCard
+                    trip={timelineTrip}
+                    materialTypeFilter={materialTypeFilter}
+                    defaultExpanded
+                    fareSelection={searchParams || undefined}
+                    routeConstraints={searchParams || undefined}
+                    search={searchParams || undefined}
+                  />
+                )}
+              </DialogContent>
+            </Dialog>
+          </>
+        ) : filteredTrips.length > 0 ? (
           <>
+            <RouteComparison
+              trips={compareUids
+                .map((uid) => currentTrips.find((trip) => trip.uid === uid))
+                .filter((trip): trip is Trip => trip !== undefined)}
+              onClear={() => setCompareUids([])}
+            />
             {filteredTrips.map((trip, index) => (
               <TripCard 
                 key={`${trip.uid}-${index}`} 
                 trip={trip} 
                 materialTypeFilter={materialTypeFilter}
+                fareSelection={searchParams || undefined}
+                routeConstraints={searchParams || undefined}
+                search={searchParams || undefined}
+                compareSelected={compareUids.includes(trip.uid)}
+                onCompareChange={(selected) => setCompared(trip.uid, selected)}
               />
             ))}
             
@@ -809,7 +951,7 @@ export default function TripResults() {
             <p><strong>Error:</strong></p>
             <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify(error, null, 2)}</pre>
             <p><strong>State:</strong></p>
-            <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify({isError, queryLoading, isLoading}, null, 2)}</pre>
+            <pre className="bg-white p-2 rounded text-xs overflow-auto">{JSON.stringify({isError, queryLoading}, null, 2)}</pre>
           </div>
         </div>
       </CardContent>
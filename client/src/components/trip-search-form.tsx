@@ -2,34 +2,78 @@ import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { MapPin, Calendar, Clock, Search, Route, ChevronDown, Settings, Bus, Car, Train, Footprints, ArrowUpDown } from "lucide-react";
+import { MapPin, Calendar, Clock, Search, Route, ChevronDown, Settings, Bus, Car, Train, Footprints, ArrowUpDown, Ticket, Star, Ban, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { TripSearchSchema, type TripSearch } from "@shared/schema";
+import { MAX_AVOID_STATIONS, MAX_VIA_WAIT_MINUTES, TripSearchSchema, type TripSearch, type Place } from "@shared/schema";
+import { tripSearchToParams } from "@shared/nsGateway";
+import { DEFAULT_FARE_SELECTION, DISCOUNT_LABELS, PRODUCT_LABELS, TRAVEL_CLASS_LABELS } from "@shared/fares";
 import { useToast } from "@/hooks/use-toast";
-import { searchStations } from "@/lib/nsApi";
+import { useSearchState } from "@/hooks/use-search-state";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import { useFavouriteStations } from "@/hooks/use-favourite-stations";
+import { findPlaces, getPopularStations, searchStations } from "@/lib/nsApi";
 
 interface TripSearchFormProps {
   onSearch?: (searchData: TripSearch) => void;
 }
 
+// Star that pins a station to the Favourites section of the dropdown
+function FavouriteStationToggle({ name }: { name: string }) {
+  const { isFavourite, toggleFavourite } = useFavouriteStations();
+  const favourite = isFavourite(name);
+
+  return (
+    <button
+      type="button"
+      onClick={(event) => {
+        // Starring a station doesn't select it
+        event.stopPropagation();
+        toggleFavourite.mutate(name);
+      }}
+      title={favourite ? "Remove from favourite stations" : "Add to favourite stations"}
+      className="p-1 flex-shrink-0"
+    >
+      <Star className={`w-4 h-4 ${favourite ? "fill-yellow-400 text-yellow-500" : "text-gray-300 hover:text-gray-500"}`} />
+    </button>
+  );
+}
+
+// Via and avoid stations are matched by name against the stops of each trip,
+// so only station names count; addresses and POIs never match a stop. When
+// Places can't be asked the name is let through; the constraint badges on the
+// results still show whether trips matched it.
+async function isStationName(name: string): Promise<boolean> {
+  if (getPopularStations().includes(name)) return true;
+  try {
+    const places = await findPlaces(name);
+    return places.some((place) => place.kind === "station" && place.name === name);
+  } catch (error) {
+    console.warn(`Could not check whether "${name}" is a station:`, error);
+    return true;
+  }
+}
+
 // Searchable Station Dropdown Component
 function StationSearchDropdown({ 
   value, 
   onValueChange, 
-  placeholder 
+  placeholder,
+  stationsOnly = false,
 }: { 
   value: string; 
   onValueChange: (value: string) => void; 
   placeholder: string; 
+  // Hide addresses and POIs from the search results
+  stationsOnly?: boolean;
 }) {
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState(value || "");
-  const [suggestions, setSuggestions] = useState<any[]>([]);
+  const [suggestions, setSuggestions] = useState<Place[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -42,6 +86,18 @@ function StationSearchDropdown({
   const { data: popularStations = [] } = useQuery<string[]>({
     queryKey: ["/api/stations"],
   });
+  const { recentStations } = useSearchHistory();
+  const { stations: favouriteStations } = useFavouriteStations();
+
+  const toPlace = (name: string): Place => ({
+    name,
+    kind: "station",
+    type: "stationV2",
+    stationCode: null,
+    lat: null,
+    lng: null,
+    priority: 1,
+  });
 
   // Debounce search to avoid too many API calls
   useEffect(() => {
@@ -54,16 +110,16 @@ function StationSearchDropdown({
           if (results.length === 0) {
             const filteredPopular = popularStations
               .filter(station => station.toLowerCase().includes(searchQuery.toLowerCase()))
-              .map(name => ({ naam: name }));
+              .map(toPlace);
             setSuggestions(filteredPopular);
           } else {
-            setSuggestions(results);
+            setSuggestions(stationsOnly ? results.filter((place) => place.kind === "station") : results);
           }
         } catch (error) {
           // Fallback to filtering popular stations
           const filteredPopular = popularStations
             .filter(station => station.toLowerCase().includes(searchQuery.toLowerCase()))
-            .map(name => ({ naam: name }));
+            .map(toPlace);
           setSuggestions(filteredPopular);
         } finally {
           setIsLoading(false);
@@ -94,7 +150,17 @@ function StationSearchDropdown({
     setIsOpen(false);
   };
 
-  const displaySuggestions = searchQuery.length >= 2 ? suggestions : popularStations.map(name => ({ naam: name }));
+  const displaySuggestions = searchQuery.length >= 2 ? suggestions : [];
+
+  // Before typing: recent, favourite and popular stations, each listed once
+  const shortcutSections = [
+    { title: "Recent", stations: recentStations },
+    { title: "Favourites", stations: favouriteStations.filter((name) => !recentStations.includes(name)) },
+    {
+      title: "Popular",
+      stations: popularStations.filter((name) => !recentStations.includes(name) && !favouriteStations.includes(name)),
+    },
+  ].filter((section) => section.stations.length > 0);
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -125,25 +191,46 @@ function StationSearchDropdown({
             <div className="px-3 py-2 text-sm text-gray-500">No matching stations found</div>
           )}
           
-          {!isLoading && displaySuggestions.length === 0 && searchQuery.length < 2 && (
+          {!isLoading && shortcutSections.length === 0 && searchQuery.length < 2 && (
             <div className="px-3 py-2 text-sm text-gray-500">Type to search popular stations...</div>
           )}
+
+          {!isLoading && searchQuery.length < 2 && shortcutSections.map((section) => (
+            <div key={section.title}>
+              <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 bg-gray-50">
+                {section.title}
+              </div>
+              {section.stations.map((name) => (
+                <div
+                  key={name}
+                  className="flex items-center justify-between px-3 py-2 cursor-pointer hover:bg-gray-100 text-sm border-b border-gray-100 last:border-b-0"
+                  onClick={() => handleSelectStation(name)}
+                >
+                  <div className="font-medium">{name}</div>
+                  <FavouriteStationToggle name={name} />
+                </div>
+              ))}
+            </div>
+          ))}
           
           {!isLoading && displaySuggestions.map((station, index) => (
             <div
               key={index}
-              className="px-3 py-2 cursor-pointer hover:bg-gray-100 text-sm border-b border-gray-100 last:border-b-0"
-              onClick={() => handleSelectStation(station.naam || station.name)}
+              className="flex items-center justify-between px-3 py-2 cursor-pointer hover:bg-gray-100 text-sm border-b border-gray-100 last:border-b-0"
+              onClick={() => handleSelectStation(station.name)}
             >
-              <div className="font-medium">{station.naam || station.name}</div>
-              {station.stationCode && (
-                <div className="text-xs text-gray-500">{station.stationCode}</div>
-              )}
-              {station.type && station.type !== 'stationV2' && (
-                <div className="text-xs text-orange-500 capitalize">
-                  {station.type.toLowerCase().replace('_', ' ')} - May not support trip planning
-                </div>
-              )}
+              <div>
+                <div className="font-medium">{station.name}</div>
+                {station.stationCode && (
+                  <div className="text-xs text-gray-500">{station.stationCode}</div>
+                )}
+                {station.kind !== 'station' && (
+                  <div className="text-xs text-orange-500 capitalize">
+                    {station.type.toLowerCase().replace('_', ' ')} - May not support trip planning
+                  </div>
+                )}
+              </div>
+              {station.kind === 'station' && <FavouriteStationToggle name={station.name} />}
             </div>
           ))}
         </div>
@@ -155,10 +242,12 @@ function StationSearchDropdown({
 export default function TripSearchForm({ onSearch }: TripSearchFormProps) {
   const { toast } = useToast();
   const [isSearching, setIsSearching] = useState(false);
+  const { search, setSearch } = useSearchState();
+  const { ready: historyReady, recordSearch } = useSearchHistory();
 
   const form = useForm<TripSearch>({
     resolver: zodResolver(TripSearchSchema),
-    defaultValues: {
+    defaultValues: search || {
       fromStation: "'s-Gravenhage, Vredespaleis",
       toStation: "Eindhoven Centraal",
       dateTime: new Date().toISOString().slice(0, 16),
@@ -167,9 +256,18 @@ export default function TripSearchForm({ onSearch }: TripSearchFormProps) {
       excludeTram: false,
       excludeMetro: false,
       walkingOnly: false,
+      ...DEFAULT_FARE_SELECTION,
     },
   });
 
+  // Follow the URL when back/forward lands on another search
+  const searchKey = search ? tripSearchToParams(search).toString() : "";
+  useEffect(() => {
+    if (search) {
+      form.reset(search);
+    }
+  }, [searchKey]);
+
   const onSubmit = async (data: TripSearch) => {
     console.log("Search form onSubmit called with:", data);
     
@@ -182,20 +280,32 @@ export default function TripSearchForm({ onSearch }: TripSearchFormProps) {
       return;
     }
 
+    // Checking the via and avoid stations can take a Places call
     setIsSearching(true);
     try {
-      console.log("Dispatching tripSearch event with data:", data);
+      for (const [field, names] of [
+        ["viaStation", data.viaStation ? [data.viaStation] : []],
+        ["avoidStations", data.avoidStations || []],
+      ] as const) {
+        for (const name of names) {
+          if (!(await isStationName(name))) {
+            form.setError(field, { message: `"${name}" is not a station. Pick a station from the list.` });
+            return;
+          }
+        }
+      }
+
+      console.log("Navigating to search with data:", data);
       console.log("Form data excludeBus:", data.excludeBus);
       
       if (onSearch) {
         onSearch(data);
       }
       
-      // Dispatch custom event to trigger search
-      const searchEvent = new CustomEvent('tripSearch', { detail: data });
-      window.dispatchEvent(searchEvent);
-      
-      console.log("Search event dispatched successfully");
+      // The query string drives TripResults. Only searches made here go into the
+      // history; reloads, back/forward and shared links repeat one already there.
+      if (historyReady) recordSearch.mutate(data);
+      setSearch(data);
     } catch (error) {
       console.error("Search error:", error);
       toast({
@@ -298,6 +408,106 @@ export default function TripSearchForm({ onSearch }: TripSearchFormProps) {
               </div>
             </div>
 
+            {/* Via Station (optional), with the time to stay there */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="viaStation"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel className="flex items-center space-x-2">
+                      <MapPin className="w-4 h-4 text-gray-500" />
+                      <span>Via (optional)</span>
+                    </FormLabel>
+                    <FormControl>
+                      <StationSearchDropdown
+                        value={field.value || ""}
+                        onValueChange={field.onChange}
+                        placeholder="Travel via station..."
+                        stationsOnly
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="viaWaitMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center space-x-2">
+                      <Clock className="w-4 h-4 text-gray-500" />
+                      <span>Stay at via (min)</span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={MAX_VIA_WAIT_MINUTES}
+                        placeholder="0"
+                        disabled={!form.watch("viaStation")}
+                        value={field.value ?? ""}
+                        onChange={(event) => field.onChange(event.target.value === "" ? undefined : Number(event.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Stations to avoid (optional), filtered out of the results */}
+            <FormField
+              control={form.control}
+              name="avoidStations"
+              render={({ field }) => {
+                const stations = field.value || [];
+                return (
+                  <FormItem>
+                    <FormLabel className="flex items-center space-x-2">
+                      <Ban className="w-4 h-4 text-gray-500" />
+                      <span>Avoid (optional)</span>
+                    </FormLabel>
+                    {stations.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {stations.map((station) => (
+                          <span key={station} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-sm text-gray-700">
+                            {station}
+                            <button
+                              type="button"
+                              title={`Stop avoiding ${station}`}
+                              onClick={() => {
+                                const rest = stations.filter((other) => other !== station);
+                                field.onChange(rest.length > 0 ? rest : undefined);
+                              }}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {stations.length < MAX_AVOID_STATIONS && (
+                      <FormControl>
+                        {/* Remounts after each pick so the input clears */}
+                        <StationSearchDropdown
+                          key={stations.join("|")}
+                          value=""
+                          onValueChange={(station) => {
+                            if (station && !stations.includes(station)) field.onChange([...stations, station]);
+                          }}
+                          placeholder="Avoid station..."
+                          stationsOnly
+                        />
+                      </FormControl>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* DateTime Picker with Departure/Arrival Toggle */}
               <FormField
@@ -478,6 +688,82 @@ export default function TripSearchForm({ onSearch }: TripSearchFormProps) {
                 />
               </div>
             </div>
+
+            {/* Ticket - prices on the results follow these */}
+            <div className="border-t pt-4">
+              <div className="flex items-center space-x-2 mb-4">
+                <Ticket className="w-4 h-4 text-gray-600" />
+                <span className="text-sm font-medium text-gray-700">Ticket</span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="travelClass"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Class</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(TRAVEL_CLASS_LABELS).map(([value, text]) => (
+                            <SelectItem key={value} value={value}>{text}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="discount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Discount</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(DISCOUNT_LABELS).map(([value, text]) => (
+                            <SelectItem key={value} value={value}>{text}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="product"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Ticket</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(PRODUCT_LABELS).map(([value, text]) => (
+                            <SelectItem key={value} value={value}>{text}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
           </form>
         </Form>
       </CardContent>
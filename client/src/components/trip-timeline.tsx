@@ -0,0 +1,152 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { type Trip } from "@shared/schema";
+import {
+  timelineDomain,
+  timelineRows,
+  timelineSegments,
+  timelineStack,
+  type TimelineModality,
+  type TimelineRow,
+} from "@shared/timeline";
+
+const chartConfig = {
+  train: { label: "Train", color: "#003082" },
+  bus: { label: "Bus", color: "#7b6b00" },
+  tram: { label: "Tram", color: "#00813e" },
+  metro: { label: "Metro", color: "#e97300" },
+  walk: { label: "Walk", color: "#9ca3af" },
+  cancelled: { label: "Cancelled", color: "#dc2626" },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 36;
+const MINUTE = 60 * 1000;
+
+interface TimelineDatum extends Record<string, unknown> {
+  uid: string;
+  label: string;
+  row: TimelineRow;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+
+function legFill(modality: TimelineModality, cancelled: boolean): string {
+  return cancelled ? "var(--color-cancelled)" : `var(--color-${modality})`;
+}
+
+function TimelineTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: TimelineDatum }> }) {
+  const datum = payload?.[0]?.payload;
+  if (!active || !datum) return null;
+
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl space-y-1">
+      <div className="font-medium">{datum.label}</div>
+      {datum.row.legs.map((leg, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ background: legFill(leg.modality, leg.cancelled) }} />
+          <span className={leg.cancelled ? "text-red-600 line-through" : ""}>
+            {leg.label} {formatTime(leg.start)}–{formatTime(leg.end)}
+          </span>
+          {leg.delayedEnd && (
+            <span className="text-red-600">+{Math.round((leg.delayedEnd - leg.end) / MINUTE)}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TripTimelineProps {
+  trips: Trip[];
+  onSelectTrip: (trip: Trip) => void;
+}
+
+// All results as rows on one time axis; gaps between bars are transfers
+export default function TripTimeline({ trips, onSelectTrip }: TripTimelineProps) {
+  const { data, segments, domainStart, span, ticks } = useMemo(() => {
+    const rows = timelineRows(trips);
+    const [domainStart, domainEnd] = timelineDomain(rows);
+    const span = (domainEnd - domainStart) / MINUTE;
+    // A tick every half hour, or every hour on long axes
+    const step = span > 360 ? 60 : 30;
+    return {
+      data: rows.map((row): TimelineDatum => ({
+        uid: row.uid,
+        label: row.legs.length > 0 ? `${formatTime(row.legs[0].start)}–${formatTime(row.legs[row.legs.length - 1].end)}` : "",
+        row,
+        ...timelineStack(row, domainStart),
+      })),
+      segments: timelineSegments(Math.max(0, ...rows.map((row) => row.legs.length))),
+      domainStart,
+      span,
+      ticks: Array.from({ length: Math.floor(span / step) + 1 }, (_, index) => index * step),
+    };
+  }, [trips]);
+
+  if (data.length === 0) return null;
+
+  const selectTrip = (uid: string) => {
+    const trip = trips.find((candidate) => candidate.uid === uid);
+    if (trip) onSelectTrip(trip);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: data.length * ROW_HEIGHT + 40 }}>
+        <BarChart data={data} layout="vertical" barCategoryGap={8} margin={{ left: 8, right: 16 }}>
+          <defs>
+            <pattern id="trip-timeline-delay" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <rect width="6" height="6" fill="#fee2e2" />
+              <line x1="0" y1="0" x2="0" y2="6" stroke="#dc2626" strokeWidth="3" />
+            </pattern>
+          </defs>
+          <CartesianGrid horizontal={false} />
+          <XAxis
+            type="number"
+            domain={[0, span]}
+            ticks={ticks}
+            tickFormatter={(minutes: number) => formatTime(domainStart + minutes * MINUTE)}
+            allowDataOverflow
+          />
+          <YAxis type="category" dataKey="label" width={90} tickLine={false} />
+          <ChartTooltip cursor={{ fill: "hsl(var(--muted))" }} content={<TimelineTooltip />} />
+          {segments.map((segment) => (
+            <Bar
+              key={segment.key}
+              dataKey={segment.key}
+              stackId="trip"
+              isAnimationActive={false}
+              cursor={segment.kind === "leg" || segment.kind === "delay" ? "pointer" : undefined}
+              onClick={(bar: { payload?: TimelineDatum }) => bar.payload && selectTrip(bar.payload.uid)}
+              fill={segment.kind === "delay" ? "url(#trip-timeline-delay)" : "transparent"}
+            >
+              {segment.kind === "leg" &&
+                data.map((datum) => {
+                  const leg = datum.row.legs[segment.legIndex];
+                  return <Cell key={datum.uid} fill={leg ? legFill(leg.modality, leg.cancelled) : "transparent"} />;
+                })}
+            </Bar>
+          ))}
+        </BarChart>
+      </ChartContainer>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {Object.entries(chartConfig).map(([key, { label, color }]) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <svg width="12" height="12" className="rounded-sm">
+            <rect width="12" height="12" fill="url(#trip-timeline-delay)" />
+          </svg>
+          Delay
+        </span>
+        <span>Gaps are transfers. Click a trip to open it.</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { type InsertUser, type Login, type PublicUser } from "@shared/schema";
+import { ACCOUNTS_AVAILABLE, getCurrentUser, login, logout, register } from "@/lib/accountApi";
+import { queryClient } from "@/lib/queryClient";
+
+export const CURRENT_USER_QUERY_KEY = ["/api/auth/me"];
+
+// Per-user data is fetched from /api/account/*; it is dropped whenever the user changes
+const isAccountQuery = (queryKey: readonly unknown[]) => String(queryKey[0]).startsWith("/api/account");
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  // False on static deployments, which have no server to log in to
+  available: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Login>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+function switchUser(user: PublicUser | null) {
+  queryClient.setQueryData(CURRENT_USER_QUERY_KEY, user);
+  queryClient.removeQueries({ predicate: (query) => isAccountQuery(query.queryKey) });
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: CURRENT_USER_QUERY_KEY,
+    queryFn: getCurrentUser,
+    enabled: ACCOUNTS_AVAILABLE,
+  });
+
+  const loginMutation = useMutation({ mutationFn: login, onSuccess: switchUser });
+  const registerMutation = useMutation({ mutationFn: register, onSuccess: switchUser });
+  const logoutMutation = useMutation({ mutationFn: logout, onSuccess: () => switchUser(null) });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading: ACCOUNTS_AVAILABLE && isLoading,
+        available: ACCOUNTS_AVAILABLE,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,29 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createCalendarFeed, deleteCalendarFeed, getCalendarFeed } from "@/lib/accountApi";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+
+export const CALENDAR_FEED_QUERY_KEY = ["/api/account/calendar"];
+
+// The commute calendar link of the logged-in user, as a full https and webcal URL
+export function useCalendarFeed() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery({
+    queryKey: CALENDAR_FEED_QUERY_KEY,
+    queryFn: getCalendarFeed,
+    enabled: !!user,
+  });
+
+  const setFeed = (feed: { path: string | null }) => queryClient.setQueryData(CALENDAR_FEED_QUERY_KEY, feed);
+  const createFeed = useMutation({ mutationFn: createCalendarFeed, onSuccess: setFeed });
+  const removeFeed = useMutation({ mutationFn: deleteCalendarFeed, onSuccess: () => setFeed({ path: null }) });
+
+  const url = data?.path ? new URL(data.path, window.location.origin).toString() : null;
+  return {
+    url,
+    webcalUrl: url ? url.replace(/^https?:/, "webcal:") : null,
+    isLoading,
+    createFeed,
+    removeFeed,
+  };
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addFavouriteStation, listFavouriteStations, removeFavouriteStation } from "@/lib/accountApi";
+import { addLocalFavouriteStation, loadFavouriteStations, removeLocalFavouriteStation } from "@/lib/localPreferences";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+
+export const FAVOURITE_STATIONS_QUERY_KEY = ["/api/account/stations"];
+const LOCAL_FAVOURITE_STATIONS_QUERY_KEY = ["local", "stations"];
+
+// Favourite stations: on the server for logged-in users, in localStorage for visitors
+export function useFavouriteStations() {
+  const { user, isLoading: userLoading } = useAuth();
+  const queryKey = user ? FAVOURITE_STATIONS_QUERY_KEY : LOCAL_FAVOURITE_STATIONS_QUERY_KEY;
+
+  const { data: stations = [] } = useQuery<string[]>({
+    queryKey,
+    queryFn: user
+      ? async () => (await listFavouriteStations()).map((station) => station.name)
+      : async () => loadFavouriteStations(),
+    enabled: !userLoading,
+  });
+
+  const toggleFavourite = useMutation({
+    mutationFn: async (name: string) => {
+      const favourite = stations.includes(name);
+      if (user) {
+        await (favourite ? removeFavouriteStation(name) : addFavouriteStation(name));
+      } else if (favourite) {
+        removeLocalFavouriteStation(name);
+      } else {
+        addLocalFavouriteStation(name);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    stations,
+    isFavourite: (name: string) => stations.includes(name),
+    toggleFavourite,
+  };
+}
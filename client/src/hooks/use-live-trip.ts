@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { type Trip, type TripChange } from "@shared/schema";
+import { DEFAULT_FARE_SELECTION, type FareSelection } from "@shared/fares";
+import { subscribeToTrip, type LiveTripStatus } from "@/lib/liveTrips";
+
+// How long a card stays highlighted after a change came in
+const HIGHLIGHT_MS = 15 * 1000;
+
+interface LiveTripState {
+  trip: Trip | null;
+  changes: TripChange[];
+  changedAt: string | null;
+}
+
+const EMPTY_STATE: LiveTripState = { trip: null, changes: [], changedAt: null };
+
+// The trip as the live monitor last saw it, falling back to the trip passed in,
+// plus the latest set of changes until they are dismissed. The monitor reloads the
+// trip with the fare options of the search, like the trip page does. Only followed
+// while enabled; status is null when the trip isn't followed at all.
+export function useLiveTrip(trip: Trip, fareSelection: FareSelection = DEFAULT_FARE_SELECTION, enabled = true) {
+  const [live, setLive] = useState<LiveTripState>(EMPTY_STATE);
+  const [highlighted, setHighlighted] = useState(false);
+  const [status, setStatus] = useState<LiveTripStatus | null>(null);
+
+  // The search passes its whole TripSearch; only the fare fields matter here
+  const { travelClass, discount, product } = fareSelection;
+
+  // A collapsed card keeps what the monitor last sent until it shows another trip
+  useEffect(() => {
+    setLive(EMPTY_STATE);
+  }, [trip.ctxRecon, travelClass, discount, product]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = subscribeToTrip(trip.ctxRecon, { travelClass, discount, product }, {
+      onUpdate: (update) => {
+        setLive((previous) =>
+          update.changes.length > 0
+            ? { trip: update.trip, changes: update.changes, changedAt: update.checkedAt }
+            : { ...previous, trip: update.trip },
+        );
+        if (update.changes.length > 0) setHighlighted(true);
+      },
+      onStatus: setStatus,
+    });
+    return () => {
+      unsubscribe();
+      setStatus(null);
+    };
+  }, [trip.ctxRecon, travelClass, discount, product, enabled]);
+
+  useEffect(() => {
+    if (!highlighted) return;
+    const timer = setTimeout(() => setHighlighted(false), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlighted, live.changedAt]);
+
+  return {
+    trip: live.trip || trip,
+    changes: live.changes,
+    changedAt: live.changedAt,
+    highlighted,
+    status,
+    dismissChanges: () => setLive((previous) => ({ ...previous, changes: [], changedAt: null })),
+  };
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type SavedRouteInput, type SavedRoutePatch, type TripSearch } from "@shared/schema";
+import {
+  createSavedRoute,
+  deleteSavedRoute,
+  listSavedRoutes,
+  updateSavedRoute,
+  type SavedRouteItem,
+} from "@/lib/accountApi";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+
+export const SAVED_ROUTES_QUERY_KEY = ["/api/account/routes"];
+
+// A saved route searched right now, with its stored travel options
+export function searchFromSavedRoute(route: SavedRouteItem): TripSearch {
+  return {
+    ...route.options,
+    fromStation: route.fromStation,
+    toStation: route.toStation,
+    dateTime: new Date().toISOString().slice(0, 16),
+  };
+}
+
+export function savedRouteFromSearch(search: TripSearch, name: string, isFavourite: boolean): SavedRouteInput {
+  const { fromStation, toStation, dateTime: _dateTime, ...options } = search;
+  return { name, fromStation, toStation, options, isFavourite };
+}
+
+// Same origin, destination and via: saving it again would only add a duplicate
+export function isSameRoute(route: SavedRouteItem, search: TripSearch): boolean {
+  return (
+    route.fromStation === search.fromStation &&
+    route.toStation === search.toStation &&
+    (route.options.viaStation || undefined) === (search.viaStation || undefined)
+  );
+}
+
+export function useSavedRoutes() {
+  const { user } = useAuth();
+  const { data: routes, isLoading } = useQuery({
+    queryKey: SAVED_ROUTES_QUERY_KEY,
+    queryFn: listSavedRoutes,
+    enabled: !!user,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: SAVED_ROUTES_QUERY_KEY });
+  const saveRoute = useMutation({ mutationFn: createSavedRoute, onSuccess: invalidate });
+  const updateRoute = useMutation({
+    mutationFn: ({ id, patch }: { id: string; patch: SavedRoutePatch }) => updateSavedRoute(id, patch),
+    onSuccess: invalidate,
+  });
+  const removeRoute = useMutation({ mutationFn: deleteSavedRoute, onSuccess: invalidate });
+
+  return { routes: user ? routes || [] : [], isLoading, saveRoute, updateRoute, removeRoute };
+}
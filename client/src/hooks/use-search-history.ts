@@ -0,0 +1,90 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type TripSearch } from "@shared/schema";
+import { tripSearchToParams } from "@shared/nsGateway";
+import { addSearchHistory, clearSearchHistory, listSearchHistory } from "@/lib/accountApi";
+import { addRecentSearch, clearRecentSearches, loadRecentSearches, type RecentSearch } from "@/lib/localPreferences";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+
+export const SEARCH_HISTORY_QUERY_KEY = ["/api/account/history"];
+const LOCAL_SEARCH_HISTORY_QUERY_KEY = ["local", "history"];
+
+const MAX_RECENT_STATIONS = 5;
+
+// Today's date in local time, as the search form's datetime-local input wants it
+function localDate(now: Date): string {
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+}
+
+// "Same trip, today": the searched time of day, on today's date
+export function rebaseSearch(search: TripSearch, now: Date = new Date()): TripSearch {
+  return { ...search, dateTime: `${localDate(now)}T${search.dateTime.slice(11, 16)}` };
+}
+
+// Repeated searches show up once, at their latest time
+export function distinctSearches(searches: RecentSearch[]): RecentSearch[] {
+  const seen = new Set<string>();
+  return searches.filter(({ search }) => {
+    const key = tripSearchToParams(search).toString();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Stations from the latest searches, most recent first
+export function recentStations(searches: RecentSearch[], limit: number = MAX_RECENT_STATIONS): string[] {
+  const stations = new Set<string>();
+  for (const { search } of searches) {
+    for (const station of [search.fromStation, search.toStation, search.viaStation]) {
+      if (station) stations.add(station);
+    }
+  }
+  return Array.from(stations).slice(0, limit);
+}
+
+// Searches submitted on the search form: on the server for logged-in users, in
+// localStorage for visitors
+export function useSearchHistory() {
+  const { user, isLoading: userLoading } = useAuth();
+  const queryKey = user ? SEARCH_HISTORY_QUERY_KEY : LOCAL_SEARCH_HISTORY_QUERY_KEY;
+
+  const { data: searches = [] } = useQuery<RecentSearch[]>({
+    queryKey,
+    queryFn: user
+      ? async () => (await listSearchHistory()).map(({ search, searchedAt }) => ({ search, searchedAt }))
+      : async () => loadRecentSearches(),
+    enabled: !userLoading,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+  const recordSearch = useMutation({
+    mutationFn: async (search: TripSearch) => {
+      if (user) {
+        await addSearchHistory(search);
+      } else {
+        addRecentSearch(search);
+      }
+    },
+    onSuccess: invalidate,
+  });
+  const clearHistory = useMutation({
+    mutationFn: async () => {
+      if (user) {
+        await clearSearchHistory();
+      } else {
+        clearRecentSearches();
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    searches: distinctSearches(searches),
+    recentStations: recentStations(searches),
+    // Recording has to wait until we know where the history lives
+    ready: !userLoading,
+    recordSearch,
+    clearHistory,
+  };
+}
@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { TripSearchSchema, type TripSearch } from "@shared/schema";
+import { tripSearchFromParams, tripSearchToParams } from "@shared/nsGateway";
+import { TRANSFER_RISK_LEVELS, type TransferRiskLevel } from "@shared/transferRisk";
+
+// The trip search and the result filters live in the query string, so a results
+// page can be reloaded, bookmarked and shared, and back/forward walk through
+// earlier searches.
+export interface ResultFilters {
+  transfers: number | null;
+  materialType: string | null;
+  excludeMaterialType: string | null;
+  maxTravelTime: number | null;
+  hideCancelled: boolean;
+  // Hide trips whose weakest transfer is riskier than this
+  maxTransferRisk: TransferRiskLevel | null;
+}
+
+export const EMPTY_FILTERS: ResultFilters = {
+  transfers: null,
+  materialType: null,
+  excludeMaterialType: null,
+  maxTravelTime: null,
+  hideCancelled: false,
+  maxTransferRisk: null,
+};
+
+const toRiskLevel = (value: string | null): TransferRiskLevel | null =>
+  TRANSFER_RISK_LEVELS.find((level) => level === value) ?? null;
+
+const toNumber = (value: string | null): number | null => {
+  if (value === null || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+export function parseSearchState(queryString: string): { search: TripSearch | null; filters: ResultFilters } {
+  const params = new URLSearchParams(queryString);
+  const parsed = TripSearchSchema.safeParse(tripSearchFromParams(Object.fromEntries(params)));
+
+  return {
+    search: parsed.success ? parsed.data : null,
+    filters: {
+      transfers: toNumber(params.get("transfers")),
+      materialType: params.get("material"),
+      excludeMaterialType: params.get("excludeMaterial"),
+      maxTravelTime: toNumber(params.get("maxTravelTime")),
+      hideCancelled: params.get("hideCancelled") === "true",
+      maxTransferRisk: toRiskLevel(params.get("maxRisk")),
+    },
+  };
+}
+
+export function buildSearchString(search: TripSearch, filters: ResultFilters = EMPTY_FILTERS): string {
+  const params = tripSearchToParams(search);
+  if (filters.transfers !== null) params.set("transfers", String(filters.transfers));
+  if (filters.materialType) params.set("material", filters.materialType);
+  if (filters.excludeMaterialType) params.set("excludeMaterial", filters.excludeMaterialType);
+  if (filters.maxTravelTime !== null) params.set("maxTravelTime", String(filters.maxTravelTime));
+  if (filters.hideCancelled) params.set("hideCancelled", "true");
+  if (filters.maxTransferRisk) params.set("maxRisk", filters.maxTransferRisk);
+  return params.toString();
+}
+
+export function useSearchState() {
+  const queryString = useSearch();
+  const [, navigate] = useLocation();
+  const { search, filters } = useMemo(() => parseSearchState(queryString), [queryString]);
+
+  // A new search is a new history entry and starts without filters
+  const setSearch = (next: TripSearch) => {
+    navigate(`/?${buildSearchString(next)}`);
+  };
+
+  // Filter tweaks replace the current entry, so Back returns to the previous search
+  const setFilters = (patch: Partial<ResultFilters>) => {
+    if (!search) return;
+    navigate(`/?${buildSearchString(search, { ...filters, ...patch })}`, { replace: true });
+  };
+
+  return { search, filters, setSearch, setFilters };
+}
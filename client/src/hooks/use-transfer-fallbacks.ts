@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type FallbackPlan, type Leg, type TripSearch } from "@shared/schema";
+import { fallbackDelayMinutes, fallbackKey, transferFallbacks } from "@shared/fallbacks";
+import { getTransferFallbacks } from "@/lib/nsApi";
+
+export interface MissedConnection {
+  // null when nothing leaves later toward the destination
+  plan: FallbackPlan | null;
+  delayMinutes: number | null;
+}
+
+// Fallbacks for every transfer of a trip, fetched together once `enabled`
+// (e.g. when the card is expanded), with the options of the search the trip
+// came from: the same modalities, fare and avoid stations.
+// Looks up by the index of the leg whose departure is missed; undefined while
+// loading or when the lookup failed.
+export function useTransferFallbacks(legs: Leg[], enabled: boolean, search?: TripSearch) {
+  const fallbacks = useMemo(() => transferFallbacks(legs, search), [legs, search]);
+  const keys = fallbacks.map((fallback) => fallbackKey(fallback.request));
+
+  const { data } = useQuery({
+    queryKey: ["/api/trips/fallbacks", ...keys],
+    queryFn: () => getTransferFallbacks(fallbacks.map((fallback) => fallback.request)),
+    enabled: enabled && fallbacks.length > 0,
+  });
+
+  return (legIndex: number): MissedConnection | undefined => {
+    const index = fallbacks.findIndex((fallback) => fallback.legIndex === legIndex);
+    const plan = index >= 0 ? data?.plans[keys[index]] : undefined;
+    if (plan === undefined) return undefined;
+    return { plan, delayMinutes: plan ? fallbackDelayMinutes(legs, plan) : null };
+  };
+}
@@ -0,0 +1,121 @@
+import {
+  type FavouriteStation,
+  type InsertUser,
+  type Jsonified,
+  type Login,
+  type PublicUser,
+  type SavedRoute,
+  type SavedRouteInput,
+  type SavedRoutePatch,
+  type SearchHistoryEntry,
+  type TripSearch,
+} from "@shared/schema";
+import { STATIC_MODE } from "./nsApi";
+
+// Accounts live on the Express server (server/auth.ts); static deployments have none
+export const ACCOUNTS_AVAILABLE = !STATIC_MODE;
+
+async function accountRequest<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "same-origin",
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || `${method} ${url} failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : await response.json();
+}
+
+// The logged-in user, or null for visitors
+export async function getCurrentUser(): Promise<PublicUser | null> {
+  if (!ACCOUNTS_AVAILABLE) return null;
+
+  const response = await fetch("/api/auth/me", { credentials: "same-origin" });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Loading the current user failed with status ${response.status}`);
+  }
+  return await response.json();
+}
+
+export function login(credentials: Login): Promise<PublicUser> {
+  return accountRequest<PublicUser>("POST", "/api/auth/login", credentials);
+}
+
+export function register(credentials: InsertUser): Promise<PublicUser> {
+  return accountRequest<PublicUser>("POST", "/api/auth/register", credentials);
+}
+
+export function logout(): Promise<void> {
+  return accountRequest<void>("POST", "/api/auth/logout");
+}
+
+export type SavedRouteItem = Jsonified<SavedRoute>;
+
+// Saved routes of the logged-in user, favourites first
+export function listSavedRoutes(): Promise<SavedRouteItem[]> {
+  return accountRequest<SavedRouteItem[]>("GET", "/api/account/routes");
+}
+
+export function createSavedRoute(route: SavedRouteInput): Promise<SavedRouteItem> {
+  return accountRequest<SavedRouteItem>("POST", "/api/account/routes", route);
+}
+
+export function updateSavedRoute(id: string, patch: SavedRoutePatch): Promise<SavedRouteItem> {
+  return accountRequest<SavedRouteItem>("PATCH", `/api/account/routes/${encodeURIComponent(id)}`, patch);
+}
+
+export function deleteSavedRoute(id: string): Promise<void> {
+  return accountRequest<void>("DELETE", `/api/account/routes/${encodeURIComponent(id)}`);
+}
+
+export type SearchHistoryItem = Jsonified<SearchHistoryEntry>;
+
+// Executed searches of the logged-in user, newest first
+export function listSearchHistory(limit?: number): Promise<SearchHistoryItem[]> {
+  return accountRequest<SearchHistoryItem[]>("GET", `/api/account/history${limit ? `?limit=${limit}` : ""}`);
+}
+
+export function addSearchHistory(search: TripSearch): Promise<SearchHistoryItem> {
+  return accountRequest<SearchHistoryItem>("POST", "/api/account/history", search);
+}
+
+export function clearSearchHistory(): Promise<{ cleared: number }> {
+  return accountRequest<{ cleared: number }>("DELETE", "/api/account/history");
+}
+
+export type FavouriteStationItem = Jsonified<FavouriteStation>;
+
+export function listFavouriteStations(): Promise<FavouriteStationItem[]> {
+  return accountRequest<FavouriteStationItem[]>("GET", "/api/account/stations");
+}
+
+export function addFavouriteStation(name: string): Promise<FavouriteStationItem> {
+  return accountRequest<FavouriteStationItem>("POST", "/api/account/stations", { name });
+}
+
+export function removeFavouriteStation(name: string): Promise<void> {
+  return accountRequest<void>("DELETE", `/api/account/stations/${encodeURIComponent(name)}`);
+}
+
+// Path of the commute calendar feed, or null while it is turned off
+export interface CalendarFeed {
+  path: string | null;
+}
+
+export function getCalendarFeed(): Promise<CalendarFeed> {
+  return accountRequest<CalendarFeed>("GET", "/api/account/calendar");
+}
+
+// A new secret link; the previous one stops working
+export function createCalendarFeed(): Promise<CalendarFeed> {
+  return accountRequest<CalendarFeed>("POST", "/api/account/calendar");
+}
+
+export function deleteCalendarFeed(): Promise<void> {
+  return accountRequest<void>("DELETE", "/api/account/calendar");
+}
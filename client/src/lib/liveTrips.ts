@@ -0,0 +1,131 @@
+import { type TripUpdate } from "@shared/schema";
+import { type FareSelection } from "@shared/fares";
+import { fareSelectionToParams } from "@shared/nsGateway";
+import { STATIC_MODE } from "./nsApi";
+
+// One EventSource to /api/trips/live for the trips followed live: the trip page
+// and expanded cards, since every followed trip costs the server NS calls.
+// Subscribers come and go; the stream is reopened with the new set of trips
+// shortly after the set changes, so a page of cards opens one connection.
+// Trips followed with other fare options get a stream of their own, since the
+// server reloads every trip of a stream with the same fare.
+
+// The live monitor runs on the Express server; static deployments have none
+export const LIVE_UPDATES_AVAILABLE = !STATIC_MODE && typeof EventSource !== "undefined";
+
+// Same cap as the server; trips beyond it simply aren't followed
+const MAX_LIVE_TRIPS = 12;
+const RECONNECT_DELAY_MS = 250;
+
+// How a subscribed trip is followed. "limited": beyond MAX_LIVE_TRIPS on its
+// stream. "failed": the server refused the stream (a 400, 429 or 503 answer),
+// after which EventSource gives up instead of reconnecting.
+export type LiveTripStatus = "connecting" | "live" | "limited" | "failed";
+
+export interface LiveTripSubscriber {
+  onUpdate(update: TripUpdate): void;
+  onStatus(status: LiveTripStatus): void;
+}
+
+interface LiveStream {
+  // Fare options as query parameters, empty for the defaults
+  fareQuery: string;
+  subscribers: Map<string, Set<LiveTripSubscriber>>;
+  source: EventSource | null;
+  status: Exclude<LiveTripStatus, "limited">;
+  connectedKey: string;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const streams = new Map<string, LiveStream>();
+
+const followedTrips = (stream: LiveStream) => Array.from(stream.subscribers.keys()).slice(0, MAX_LIVE_TRIPS);
+
+function publishStatus(stream: LiveStream) {
+  const followed = new Set(followedTrips(stream));
+  stream.subscribers.forEach((subscribers, ctxRecon) => {
+    const status = followed.has(ctxRecon) ? stream.status : "limited";
+    subscribers.forEach((subscriber) => subscriber.onStatus(status));
+  });
+}
+
+function connect(stream: LiveStream) {
+  stream.reconnectTimer = null;
+  const ctxRecons = followedTrips(stream);
+  const params = new URLSearchParams(ctxRecons.map((ctxRecon) => ["ctxRecon", ctxRecon]));
+  const key = stream.fareQuery ? `${params}&${stream.fareQuery}` : params.toString();
+
+  if (key !== stream.connectedKey) {
+    stream.source?.close();
+    stream.source = null;
+    stream.connectedKey = key;
+    if (ctxRecons.length === 0) {
+      streams.delete(stream.fareQuery);
+      return;
+    }
+
+    const source = new EventSource(`/api/trips/live?${key}`);
+    stream.source = source;
+    stream.status = "connecting";
+    source.onopen = () => {
+      stream.status = "live";
+      publishStatus(stream);
+    };
+    source.addEventListener("trip-update", (event) => {
+      try {
+        const update = JSON.parse((event as MessageEvent).data) as TripUpdate;
+        stream.subscribers.get(update.ctxRecon)?.forEach((subscriber) => subscriber.onUpdate(update));
+      } catch (error) {
+        console.warn("Ignoring malformed trip update:", error);
+      }
+    });
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        console.error("Live trip updates refused by the server, not reconnecting");
+        stream.status = "failed";
+      } else {
+        // A dropped connection; EventSource reconnects by itself
+        console.warn("Live trip updates interrupted, reconnecting...");
+        stream.status = "connecting";
+      }
+      publishStatus(stream);
+    };
+  }
+  // Also when the set is unchanged: a trip past the cap still needs its status
+  publishStatus(stream);
+}
+
+function scheduleConnect(stream: LiveStream) {
+  if (stream.reconnectTimer) clearTimeout(stream.reconnectTimer);
+  stream.reconnectTimer = setTimeout(() => connect(stream), RECONNECT_DELAY_MS);
+}
+
+function streamFor(fareQuery: string): LiveStream {
+  let stream = streams.get(fareQuery);
+  if (!stream) {
+    stream = { fareQuery, subscribers: new Map(), source: null, status: "connecting", connectedKey: "", reconnectTimer: null };
+    streams.set(fareQuery, stream);
+  }
+  return stream;
+}
+
+// Follow a trip's realtime changes, reloaded with the given fare options;
+// returns the unsubscribe function
+export function subscribeToTrip(ctxRecon: string, fareSelection: FareSelection, subscriber: LiveTripSubscriber): () => void {
+  if (!LIVE_UPDATES_AVAILABLE) return () => {};
+
+  const stream = streamFor(fareSelectionToParams(fareSelection).toString());
+  if (!stream.subscribers.has(ctxRecon)) stream.subscribers.set(ctxRecon, new Set());
+  stream.subscribers.get(ctxRecon)!.add(subscriber);
+  subscriber.onStatus("connecting");
+  scheduleConnect(stream);
+
+  return () => {
+    const set = stream.subscribers.get(ctxRecon);
+    set?.delete(subscriber);
+    if (set && set.size === 0) {
+      stream.subscribers.delete(ctxRecon);
+      scheduleConnect(stream);
+    }
+  };
+}
@@ -0,0 +1,69 @@
+import { TripSearchSchema, type TripSearch } from "@shared/schema";
+
+// Search history and favourite stations of visitors, kept in this browser only.
+// Logged-in users keep theirs on the server (see accountApi.ts).
+
+const RECENT_SEARCHES_KEY = "ns.recentSearches";
+const FAVOURITE_STATIONS_KEY = "ns.favouriteStations";
+const MAX_RECENT_SEARCHES = 20;
+
+export interface RecentSearch {
+  search: TripSearch;
+  searchedAt: string;
+}
+
+// Unreadable or blocked storage (private browsing) behaves like empty storage
+function readJson(key: string): unknown {
+  try {
+    return JSON.parse(window.localStorage.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not store ${key}:`, error);
+  }
+}
+
+export function loadRecentSearches(): RecentSearch[] {
+  const stored = readJson(RECENT_SEARCHES_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  // Entries from an older app version may no longer fit the schema
+  return stored.flatMap((entry) => {
+    const parsed = TripSearchSchema.safeParse(entry?.search);
+    return parsed.success && typeof entry.searchedAt === "string"
+      ? [{ search: parsed.data, searchedAt: entry.searchedAt }]
+      : [];
+  });
+}
+
+export function addRecentSearch(search: TripSearch): RecentSearch {
+  const entry: RecentSearch = { search, searchedAt: new Date().toISOString() };
+  writeJson(RECENT_SEARCHES_KEY, [entry, ...loadRecentSearches()].slice(0, MAX_RECENT_SEARCHES));
+  return entry;
+}
+
+export function clearRecentSearches() {
+  writeJson(RECENT_SEARCHES_KEY, []);
+}
+
+export function loadFavouriteStations(): string[] {
+  const stored = readJson(FAVOURITE_STATIONS_KEY);
+  return Array.isArray(stored) ? stored.filter((name): name is string => typeof name === "string") : [];
+}
+
+export function addLocalFavouriteStation(name: string) {
+  const stations = loadFavouriteStations();
+  if (!stations.includes(name)) {
+    writeJson(FAVOURITE_STATIONS_KEY, [name, ...stations]);
+  }
+}
+
+export function removeLocalFavouriteStation(name: string) {
+  writeJson(FAVOURITE_STATIONS_KEY, loadFavouriteStations().filter((station) => station !== name));
+}
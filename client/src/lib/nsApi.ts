@@ -1,123 +1,128 @@
-import { TripSearchSchema } from "@shared/schema";
+import {
+  TripSearchSchema,
+  CacheStatusSchema,
+  type BoardKind,
+  type CacheInfo,
+  type DiscountOption,
+  type DisruptionsResponse,
+  type FallbackBatchResponse,
+  type FallbackPlan,
+  type FallbackRequestItem,
+  type FareProduct,
+  type NsTripsResponse,
+  type Place,
+  type PlaceResolution,
+  type TrainBatchItem,
+  type TrainBatchResponse,
+  type TrainComposition,
+  type StationBoard,
+  type TravelClass,
+  type Trip,
+  type VirtualTrainResponse,
+} from "@shared/schema";
+import { createNsGateway, createRequestId, fareSelectionToParams, legKey, tripSearchToParams, tripsQueryFromSearch } from "@shared/nsGateway";
+import { DEFAULT_FARE_SELECTION, type FareSelection } from "@shared/fares";
+import { normalizePlaces, resolvePlace } from "@shared/places";
+import { normalizeTrainComposition } from "@shared/composition";
+import { normalizeStationBoard } from "@shared/stationBoard";
+import { disruptionsForStations, normalizeDisruptions } from "@shared/disruptions";
+import { fallbackKey, fallbackSearch, pickFallback } from "@shared/fallbacks";
+import { withoutAvoidedStations } from "@shared/routeConstraints";
 
-const NS_API_BASE = "https://gateway.apiportal.ns.nl";
-const PLACES_API_KEY = "590c1627b27c414baffb2737e241f16f"; // For Places API (search)
-const TRIPS_API_KEY = "1ea3dd385baf4127a20cb8fb38af634d"; // For Trips API (door-to-door planning)
+// Static deployments (build-static.js) have no Express server behind them, so they
+// talk to the NS gateway directly. Everywhere else the /api/* proxy is used.
+export const STATIC_MODE = import.meta.env.VITE_STATIC_MODE === "true";
 
-// Create headers for NS API requests
-function createHeaders(): HeadersInit {
+// Only static builds call NS from the browser, with the VITE_NS_* keys that
+// build-static.js requires. In server mode this is null and the bundle has no keys.
+const staticGateway = STATIC_MODE
+  ? createNsGateway({
+      apiKeys: {
+        trips: import.meta.env.VITE_NS_API_KEY || "",
+        virtualTrain: import.meta.env.VITE_NS_VIRTUAL_TRAIN_API_KEY || undefined,
+        places: import.meta.env.VITE_NS_PLACES_API_KEY || undefined,
+      },
+      // e.g. http://localhost:5000/mock-ns to run a static build against recorded fixtures
+      baseUrl: import.meta.env.VITE_NS_GATEWAY_URL || undefined,
+    })
+  : null;
+
+function nsGateway() {
+  if (!staticGateway) throw new Error("The NS gateway is only called from the browser in static mode");
+  return staticGateway;
+}
+
+// Calls to our own /api routes carry a request id made here, which the server
+// reuses for its NS calls, so one id follows a lookup from browser to NS
+function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("x-request-id", createRequestId());
+  return fetch(url, { ...init, headers });
+}
+
+// Freshness reported by the server's upstream cache (x-cache / age headers)
+function readCacheInfo(response: Response): CacheInfo | undefined {
+  const status = CacheStatusSchema.safeParse(response.headers.get("x-cache"));
+  if (!status.success) return undefined;
   return {
-    "accept": "application/json, text/plain, */*",
-    "accept-language": "nl",
-    "cache-control": "no-cache",
-    "ocp-apim-subscription-key": TRIPS_API_KEY,
-    "pragma": "no-cache",
-    "x-caller-id": "NS Web",
-    "x-caller-version": "rio-frontends-20250618.14",
-    "x-enabled-capabilities": "BFF_PRODUCT, BFF_STEPS",
-    "x-request-id": `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    status: status.data,
+    ageSeconds: Number(response.headers.get("age")) || 0,
   };
 }
 
 export async function searchTrips(params: {
   fromStation: string;
   toStation: string;
+  viaStation?: string;
+  viaWaitMinutes?: number;
+  avoidStations?: string[];
   dateTime: string;
   searchForArrival?: boolean;
   excludeBus?: boolean;
   excludeTram?: boolean;
   excludeMetro?: boolean;
   walkingOnly?: boolean;
+  travelClass?: TravelClass;
+  discount?: DiscountOption;
+  product?: FareProduct;
 }) {
   // Validate parameters
   const searchParams = TripSearchSchema.parse(params);
 
-  // Check if we need to get coordinates for non-station locations
-  const fromLocation = await getLocationCoordinates(searchParams.fromStation);
-  const toLocation = await getLocationCoordinates(searchParams.toStation);
-
-  // Build API URL
-  const apiUrl = new URL(`${NS_API_BASE}/reisinformatie-api/api/v3/trips`);
-  
-  // Use coordinates for non-station locations, station names for actual stations
-  if (fromLocation && fromLocation.lat && fromLocation.lng) {
-    apiUrl.searchParams.set("originLat", fromLocation.lat.toString());
-    apiUrl.searchParams.set("originLng", fromLocation.lng.toString());
-    apiUrl.searchParams.set("originName", searchParams.fromStation);
-  } else {
-    apiUrl.searchParams.set("fromStation", searchParams.fromStation);
-  }
-  
-  if (toLocation && toLocation.lat && toLocation.lng) {
-    apiUrl.searchParams.set("destinationLat", toLocation.lat.toString());
-    apiUrl.searchParams.set("destinationLng", toLocation.lng.toString());
-    apiUrl.searchParams.set("destinationName", searchParams.toStation);
-  } else {
-    apiUrl.searchParams.set("toStation", searchParams.toStation);
-  }
-  
-  apiUrl.searchParams.set("dateTime", searchParams.dateTime);
-  apiUrl.searchParams.set("lang", "nl");
-  apiUrl.searchParams.set("product", "OVCHIPKAART_ENKELE_REIS");
-  apiUrl.searchParams.set("travelClass", "2");
-  
-  // Add searchForArrival parameter if specified
-  if (searchParams.searchForArrival) {
-    apiUrl.searchParams.set("searchForArrival", "true");
-  }
-  
-  // Set modality based on travel preferences
-  if (searchParams.walkingOnly) {
-    apiUrl.searchParams.set("firstMileModality", "WALK");
-    apiUrl.searchParams.set("lastMileModality", "WALK");
-  } else {
-    apiUrl.searchParams.set("firstMileModality", "PUBLIC_TRANSPORT");
-    apiUrl.searchParams.set("lastMileModality", "PUBLIC_TRANSPORT");
-  }
-  
-  // Add disabled transport modalities to exclude specific transport modes
-  const disabledModalities = [];
-  
-  if (searchParams.excludeBus) {
-    disabledModalities.push("BUS");
-  }
-  if (searchParams.excludeTram) {
-    disabledModalities.push("TRAM");
-  }
-  if (searchParams.excludeMetro) {
-    disabledModalities.push("METRO");
-  }
-  
-  // Set the disabledTransportModalities parameter
-  if (disabledModalities.length > 0) {
-    apiUrl.searchParams.set("disabledTransportModalities", disabledModalities.join(","));
-  }
-
-  console.log("Making direct NS API request with travel options:", {
-    fullUrl: apiUrl.toString(),
+  console.log("Searching trips with travel options:", {
+    mode: STATIC_MODE ? "static" : "server",
     searchForArrival: searchParams.searchForArrival,
     excludeBus: searchParams.excludeBus,
     excludeTram: searchParams.excludeTram,
     excludeMetro: searchParams.excludeMetro,
     walkingOnly: searchParams.walkingOnly,
-    disabledTransportModalities: disabledModalities.join(",")
+    travelClass: searchParams.travelClass,
+    discount: searchParams.discount,
+    product: searchParams.product,
+    viaWaitMinutes: searchParams.viaWaitMinutes,
+    avoidStations: searchParams.avoidStations,
   });
-  
-  // Log the exact URL parameters being sent
-  console.log("Full API URL being called:", apiUrl.toString());
 
   try {
-    const response = await fetch(apiUrl.toString(), {
-      method: "GET",
-      headers: createHeaders(),
-      mode: "cors", // Enable CORS
-    });
-
-    if (!response.ok) {
-      throw new Error(`NS API responded with status ${response.status}: ${response.statusText}`);
+    let data;
+    if (STATIC_MODE) {
+      // Check if we need to get coordinates for non-station locations
+      const fromLocation = await getLocationCoordinates(searchParams.fromStation);
+      const toLocation = await getLocationCoordinates(searchParams.toStation);
+      data = await nsGateway().searchTrips<NsTripsResponse>(tripsQueryFromSearch(searchParams, fromLocation, toLocation));
+      // NS can't avoid stations; the server filters the same way
+      if (searchParams.avoidStations?.length && Array.isArray(data?.trips)) {
+        data = { ...data, trips: withoutAvoidedStations(data.trips, searchParams.avoidStations) };
+      }
+    } else {
+      // The server applies the same mapping, including coordinate lookup
+      const response = await apiFetch(`/api/trips?${tripSearchToParams(searchParams)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Trip search failed with status ${response.status}`);
+      }
+      data = { ...(await response.json()), cacheInfo: readCacheInfo(response) };
     }
-
-    const data = await response.json();
     console.log("NS API Response:", JSON.stringify(data, null, 2).substring(0, 500) + "...");
     
     // Return raw data and let the component handle validation more gracefully
@@ -125,45 +130,209 @@ export async function searchTrips(params: {
     return data;
   } catch (error) {
     console.error("Error fetching trips from NS API:", error);
-    
-    // If CORS or other network errors occur, throw a more specific error
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error("Unable to connect to NS API. This may be due to CORS restrictions in static hosting. Consider using a server-side proxy.");
+    throw error;
+  }
+}
+
+// One trip with current realtime data, for /trip/:ctxRecon, priced for the fare it was found with
+export async function getTrip(ctxRecon: string, fare: FareSelection = DEFAULT_FARE_SELECTION): Promise<Trip> {
+  console.log("Reloading trip:", ctxRecon);
+
+  try {
+    if (STATIC_MODE) {
+      return await nsGateway().getTrip<Trip>(ctxRecon, fare);
     }
-    
+
+    const query = fareSelectionToParams(fare).toString();
+    const response = await apiFetch(`/api/trips/${encodeURIComponent(ctxRecon)}${query ? `?${query}` : ""}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Trip reload failed with status ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Error reloading trip:", error);
     throw error;
   }
 }
 
-export async function getTrainDetails(
-  trainNumber: string,
-  stationCode: string,
-  dateTime: string
-) {
-  const formattedDateTime = encodeURIComponent(dateTime);
-  const apiUrl = `${NS_API_BASE}/virtual-train-api/api/v1/trein/${trainNumber}/${stationCode}?dateTime=${formattedDateTime}&features=zitplaats,druktev2,platformitems`;
+// Departures or arrivals for one station, for /station/:code
+export async function getStationBoard(stationCode: string, kind: BoardKind): Promise<StationBoard> {
+  console.log("Loading station board:", { stationCode, kind });
 
-  console.log("Making direct NS Virtual Train API request:", apiUrl);
+  try {
+    if (STATIC_MODE) {
+      return normalizeStationBoard(await nsGateway().getStationBoard(kind, stationCode), stationCode, kind);
+    }
+
+    const response = await apiFetch(`/api/stations/${encodeURIComponent(stationCode)}/${kind}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Station board failed with status ${response.status}`);
+    }
+    return { ...(await response.json()), cacheInfo: readCacheInfo(response) };
+  } catch (error) {
+    console.error("Error loading station board:", error);
+    throw error;
+  }
+}
+
+// Active disruptions touching any of the given stations (UIC or station codes)
+export async function getDisruptions(stations: string[]): Promise<DisruptionsResponse> {
+  console.log("Loading disruptions for", stations.length, "stations");
 
   try {
-    const response = await fetch(apiUrl, {
-      method: "GET",
-      headers: createHeaders(),
-      mode: "cors", // Enable CORS
-    });
+    if (STATIC_MODE) {
+      return { disruptions: disruptionsForStations(normalizeDisruptions(await nsGateway().getDisruptions()), stations) };
+    }
 
+    const response = await apiFetch(`/api/disruptions?${new URLSearchParams({ stations: stations.join(",") })}`);
     if (!response.ok) {
-      throw new Error(`NS Virtual Train API responded with status ${response.status}: ${response.statusText}`);
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Disruptions failed with status ${response.status}`);
     }
+    return { ...(await response.json()), cacheInfo: readCacheInfo(response) };
+  } catch (error) {
+    console.error("Error loading disruptions:", error);
+    throw error;
+  }
+}
+
+// Resolves to null when NS has no composition for this train at this station
+export async function getTrainDetails(
+  trainNumber: string,
+  stationCode: string,
+  dateTime: string
+): Promise<TrainComposition | null> {
+  console.log("Making NS Virtual Train API request:", { trainNumber, stationCode, dateTime });
 
-    const data = await response.json();
+  try {
+    let data;
+    if (STATIC_MODE) {
+      data = await nsGateway().getVirtualTrain<VirtualTrainResponse>(trainNumber, stationCode, dateTime);
+    } else {
+      // Coalesced with every other card's lookups into one /api/trains/batch call
+      data = await queueTrainDetails({ trainNumber, stationCode, dateTime });
+    }
     console.log("NS Virtual Train API Response:", JSON.stringify(data, null, 2).substring(0, 300) + "...");
-    return data;
+    return normalizeTrainComposition(data);
   } catch (error) {
     console.error("Error fetching train details:", error);
     throw error;
   }
 }
+// Lookups queued within one short window are sent as a single batch request.
+// Cards on a results page mount together, so a whole page becomes one round trip.
+const TRAIN_BATCH_WINDOW_MS = 10;
+const TRAIN_BATCH_MAX = 100;
+
+let pendingTrainLookups: Array<{
+  item: TrainBatchItem;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+}> = [];
+let trainBatchTimer: ReturnType<typeof setTimeout> | null = null;
+
+function queueTrainDetails(item: TrainBatchItem): Promise<any> {
+  return new Promise((resolve, reject) => {
+    pendingTrainLookups.push({ item, resolve, reject });
+    if (!trainBatchTimer) {
+      trainBatchTimer = setTimeout(flushTrainLookups, TRAIN_BATCH_WINDOW_MS);
+    }
+  });
+}
+
+function flushTrainLookups() {
+  const queued = pendingTrainLookups;
+  pendingTrainLookups = [];
+  trainBatchTimer = null;
+
+  for (let start = 0; start < queued.length; start += TRAIN_BATCH_MAX) {
+    const chunk = queued.slice(start, start + TRAIN_BATCH_MAX);
+    getTrainDetailsBatch(chunk.map((lookup) => lookup.item))
+      .then((batch) => {
+        chunk.forEach(({ item, resolve, reject }) => {
+          const key = legKey(item.trainNumber, item.stationCode);
+          if (key in batch.trains) {
+            resolve(batch.trains[key]);
+          } else {
+            reject(new Error(batch.errors[key] || `No train details for ${key}`));
+          }
+        });
+      })
+      .catch((error) => {
+        chunk.forEach(({ reject }) => reject(error));
+      });
+  }
+}
+
+export async function getTrainDetailsBatch(legs: TrainBatchItem[]): Promise<TrainBatchResponse> {
+  const response = await apiFetch("/api/trains/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ legs }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Train batch request failed with status ${response.status}: ${response.statusText}`);
+  }
+
+  return (await response.json()) as TrainBatchResponse;
+}
+
+// Static deployments plan fallbacks themselves; like the server's fallback cache,
+// a plan is kept for two minutes and shared by every card showing that transfer
+const STATIC_FALLBACK_TTL_MS = 2 * 60 * 1000;
+const staticFallbacks = new Map<string, { plan: Promise<FallbackPlan | null>; storedAt: number }>();
+
+function staticFallback(key: string, item: FallbackRequestItem): Promise<FallbackPlan | null> {
+  const now = Date.now();
+  const cached = staticFallbacks.get(key);
+  if (cached && now - cached.storedAt < STATIC_FALLBACK_TTL_MS) return cached.plan;
+
+  staticFallbacks.forEach((entry, cachedKey) => {
+    if (now - entry.storedAt >= STATIC_FALLBACK_TTL_MS) staticFallbacks.delete(cachedKey);
+  });
+  const plan = searchTrips(fallbackSearch(item)).then((data) => pickFallback(data?.trips || [], item));
+  const entry = { plan, storedAt: now };
+  staticFallbacks.set(key, entry);
+  // A failed search is tried again on the next request
+  plan.catch(() => {
+    if (staticFallbacks.get(key) === entry) staticFallbacks.delete(key);
+  });
+  return plan;
+}
+
+// Fallback plans for missed connections, one request for all transfers of a trip.
+// Static deployments search each distinct transfer themselves, in parallel.
+export async function getTransferFallbacks(transfers: FallbackRequestItem[]): Promise<FallbackBatchResponse> {
+  if (STATIC_MODE) {
+    const response: FallbackBatchResponse = { plans: {}, errors: {} };
+    const unique = new Map(transfers.map((item) => [fallbackKey(item), item]));
+    await Promise.all(
+      Array.from(unique.entries()).map(async ([key, item]) => {
+        try {
+          response.plans[key] = await staticFallback(key, item);
+        } catch (error) {
+          response.errors[key] = error instanceof Error ? error.message : String(error);
+        }
+      }),
+    );
+    return response;
+  }
+
+  const response = await apiFetch("/api/trips/fallbacks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ transfers }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Fallback request failed with status ${response.status}: ${response.statusText}`);
+  }
+
+  return (await response.json()) as FallbackBatchResponse;
+}
 
 export function getPopularStations(): string[] {
   return [
@@ -189,65 +358,24 @@ export function getPopularStations(): string[] {
 }
 
 // Station autocomplete API using NS Places API
-export async function searchStations(query: string): Promise<any[]> {
+// Places matching a query; unlike searchStations this throws when the lookup fails
+export async function findPlaces(query: string): Promise<Place[]> {
+  if (STATIC_MODE) {
+    return normalizePlaces(await nsGateway().searchPlaces(query));
+  }
+
+  const response = await apiFetch(`/api/places?q=${encodeURIComponent(query)}`);
+  if (!response.ok) {
+    throw new Error(`Places proxy error: ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as Place[];
+}
+
+export async function searchStations(query: string): Promise<Place[]> {
   if (!query || query.length < 2) return [];
   
   try {
-    const response = await fetch(
-      `https://gateway.apiportal.ns.nl/places-api/v2/places?q=${encodeURIComponent(query)}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-          'Ocp-Apim-Subscription-Key': PLACES_API_KEY,
-        },
-        method: 'GET',
-        mode: 'cors',
-        credentials: 'omit'
-      }
-    );
-
-    if (!response.ok) {
-      console.warn(`NS Places API error: ${response.status} ${response.statusText}`);
-      return [];
-    }
-
-    const data = await response.json();
-    
-    // Extract locations from all place types, prioritizing actual transit stations
-    const allPlaces = data.payload || [];
-    const allLocations = allPlaces.flatMap((place: any) => {
-      // For places with locations array (like stations)
-      if (place.locations && place.locations.length > 0) {
-        return place.locations.map((location: any) => ({
-          name: location.name,
-          stationCode: location.stationCode,
-          lat: location.lat,
-          lng: location.lng,
-          type: place.type,
-          priority: place.type === 'stationV2' ? 1 : 2 // Prioritize actual stations
-        }));
-      }
-      
-      // For places that are locations themselves (like POI, addresses)
-      if (place.name && place.name !== 'Stations') {
-        return [{
-          name: place.name,
-          stationCode: place.stationCode || null,
-          lat: place.lat,
-          lng: place.lng,
-          type: place.type,
-          priority: place.type === 'stationV2' ? 1 : 3 // Lower priority for POI
-        }];
-      }
-      
-      return [];
-    });
-    
-    // Sort by priority (stations first) then by name
-    return allLocations.sort((a: any, b: any) => {
-      if (a.priority !== b.priority) return a.priority - b.priority;
-      return a.name.localeCompare(b.name);
-    });
+    return await findPlaces(query);
   } catch (error) {
     console.warn(`Error searching stations for "${query}":`, error);
     return [];
@@ -257,41 +385,21 @@ export async function searchStations(query: string): Promise<any[]> {
 // Get coordinates for a location from the Places API
 async function getLocationCoordinates(locationName: string): Promise<{lat: number, lng: number} | null> {
   try {
-    const response = await fetch(
-      `https://gateway.apiportal.ns.nl/places-api/v2/places?q=${encodeURIComponent(locationName)}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-          'Ocp-Apim-Subscription-Key': PLACES_API_KEY,
-        },
-        method: 'GET',
-        mode: 'cors',
-        credentials: 'omit'
-      }
-    );
-
-    if (!response.ok) return null;
+    let place: Place | null;
+    if (STATIC_MODE) {
+      place = resolvePlace(normalizePlaces(await nsGateway().searchPlaces(locationName)), locationName);
+    } else {
+      const response = await apiFetch(`/api/places/resolve?name=${encodeURIComponent(locationName)}`);
+      if (!response.ok) return null;
+      place = ((await response.json()) as PlaceResolution).place;
+    }
 
-    const data = await response.json();
-    const places = data.payload || [];
-    
-    // Find exact match first
-    for (const place of places) {
-      if (place.locations) {
-        const location = place.locations.find((loc: any) => loc.name === locationName);
-        if (location && location.lat && location.lng) {
-          return { lat: location.lat, lng: location.lng };
-        }
-      }
-      // Check if the place itself matches and has coordinates
-      if (place.name === locationName && place.lat && place.lng) {
-        return { lat: place.lat, lng: place.lng };
-      }
+    if (place && place.lat !== null && place.lng !== null) {
+      return { lat: place.lat, lng: place.lng };
     }
-    
     return null;
   } catch (error) {
     console.warn(`Error getting coordinates for "${locationName}":`, error);
     return null;
   }
-}
\ No newline at end of file
+}
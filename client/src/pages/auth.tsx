@@ -0,0 +1,150 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation, useSearch } from "wouter";
+import { Train, ArrowLeft, LogIn, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { LoginSchema, insertUserSchema, type InsertUser, type Login } from "@shared/schema";
+
+type AuthMode = "login" | "register";
+
+// Only same-site paths, so ?next= can't send people elsewhere
+function safeNext(value: string | null): string {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
+
+function CredentialsForm({ mode, onSubmit, isPending, error }: {
+  mode: AuthMode;
+  onSubmit: (credentials: Login | InsertUser) => void;
+  isPending: boolean;
+  error: Error | null;
+}) {
+  const form = useForm<Login>({
+    resolver: zodResolver(mode === "login" ? LoginSchema : insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete={mode === "login" ? "current-password" : "new-password"} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <div className="text-sm text-red-600">{error.message}</div>}
+        <Button type="submit" disabled={isPending} className="w-full bg-ns-blue hover:bg-blue-800 text-white">
+          {mode === "login" ? <LogIn className="w-4 h-4 mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />}
+          {isPending ? "Please wait..." : mode === "login" ? "Log in" : "Create account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage({ mode }: { mode: AuthMode }) {
+  const { user, available, loginMutation, registerMutation } = useAuth();
+  const [, navigate] = useLocation();
+  const next = safeNext(new URLSearchParams(useSearch()).get("next"));
+  const nextQuery = next === "/" ? "" : `?next=${encodeURIComponent(next)}`;
+
+  // Logged in (now or already): carry on where the user came from
+  useEffect(() => {
+    if (user) navigate(next, { replace: true });
+  }, [user]);
+
+  const selectMode = (value: string) => {
+    navigate(`/${value}${nextQuery}`, { replace: true });
+  };
+
+  return (
+    <div className="bg-gray-50 font-sans min-h-screen">
+      {/* Header */}
+      <header className="bg-ns-blue text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Train className="text-2xl" />
+              <h1 className="text-2xl font-bold">NS Trip Planner</h1>
+            </div>
+            <Link href={next} className="flex items-center space-x-1 text-sm hover:underline">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back</span>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-md space-y-4">
+        <p className="text-sm text-gray-600">
+          With an account your saved routes and recent searches follow you to every device.
+        </p>
+
+        {!available ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-gray-600">
+              Accounts are not available in this deployment, which talks to NS directly without a server.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Tabs value={mode} onValueChange={selectMode}>
+              <TabsList className="w-full">
+                <TabsTrigger value="login" className="flex-1">Log in</TabsTrigger>
+                <TabsTrigger value="register" className="flex-1">Register</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <Card className="bg-white rounded-xl shadow-lg border border-gray-200">
+              <CardContent className="p-6">
+                {mode === "login" ? (
+                  <CredentialsForm
+                    key="login"
+                    mode="login"
+                    onSubmit={(credentials) => loginMutation.mutate(credentials)}
+                    isPending={loginMutation.isPending}
+                    error={loginMutation.error}
+                  />
+                ) : (
+                  <CredentialsForm
+                    key="register"
+                    mode="register"
+                    onSubmit={(credentials) => registerMutation.mutate(credentials)}
+                    isPending={registerMutation.isPending}
+                    error={registerMutation.error}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
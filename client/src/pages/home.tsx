@@ -2,6 +2,9 @@ import { useState, useEffect } from "react";
 import { Train, Clock } from "lucide-react";
 import TripSearchForm from "@/components/trip-search-form";
 import TripResults from "@/components/trip-results";
+import AccountMenu from "@/components/account-menu";
+import SavedRoutesStrip from "@/components/saved-routes-strip";
+import SearchHistoryPanel from "@/components/search-history-panel";
 
 export default function Home() {
   const [currentTime, setCurrentTime] = useState<string>("");
@@ -31,9 +34,12 @@ export default function Home() {
               <Train className="text-2xl" />
               <h1 className="text-2xl font-bold">NS Trip Planner</h1>
             </div>
-            <div className="flex items-center space-x-2 text-sm">
-              <Clock className="w-4 h-4" />
-              <span>{currentTime || "Loading..."}</span>
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-2 text-sm">
+                <Clock className="w-4 h-4" />
+                <span>{currentTime || "Loading..."}</span>
+              </div>
+              <AccountMenu />
             </div>
           </div>
         </div>
@@ -41,7 +47,9 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6 max-w-6xl">
+        <SavedRoutesStrip />
         <TripSearchForm />
+        <SearchHistoryPanel />
         <TripResults />
       </main>
 
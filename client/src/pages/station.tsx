@@ -0,0 +1,177 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams, useSearch } from "wouter";
+import { Train, ArrowLeft, RefreshCw, AlertTriangle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import AccountMenu from "@/components/account-menu";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getStationBoard, getTrainDetails } from "@/lib/nsApi";
+import { type BoardEntry, type BoardKind, type StationBoard } from "@shared/schema";
+
+// Same cadence as the server's board cache TTL
+const BOARD_REFRESH_INTERVAL_MS = 30 * 1000;
+
+const formatTime = (dateTime: string) =>
+  new Date(dateTime).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+
+// Composition type (e.g. "VIRM, 6 carriages") through the shared, batched lookup
+function CompositionType({ entry, stationCode }: { entry: BoardEntry; stationCode: string }) {
+  const enabled = entry.productType === "TRAIN" && !entry.cancelled && !!entry.trainNumber;
+  const { data: composition } = useQuery({
+    queryKey: ["/api/train", entry.trainNumber, stationCode, entry.plannedDateTime],
+    queryFn: () => getTrainDetails(entry.trainNumber, stationCode, entry.plannedDateTime),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  if (!composition?.trainType) return null;
+  return (
+    <span className="text-xs text-gray-500">
+      {composition.trainType}
+      {composition.carriages.length > 0 && `, ${composition.carriages.length} carriages`}
+    </span>
+  );
+}
+
+function BoardRow({ entry, stationCode, kind }: { entry: BoardEntry; stationCode: string; kind: BoardKind }) {
+  const track = entry.actualTrack || entry.plannedTrack;
+
+  return (
+    <div className={`flex items-start gap-4 py-3 border-b border-gray-100 last:border-b-0 ${entry.cancelled ? "opacity-70" : ""}`}>
+      <div className="w-16 flex-shrink-0">
+        <div className={`text-lg font-bold ${entry.cancelled ? "line-through text-gray-500" : "text-gray-800"}`}>
+          {formatTime(entry.plannedDateTime)}
+        </div>
+        {entry.delayMinutes > 0 && (
+          <div className="text-xs font-medium text-red-600">+{entry.delayMinutes} min</div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className={`font-semibold ${entry.cancelled ? "line-through text-gray-500" : "text-gray-800"}`}>
+            {kind === "departures" ? entry.towards : `From ${entry.towards}`}
+          </span>
+          {entry.cancelled && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">Cancelled</span>
+          )}
+        </div>
+        <div className="text-xs text-gray-600">
+          {entry.category} {entry.trainNumber}
+          {entry.operator && entry.operator !== "NS" && ` · ${entry.operator}`}
+          {entry.via.length > 0 && ` · via ${entry.via.join(", ")}`}
+        </div>
+        <CompositionType entry={entry} stationCode={stationCode} />
+        {entry.messages.map((message, index) => (
+          <div key={index} className="text-xs text-yellow-700">{message}</div>
+        ))}
+      </div>
+
+      <div className="w-16 flex-shrink-0 text-right">
+        <div className="text-xs text-gray-500">Platform</div>
+        <div className={`text-lg font-bold ${entry.trackChanged ? "text-red-600" : "text-gray-800"}`}>
+          {track || "?"}
+        </div>
+        {entry.trackChanged && (
+          <div className="text-xs text-gray-500 line-through">{entry.plannedTrack}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function StationPage() {
+  const params = useParams<{ code: string }>();
+  const stationCode = (params.code || "").toUpperCase();
+  const queryString = useSearch();
+  const [, navigate] = useLocation();
+  const kind: BoardKind = new URLSearchParams(queryString).get("board") === "arrivals" ? "arrivals" : "departures";
+
+  const { data: board, error, isLoading, isFetching, dataUpdatedAt } = useQuery<StationBoard>({
+    queryKey: ["/api/stations", stationCode, kind],
+    queryFn: () => getStationBoard(stationCode, kind),
+    enabled: !!stationCode,
+    refetchInterval: BOARD_REFRESH_INTERVAL_MS,
+    refetchIntervalInBackground: false,
+  });
+
+  const selectKind = (next: string) => {
+    navigate(next === "arrivals" ? `/station/${stationCode}?board=arrivals` : `/station/${stationCode}`, { replace: true });
+  };
+
+  return (
+    <div className="bg-gray-50 font-sans min-h-screen">
+      {/* Header */}
+      <header className="bg-ns-blue text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Train className="text-2xl" />
+              <h1 className="text-2xl font-bold">NS Trip Planner</h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              <AccountMenu />
+              <Link href="/" className="flex items-center space-x-1 text-sm hover:underline">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Back to search</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-800">Station {stationCode}</h2>
+          {board && (
+            <span className="flex items-center gap-1 text-sm text-gray-600">
+              <RefreshCw className={`w-3 h-3 ${isFetching ? "animate-spin" : ""}`} />
+              Updated {new Date(dataUpdatedAt).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+            </span>
+          )}
+        </div>
+
+        <Tabs value={kind} onValueChange={selectKind}>
+          <TabsList>
+            <TabsTrigger value="departures">Departures</TabsTrigger>
+            <TabsTrigger value="arrivals">Arrivals</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Card className="bg-white rounded-xl shadow-lg border border-gray-200">
+          <CardContent className="p-4">
+            {isLoading && (
+              <div className="text-center py-8 text-gray-600">
+                <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+                Loading {kind}...
+              </div>
+            )}
+
+            {error && !board && (
+              <div className="flex items-start gap-3 text-sm">
+                <AlertTriangle className="w-5 h-5 text-red-500 mt-0.5" />
+                <div>
+                  <div className="font-semibold text-gray-800">The {kind} board could not be loaded</div>
+                  <div className="text-gray-600">{error instanceof Error ? error.message : String(error)}</div>
+                </div>
+              </div>
+            )}
+
+            {board && board.entries.length === 0 && (
+              <div className="text-center py-8 text-gray-600">No {kind} in the coming hours.</div>
+            )}
+
+            {board?.entries.map((entry) => (
+              <BoardRow
+                key={`${entry.trainNumber}-${entry.plannedDateTime}`}
+                entry={entry}
+                stationCode={stationCode}
+                kind={kind}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import { Train, ArrowLeft, RefreshCw, AlertTriangle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import AccountMenu from "@/components/account-menu";
+import TripCard from "@/components/trip-card";
+import LegDetails from "@/components/leg-details";
+import { getTrip } from "@/lib/nsApi";
+import { FareSelectionSchema, type Trip } from "@shared/schema";
+import { DEFAULT_FARE_SELECTION, type FareSelection } from "@shared/fares";
+
+// Realtime data (delays, tracks) is refreshed at the server cache's TTL
+const TRIP_REFRESH_INTERVAL_MS = 30 * 1000;
+
+function decodeCtxRecon(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Fare options of the search the trip came from (?travelClass=1&...), or the
+// defaults for links without them or with values NS doesn't know
+function parseFareSelection(queryString: string): FareSelection {
+  const parsed = FareSelectionSchema.safeParse(Object.fromEntries(new URLSearchParams(queryString)));
+  return parsed.success ? parsed.data : DEFAULT_FARE_SELECTION;
+}
+
+export default function TripPage() {
+  const params = useParams<{ ctxRecon: string }>();
+  const ctxRecon = decodeCtxRecon(params.ctxRecon || "");
+  const queryString = useSearch();
+  const fareSelection = useMemo(() => parseFareSelection(queryString), [queryString]);
+
+  const { data: trip, error, isLoading, isFetching, dataUpdatedAt } = useQuery<Trip>({
+    queryKey: ["/api/trips", "trip", ctxRecon, fareSelection],
+    queryFn: () => getTrip(ctxRecon, fareSelection),
+    enabled: !!ctxRecon,
+    refetchInterval: TRIP_REFRESH_INTERVAL_MS,
+    refetchIntervalInBackground: false,
+  });
+
+  const lastLeg = trip?.legs[trip.legs.length - 1];
+
+  return (
+    <div className="bg-gray-50 font-sans min-h-screen">
+      {/* Header */}
+      <header className="bg-ns-blue text-white shadow-lg">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Train className="text-2xl" />
+              <h1 className="text-2xl font-bold">NS Trip Planner</h1>
+            </div>
+            <div className="flex items-center space-x-6">
+              <AccountMenu />
+              <Link href="/" className="flex items-center space-x-1 text-sm hover:underline">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Back to search</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-6xl space-y-4">
+        {isLoading && (
+          <div className="text-center py-12 text-gray-600">
+            <RefreshCw className="w-6 h-6 animate-spin mx-auto mb-2" />
+            Loading trip...
+          </div>
+        )}
+
+        {error && !trip && (
+          <Card>
+            <CardContent className="p-6 flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-red-500 mt-0.5" />
+              <div>
+                <div className="font-semibold text-gray-800">This trip could not be loaded</div>
+                <div className="text-sm text-gray-600">
+                  {error instanceof Error ? error.message : String(error)}
+                </div>
+                <div className="text-sm text-gray-600 mt-2">
+                  Trips can only be reloaded while NS still knows them, usually until the day after travel.
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {trip && lastLeg && (
+          <>
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span className="font-medium text-gray-800">
+                {trip.legs[0].origin.name} → {lastLeg.destination.name}
+              </span>
+              <span className="flex items-center gap-1">
+                <RefreshCw className={`w-3 h-3 ${isFetching ? "animate-spin" : ""}`} />
+                Updated {new Date(dataUpdatedAt).toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+              </span>
+            </div>
+
+            <TripCard trip={trip} fareSelection={fareSelection} defaultExpanded />
+
+            <Card className="bg-white rounded-xl shadow-lg border border-gray-200 mx-1">
+              <CardContent className="p-2">
+                <LegDetails legs={trip.legs} originalDestination={lastLeg.destination.name} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { randomBytes } from "crypto";
+import type { Express, Request } from "express";
+import {
+  FavouriteStationInputSchema,
+  SavedRouteInputSchema,
+  SavedRoutePatchSchema,
+  TripSearchSchema,
+} from "@shared/schema";
+import { requireAuth, sendAccountError } from "./auth";
+import { storage } from "./storage";
+
+// Per-user data under /api/account/*. Every route needs a session, and rows
+// owned by someone else answer 404 as if they didn't exist.
+
+const userId = (req: Request) => req.user!.id;
+
+async function ownSavedRoute(req: Request) {
+  const route = await storage.getSavedRoute(req.params.id);
+  return route && route.userId === userId(req) ? route : undefined;
+}
+
+// Where the commute calendar of a token is served (see server/routes.ts)
+const calendarPath = (token: string | null) => (token ? `/api/calendar/${token}.ics` : null);
+
+export function registerAccountRoutes(app: Express) {
+  app.use("/api/account", requireAuth);
+
+  // Saved routes, favourites first
+  app.get("/api/account/routes", async (req, res) => {
+    try {
+      const routes = await storage.listSavedRoutes(userId(req));
+      res.json([...routes.filter((route) => route.isFavourite), ...routes.filter((route) => !route.isFavourite)]);
+    } catch (error) {
+      console.error("Error listing saved routes:", error);
+      sendAccountError(res, error, "Failed to list saved routes");
+    }
+  });
+
+  app.post("/api/account/routes", async (req, res) => {
+    try {
+      const input = SavedRouteInputSchema.parse(req.body);
+      const route = await storage.createSavedRoute({ ...input, userId: userId(req) });
+      res.status(201).json(route);
+    } catch (error) {
+      console.error("Error saving route:", error);
+      sendAccountError(res, error, "Failed to save route");
+    }
+  });
+
+  app.patch("/api/account/routes/:id", async (req, res) => {
+    try {
+      const patch = SavedRoutePatchSchema.parse(req.body);
+      if (!(await ownSavedRoute(req))) {
+        return res.status(404).json({ error: "Saved route not found", message: "This route does not exist" });
+      }
+      res.json(await storage.updateSavedRoute(req.params.id, patch));
+    } catch (error) {
+      console.error("Error updating saved route:", error);
+      sendAccountError(res, error, "Failed to update saved route");
+    }
+  });
+
+  app.delete("/api/account/routes/:id", async (req, res) => {
+    try {
+      if (!(await ownSavedRoute(req))) {
+        return res.status(404).json({ error: "Saved route not found", message: "This route does not exist" });
+      }
+      await storage.deleteSavedRoute(req.params.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting saved route:", error);
+      sendAccountError(res, error, "Failed to delete saved route");
+    }
+  });
+
+  // Executed trip searches, newest first
+  app.get("/api/account/history", async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 20, 1), 50);
+      res.json(await storage.listSearchHistory(userId(req), limit));
+    } catch (error) {
+      console.error("Error listing search history:", error);
+      sendAccountError(res, error, "Failed to list search history");
+    }
+  });
+
+  app.post("/api/account/history", async (req, res) => {
+    try {
+      const search = TripSearchSchema.parse(req.body);
+      const entry = await storage.addSearchHistory({
+        userId: userId(req),
+        fromStation: search.fromStation,
+        toStation: search.toStation,
+        search,
+      });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error recording search:", error);
+      sendAccountError(res, error, "Failed to record search");
+    }
+  });
+
+  app.delete("/api/account/history", async (req, res) => {
+    try {
+      const cleared = await storage.clearSearchHistory(userId(req));
+      res.json({ cleared });
+    } catch (error) {
+      console.error("Error clearing search history:", error);
+      sendAccountError(res, error, "Failed to clear search history");
+    }
+  });
+
+  // Favourite stations for the station dropdown
+  app.get("/api/account/stations", async (req, res) => {
+    try {
+      res.json(await storage.listFavouriteStations(userId(req)));
+    } catch (error) {
+      console.error("Error listing favourite stations:", error);
+      sendAccountError(res, error, "Failed to list favourite stations");
+    }
+  });
+
+  app.post("/api/account/stations", async (req, res) => {
+    try {
+      const input = FavouriteStationInputSchema.parse(req.body);
+      const station = await storage.addFavouriteStation({ ...input, userId: userId(req) });
+      res.status(201).json(station);
+    } catch (error) {
+      console.error("Error adding favourite station:", error);
+      sendAccountError(res, error, "Failed to add favourite station");
+    }
+  });
+
+  app.delete("/api/account/stations/:name", async (req, res) => {
+    try {
+      if (!(await storage.removeFavouriteStation(userId(req), req.params.name))) {
+        return res.status(404).json({ error: "Favourite station not found", message: `${req.params.name} is not a favourite` });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error removing favourite station:", error);
+      sendAccountError(res, error, "Failed to remove favourite station");
+    }
+  });
+
+  // The secret link to the commute calendar feed. Creating one again replaces
+  // the old link, so a leaked URL can be revoked.
+  app.get("/api/account/calendar", async (req, res) => {
+    try {
+      const user = await storage.getUser(userId(req));
+      res.json({ path: calendarPath(user?.calendarToken ?? null) });
+    } catch (error) {
+      console.error("Error loading calendar link:", error);
+      sendAccountError(res, error, "Failed to load calendar link");
+    }
+  });
+
+  app.post("/api/account/calendar", async (req, res) => {
+    try {
+      const token = randomBytes(24).toString("base64url");
+      await storage.setCalendarToken(userId(req), token);
+      res.status(201).json({ path: calendarPath(token) });
+    } catch (error) {
+      console.error("Error creating calendar link:", error);
+      sendAccountError(res, error, "Failed to create calendar link");
+    }
+  });
+
+  app.delete("/api/account/calendar", async (req, res) => {
+    try {
+      await storage.setCalendarToken(userId(req), null);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error turning off calendar link:", error);
+      sendAccountError(res, error, "Failed to turn off calendar link");
+    }
+  });
+}
@@ -0,0 +1,198 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { LoginSchema, insertUserSchema, type PublicUser, type User } from "@shared/schema";
+import { StorageConflictError, storage } from "./storage";
+import { database } from "./db";
+
+// Username/password accounts with cookie sessions (passport-local).
+// SESSION_STORE picks where sessions live: "postgres" (default when DATABASE_URL
+// is set, table created on first use) or "memory" (lost on restart).
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// scrypt with a random salt, stored as "<hash>.<salt>" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const expected = Buffer.from(hashed, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+function createSessionStore(): session.Store {
+  const kind = process.env.SESSION_STORE || (database ? "postgres" : "memory");
+
+  if (kind === "postgres") {
+    if (!database) {
+      throw new Error("SESSION_STORE=postgres needs DATABASE_URL");
+    }
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: database.pool, tableName: "user_sessions", createTableIfMissing: true });
+  }
+
+  if (kind !== "memory") {
+    throw new Error(`Unknown SESSION_STORE "${kind}", use "postgres" or "memory"`);
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set, using a random secret: sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+// 401 for account routes when nobody is logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Not logged in", message: "Log in to use this feature" });
+}
+
+// Translate validation and storage errors into HTTP answers for account routes
+export function sendAccountError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request parameters",
+      message: error.errors[0]?.message || message,
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof StorageConflictError) {
+    return res.status(409).json({ error: message, message: error.message });
+  }
+
+  return res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    // Secure cookies behind the hosting platform's TLS proxy
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    name: "ns.sid",
+    secret: sessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const credentials = insertUserSchema.parse(req.body);
+      const user = await storage.createUser({
+        username: credentials.username,
+        password: await hashPassword(credentials.password),
+      });
+      console.log(`Registered user ${user.username}`);
+
+      req.login(toPublicUser(user), (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (!(error instanceof z.ZodError) && !(error instanceof StorageConflictError)) {
+        console.error("Error registering user:", error);
+      }
+      sendAccountError(res, error, "Registration failed");
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = LoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendAccountError(res, parsed.error, "Login failed");
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Login failed", message: "Wrong username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("ns.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  // The logged-in user, or 401
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { UpstreamCache } from "./cache";
+
+// A loader that counts its calls and answers with its label and the call
+// number, or holds every call until release() when `held` is set
+function countingLoader(held = false, label = "value") {
+  let calls = 0;
+  let release: () => void = () => {};
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const load = async () => {
+    calls++;
+    const call = calls;
+    if (held) await gate;
+    return `${label} ${call}`;
+  };
+  return { load, release: () => release(), get calls() { return calls; } };
+}
+
+// Lets the background refresh of a stale hit settle
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("UpstreamCache", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it("misses first, then hits while the entry is fresh", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, now: clock });
+    const loader = countingLoader();
+
+    const miss = await cache.get("a", loader.load);
+    now += 999;
+    const hit = await cache.get("a", loader.load);
+
+    assert.equal(miss.status, "MISS");
+    assert.deepEqual(hit, { value: "value 1", storedAt: 1_000_000, status: "HIT", ageMs: 999 });
+    assert.equal(loader.calls, 1);
+  });
+
+  it("serves a stale entry and refreshes it once in the background", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, staleMs: 5000, now: clock });
+    const first = countingLoader();
+    await cache.get("a", first.load);
+
+    now += 2000;
+    const refresh = countingLoader(true, "refreshed");
+    const stale = await cache.get("a", refresh.load);
+    const staleAgain = await cache.get("a", refresh.load);
+    assert.equal(stale.status, "STALE");
+    assert.equal(stale.value, "value 1");
+    assert.equal(stale.ageMs, 2000);
+    assert.equal(staleAgain.status, "STALE");
+    assert.equal(refresh.calls, 1);
+
+    refresh.release();
+    await settle();
+    const refreshed = await cache.get("a", refresh.load);
+    assert.deepEqual(refreshed, { value: "refreshed 1", storedAt: now, status: "HIT", ageMs: 0 });
+    assert.equal(refresh.calls, 1);
+  });
+
+  it("reloads in the foreground once the stale window has passed", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, staleMs: 5000, now: clock });
+    const loader = countingLoader();
+    await cache.get("a", loader.load);
+
+    now += 6000;
+    const result = await cache.get("a", loader.load);
+    assert.equal(result.status, "MISS");
+    assert.equal(result.value, "value 2");
+  });
+
+  it("shares one loader call between concurrent misses", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, now: clock });
+    const loader = countingLoader(true);
+
+    const pending = [cache.get("a", loader.load), cache.get("a", loader.load), cache.get("a", loader.load)];
+    loader.release();
+    const results = await Promise.all(pending);
+
+    assert.equal(loader.calls, 1);
+    assert.deepEqual(results.map((result) => [result.status, result.value]), [
+      ["MISS", "value 1"],
+      ["MISS", "value 1"],
+      ["MISS", "value 1"],
+    ]);
+  });
+
+  it("doesn't cache a failed load", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, now: clock });
+    let calls = 0;
+    const failing = async () => {
+      calls++;
+      throw new Error("NS is down");
+    };
+
+    await assert.rejects(cache.get("a", failing), /NS is down/);
+    await assert.rejects(cache.get("a", failing), /NS is down/);
+    assert.equal(calls, 2);
+    assert.equal(cache.size, 0);
+
+    const result = await cache.get("a", async () => "back");
+    assert.equal(result.status, "MISS");
+    assert.equal(result.value, "back");
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const cache = new UpstreamCache<string>("test", { ttlMs: 1000, maxEntries: 2, now: clock });
+    const loader = countingLoader();
+
+    await cache.get("a", loader.load);
+    await cache.get("b", loader.load);
+    // Reading "a" makes "b" the least recently used
+    await cache.get("a", loader.load);
+    await cache.get("c", loader.load);
+
+    assert.equal(cache.size, 2);
+    assert.equal((await cache.get("a", loader.load)).status, "HIT");
+    assert.equal((await cache.get("c", loader.load)).status, "HIT");
+    assert.equal((await cache.get("b", loader.load)).status, "MISS");
+  });
+});
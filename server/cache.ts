@@ -0,0 +1,116 @@
+import type { Response } from "express";
+import { type CacheStatus } from "@shared/schema";
+
+// In-memory cache for upstream NS responses.
+// - fresh for ttlMs, then served stale for up to staleMs while one background
+//   reload runs (realtime data is allowed to lag a little, never to block)
+// - concurrent misses for the same key share one upstream call
+// - bounded by maxEntries, evicting the least recently used entry
+export interface CachePolicy {
+  ttlMs: number;
+  staleMs?: number;
+  maxEntries?: number;
+  // Clock in epoch milliseconds; tests pass their own
+  now?: () => number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt: number;
+  // Age when it was read, by the policy clock
+  ageMs: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export class UpstreamCache<T> {
+  private entries: Map<string, CacheEntry<T>>;
+  private inflight: Map<string, Promise<CacheEntry<T>>>;
+
+  constructor(private name: string, private policy: CachePolicy) {
+    this.entries = new Map();
+    this.inflight = new Map();
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  private now(): number {
+    return this.policy.now ? this.policy.now() : Date.now();
+  }
+
+  async get(key: string, load: () => Promise<T>): Promise<CacheResult<T>> {
+    const entry = this.entries.get(key);
+    const now = this.now();
+
+    if (entry) {
+      const age = now - entry.storedAt;
+      if (age < this.policy.ttlMs) {
+        this.touch(key, entry);
+        return { ...entry, status: "HIT", ageMs: age };
+      }
+      if (age < this.policy.ttlMs + (this.policy.staleMs || 0)) {
+        this.touch(key, entry);
+        this.load(key, load).catch((error) => {
+          console.warn(`Background refresh of ${this.name} cache failed for ${key}:`, error);
+        });
+        return { ...entry, status: "STALE", ageMs: age };
+      }
+      this.entries.delete(key);
+    }
+
+    const loaded = await this.load(key, load);
+    return { ...loaded, status: "MISS", ageMs: this.now() - loaded.storedAt };
+  }
+
+  private load(key: string, load: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const promise = load()
+      .then((value) => {
+        const entry = { value, storedAt: this.now() };
+        this.touch(key, entry);
+        return entry;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  // Re-insert so Map iteration order doubles as recency order
+  private touch(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const maxEntries = this.policy.maxEntries || 500;
+    while (this.entries.size > maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Stable key for a set of parameters: sorted names, trimmed lower-case values,
+// empty values dropped, so "Utrecht Centraal " and "utrecht centraal" share an entry
+export function cacheKey(params: Record<string, unknown>): string {
+  return Object.keys(params)
+    .sort()
+    .filter((name) => params[name] !== undefined && params[name] !== null && params[name] !== "" && params[name] !== false)
+    .map((name) => `${name}=${String(params[name]).trim().toLowerCase()}`)
+    .join("&");
+}
+
+export function setCacheHeaders(res: Response, result: CacheResult<unknown>) {
+  res.setHeader("x-cache", result.status);
+  res.setHeader("age", String(Math.max(0, Math.floor(result.ageMs / 1000))));
+}
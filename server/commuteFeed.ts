@@ -0,0 +1,90 @@
+import { type SavedRoute, type Trip, type TripSearch } from "@shared/schema";
+import { amsterdamDateTime, tripEvents, tripStatusPrefix, type CalendarEvent } from "@shared/calendar";
+import { mapWithConcurrency } from "./gateway";
+
+// The commute calendar feed: for each saved route with a commute schedule, the
+// trip NS plans for every scheduled day in the coming days, with realtime times,
+// platforms and a DELAYED/CANCELLED prefix once they are known. Calendar apps
+// fetch the feed again every so often, and each fetch re-plans what is stale.
+
+export const DEFAULT_FEED_DAYS = 7;
+export const MAX_FEED_DAYS = 14;
+
+// Feed searches run a few at a time, so a long feed doesn't burst the NS quota
+const PLAN_CONCURRENCY = 2;
+
+export type PlanTrips = (search: TripSearch) => Promise<Trip[]>;
+
+const amsterdamDate = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Europe/Amsterdam",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// ISO weekday, 1 = Monday ... 7 = Sunday
+function isoWeekday(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay() || 7;
+}
+
+// Dutch calendar dates (YYYY-MM-DD) in the next `days` days, today included,
+// that fall on one of the route's commute days
+export function commuteDates(route: Pick<SavedRoute, "commuteDays">, days: number, now: Date = new Date()): string[] {
+  const dates: string[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = amsterdamDate.format(new Date(now.getTime() + offset * 24 * 60 * 60 * 1000));
+    if (route.commuteDays.includes(isoWeekday(date))) dates.push(date);
+  }
+  return dates;
+}
+
+export function commuteSearch(route: SavedRoute, date: string): TripSearch {
+  return {
+    ...route.options,
+    fromStation: route.fromStation,
+    toStation: route.toStation,
+    dateTime: `${date}T${route.commuteTime}`,
+  };
+}
+
+// The first trip leaving at or after the commute time, or for arrival searches
+// the last one arriving by then
+export function pickCommuteTrip(trips: Trip[], search: TripSearch): Trip | null {
+  const wanted = `${search.dateTime.replace(/-/g, "").replace(":", "")}00`;
+  const withLegs = trips.filter((trip) => trip.legs.length > 0);
+
+  if (search.searchForArrival) {
+    const arriving = withLegs.filter(
+      (trip) => amsterdamDateTime(trip.legs[trip.legs.length - 1].destination.plannedDateTime) <= wanted,
+    );
+    return arriving[arriving.length - 1] || null;
+  }
+  return withLegs.find((trip) => amsterdamDateTime(trip.legs[0].origin.plannedDateTime) >= wanted) || null;
+}
+
+// One event per commute and day; the UID stays the same when another trip is
+// planned, so calendars move the event instead of adding one
+export async function commuteEvents(routes: SavedRoute[], days: number, planTrips: PlanTrips, now: Date = new Date()): Promise<CalendarEvent[]> {
+  const planned = routes
+    .filter((route) => route.commuteTime && route.commuteDays.length > 0)
+    .flatMap((route) => commuteDates(route, days, now).map((date) => ({ route, date })));
+
+  const events = await mapWithConcurrency(planned, PLAN_CONCURRENCY, async ({ route, date }) => {
+    const search = commuteSearch(route, date);
+    try {
+      const trip = pickCommuteTrip(await planTrips(search), search);
+      if (!trip) return null;
+      const [event] = tripEvents(trip, "trip", { realtime: true });
+      return {
+        ...event,
+        uid: `commute-${route.id}-${date}@ns-trip-planner`,
+        summary: `${tripStatusPrefix(trip)}${route.name}: ${route.fromStation} → ${route.toStation}`,
+      };
+    } catch (error) {
+      console.warn(`Could not plan commute "${route.name}" on ${date}:`, error);
+      return null;
+    }
+  });
+
+  return events.filter((event): event is CalendarEvent => event !== null);
+}
@@ -0,0 +1,15 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/tables";
+
+// Plain node-postgres, so the same code runs against a local database, Neon or
+// any hosted Postgres. Tables are created with `npm run db:push`.
+export function createDb(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return { pool, db: drizzle(pool, { schema }) };
+}
+
+export type Db = ReturnType<typeof createDb>["db"];
+
+// Shared by storage and the session store; null runs everything in memory
+export const database = process.env.DATABASE_URL ? createDb(process.env.DATABASE_URL) : null;
@@ -0,0 +1,98 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  createNsGateway,
+  createRequestId,
+  NsAuthError,
+  NsGatewayError,
+  NsNetworkError,
+  NsQuotaError,
+} from "@shared/nsGateway";
+import { FIXTURES_DIR, MOCK_GATEWAY_PATH, recordingTransport } from "./mockGateway";
+
+// Development defaults; deployments set their own subscriptions (DEPLOYMENT.md)
+const tripsKey = process.env.NS_API_KEY || process.env.OCP_APIM_SUBSCRIPTION_KEY || "1ea3dd385baf4127a20cb8fb38af634d";
+// Places and Virtual Train are separate NS products with their own subscriptions
+const placesKey = process.env.NS_PLACES_API_KEY || "590c1627b27c414baffb2737e241f16f";
+const virtualTrainKey = process.env.NS_VIRTUAL_TRAIN_API_KEY || "ae99952bf4d24fb893ce33472cb6d605";
+
+// NS_GATEWAY_MODE: unset for the real gateway, "mock" to answer from recorded
+// fixtures (served by this server under MOCK_GATEWAY_PATH), "record" to save them
+export const gatewayMode = process.env.NS_GATEWAY_MODE;
+
+const mockBaseUrl = `http://127.0.0.1:${process.env.PORT || "5000"}${MOCK_GATEWAY_PATH}`;
+
+export const nsGateway = createNsGateway({
+  apiKeys: {
+    trips: tripsKey,
+    virtualTrain: virtualTrainKey,
+    places: placesKey,
+  },
+  baseUrl: process.env.NS_GATEWAY_URL || (gatewayMode === "mock" ? mockBaseUrl : undefined),
+  transport: gatewayMode === "record" ? recordingTransport(FIXTURES_DIR) : undefined,
+});
+
+// The browser sends the id it made for the call (client/src/lib/nsApi.ts); reusing
+// it for the NS calls lets one id be followed through all three logs
+const REQUEST_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+export function requestIdFor(req: Request, res: Response): string {
+  const incoming = req.get("x-request-id");
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : createRequestId();
+  res.setHeader("x-request-id", requestId);
+  return requestId;
+}
+
+// Translate gateway errors into HTTP answers for our own clients
+export function sendGatewayError(res: Response, error: unknown, message: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request parameters",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof NsQuotaError) {
+    if (error.retryAfterSeconds) {
+      res.setHeader("retry-after", String(error.retryAfterSeconds));
+    }
+    return res.status(429).json({ error: message, message: error.message, requestId: error.requestId });
+  }
+
+  if (error instanceof NsAuthError) {
+    return res.status(502).json({ error: message, message: error.message, requestId: error.requestId });
+  }
+
+  if (error instanceof NsNetworkError) {
+    return res.status(504).json({ error: message, message: error.message, requestId: error.requestId });
+  }
+
+  if (error instanceof NsGatewayError) {
+    return res.status(502).json({ error: message, message: error.message, requestId: error.requestId });
+  }
+
+  return res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,181 @@
+import express, { type Router } from "express";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  GATEWAY_PATHS,
+  endpointForPath,
+  fetchTransport,
+  legKey,
+  type GatewayEndpoint,
+  type GatewayTransport,
+} from "@shared/nsGateway";
+
+// Offline stand-in for gateway.apiportal.ns.nl.
+// - "mock" mode serves recorded responses from the fixtures directory
+// - "record" mode passes calls through to NS and saves every successful answer
+//   as a fixture, so a session online can be replayed offline later
+// Fixtures live in <fixtures>/<endpoint>/<key>.json, with default.json as the
+// answer for anything that hasn't been recorded.
+
+export const MOCK_GATEWAY_PATH = "/mock-ns";
+
+export const FIXTURES_DIR = process.env.NS_FIXTURES_DIR || path.resolve(process.cwd(), "server", "fixtures", "ns");
+
+export interface GatewayFixture {
+  endpoint: GatewayEndpoint;
+  key: string;
+  // Path and query of the original call, without host or headers
+  path: string;
+  status: number;
+  recordedAt: string;
+  body: unknown;
+}
+
+const slug = (value: string | null | undefined) =>
+  (value || "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+// Fixture name for a call. dateTime is left out on purpose: a recorded
+// Utrecht - Amsterdam answer is good enough for any departure time.
+export function fixtureKey(endpoint: GatewayEndpoint, url: URL): string {
+  // Single trip by ctxRecon, which is far too long for a file name
+  if (endpoint === "trips" && url.pathname.endsWith("/trip")) {
+    const ctxRecon = url.searchParams.get("ctxRecon") || "";
+    return `trip-${createHash("sha1").update(ctxRecon).digest("hex").slice(0, 12)}`;
+  }
+
+  if (endpoint === "trips") {
+    const from = url.searchParams.get("fromStation") || url.searchParams.get("originName");
+    const to = url.searchParams.get("toStation") || url.searchParams.get("destinationName");
+    const arrival = url.searchParams.get("searchForArrival") === "true" ? "--arrival" : "";
+    return `${slug(from)}--${slug(to)}${arrival}`;
+  }
+
+  if (endpoint === "virtualTrain") {
+    const [trainNumber, stationCode] = url.pathname
+      .slice(url.pathname.indexOf(GATEWAY_PATHS.virtualTrain) + GATEWAY_PATHS.virtualTrain.length)
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    return slug(legKey(trainNumber || "", stationCode || ""));
+  }
+
+  if (endpoint === "departures" || endpoint === "arrivals") {
+    return slug(url.searchParams.get("station"));
+  }
+
+  // One feed for the whole network, filtered per route by the server
+  if (endpoint === "disruptions") {
+    return "default";
+  }
+
+  return slug(url.searchParams.get("q"));
+}
+
+// A single trip that was never recorded on its own can still be found in any
+// recorded search result that contains it
+function findTripInSearchFixtures(fixturesDir: string, ctxRecon: string): GatewayFixture | null {
+  const dir = path.join(fixturesDir, "trips");
+  if (!fs.existsSync(dir)) return null;
+
+  for (const file of fs.readdirSync(dir).filter((name) => name.endsWith(".json"))) {
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as GatewayFixture;
+    const trips = (fixture.body as { trips?: Array<{ ctxRecon?: string }> } | null)?.trips || [];
+    const trip = trips.find((candidate) => candidate.ctxRecon === ctxRecon);
+    if (trip) {
+      return { ...fixture, body: trip };
+    }
+  }
+  return null;
+}
+
+function loadFixtureFile(fixturesDir: string, endpoint: GatewayEndpoint, name: string): GatewayFixture | null {
+  const file = path.join(fixturesDir, endpoint, `${name}.json`);
+  return name && fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf-8")) as GatewayFixture) : null;
+}
+
+function readFixture(fixturesDir: string, endpoint: GatewayEndpoint, key: string, url: URL): GatewayFixture | null {
+  const recorded = loadFixtureFile(fixturesDir, endpoint, key);
+  if (recorded) return recorded;
+
+  // default.json holds a search result, not a single trip
+  if (endpoint === "trips" && url.pathname.endsWith("/trip")) {
+    return findTripInSearchFixtures(fixturesDir, url.searchParams.get("ctxRecon") || "");
+  }
+
+  return loadFixtureFile(fixturesDir, endpoint, "default");
+}
+
+export function createMockGatewayRouter(fixturesDir: string = FIXTURES_DIR): Router {
+  const router = express.Router();
+
+  // The static client calls the gateway cross-origin, like the real one
+  router.use((req, res, next) => {
+    res.setHeader("access-control-allow-origin", "*");
+    res.setHeader("access-control-allow-headers", "*");
+    if (req.method === "OPTIONS") {
+      return res.sendStatus(204);
+    }
+    next();
+  });
+
+  router.get("*", (req, res) => {
+    const endpoint = endpointForPath(req.path);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Unknown NS endpoint", message: req.path });
+    }
+
+    const url = new URL(req.originalUrl, "http://mock");
+    const key = fixtureKey(endpoint, url);
+    const fixture = readFixture(fixturesDir, endpoint, key, url);
+    if (!fixture) {
+      return res.status(404).json({
+        error: "No fixture recorded",
+        message: `Add ${path.join(endpoint, `${key}.json`)} or ${path.join(endpoint, "default.json")} to ${fixturesDir}`,
+      });
+    }
+
+    res.setHeader("x-mock-fixture", `${endpoint}/${fixture.key}`);
+    res.status(fixture.status).json(fixture.body);
+  });
+
+  return router;
+}
+
+// Wraps a transport and saves each successful response as a fixture. Only the
+// body and the path are written: subscription keys travel in headers, which
+// are never stored.
+export function recordingTransport(fixturesDir: string = FIXTURES_DIR, inner: GatewayTransport = fetchTransport): GatewayTransport {
+  return async (request) => {
+    const response = await inner(request);
+    if (!response.ok) return response;
+
+    const body = await response.json();
+    const url = new URL(request.url);
+    const key = fixtureKey(request.endpoint, url);
+    const fixture: GatewayFixture = {
+      endpoint: request.endpoint,
+      key,
+      path: `${url.pathname}${url.search}`,
+      status: response.status,
+      recordedAt: new Date().toISOString(),
+      body,
+    };
+
+    try {
+      fs.mkdirSync(path.join(fixturesDir, request.endpoint), { recursive: true });
+      fs.writeFileSync(path.join(fixturesDir, request.endpoint, `${key || "default"}.json`), JSON.stringify(fixture, null, 2));
+      console.log(`Recorded ${request.endpoint} fixture ${key}`);
+    } catch (error) {
+      console.warn(`Failed to record ${request.endpoint} fixture ${key}:`, error);
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      json: async () => body,
+    };
+  };
+}
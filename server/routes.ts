@@ -1,81 +1,300 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { TripSearchSchema } from "@shared/schema";
-import { z } from "zod";
+import {
+  BoardKindSchema,
+  FallbackBatchRequestSchema,
+  FareSelectionSchema,
+  TripSearchSchema,
+  TrainBatchRequestSchema,
+  type Disruption,
+  type DisruptionsResponse,
+  type FallbackBatchResponse,
+  type FallbackPlan,
+  type NsTripsResponse,
+  type Place,
+  type StationBoard,
+  type TrainBatchResponse,
+  type Trip,
+  type TripSearch,
+  type TripUpdate,
+  type VirtualTrainResponse,
+} from "@shared/schema";
+import { normalizePlaces, resolvePlace } from "@shared/places";
+import { normalizeStationBoard } from "@shared/stationBoard";
+import { disruptionsForStations, normalizeDisruptions } from "@shared/disruptions";
+import { normalizeTrainComposition } from "@shared/composition";
+import { calendarToIcs, tripFileName, tripIcsFileName, tripToIcs } from "@shared/calendar";
+import { tripToGeoJson, tripToGpx } from "@shared/geoExport";
+import { fallbackKey, fallbackSearch, pickFallback } from "@shared/fallbacks";
+import { DEFAULT_FARE_SELECTION, type FareSelection } from "@shared/fares";
+import {
+  NsUpstreamError,
+  legKey,
+  tripFareKey,
+  tripSearchFromParams,
+  tripsQueryFromSearch,
+  type Coordinates,
+} from "@shared/nsGateway";
+import { withoutAvoidedStations } from "@shared/routeConstraints";
+import { gatewayMode, mapWithConcurrency, nsGateway, requestIdFor, sendGatewayError } from "./gateway";
+import { FIXTURES_DIR, MOCK_GATEWAY_PATH, createMockGatewayRouter } from "./mockGateway";
+import { UpstreamCache, cacheKey, setCacheHeaders } from "./cache";
+import { setupAuth } from "./auth";
+import { registerAccountRoutes } from "./accountRoutes";
+import { TripMonitor } from "./tripMonitor";
+import { DEFAULT_FEED_DAYS, MAX_FEED_DAYS, commuteEvents } from "./commuteFeed";
+import { storage } from "./storage";
+
+// Place names barely change, so normalized results can be kept for a while
+const placesCache = new UpstreamCache<Place[]>("places", { ttlMs: 10 * 60 * 1000, maxEntries: 500 });
+// Trips and compositions carry realtime data: short TTL, then served stale while refreshing
+const tripsCache = new UpstreamCache<NsTripsResponse>("trips", { ttlMs: 30 * 1000, staleMs: 2 * 60 * 1000, maxEntries: 200 });
+const tripCache = new UpstreamCache<Trip>("trip", { ttlMs: 30 * 1000, staleMs: 2 * 60 * 1000, maxEntries: 500 });
+const boardCache = new UpstreamCache<StationBoard>("board", { ttlMs: 30 * 1000, staleMs: 60 * 1000, maxEntries: 200 });
+const disruptionsCache = new UpstreamCache<Disruption[]>("disruptions", { ttlMs: 2 * 60 * 1000, staleMs: 5 * 60 * 1000, maxEntries: 1 });
+const virtualTrainCache = new UpstreamCache<VirtualTrainResponse>("virtualTrain", { ttlMs: 60 * 1000, staleMs: 5 * 60 * 1000, maxEntries: 1000 });
+// Commute feed plans are re-planned when a calendar app fetches the feed after a few minutes
+const commuteCache = new UpstreamCache<Trip[]>("commute", { ttlMs: 5 * 60 * 1000, staleMs: 60 * 60 * 1000, maxEntries: 500 });
+// Missed-connection fallbacks per station and missed departure, shared by every card showing that transfer
+const fallbackCache = new UpstreamCache<FallbackPlan | null>("fallback", { ttlMs: 2 * 60 * 1000, staleMs: 10 * 60 * 1000, maxEntries: 1000 });
+
+async function lookupPlaces(query: string, requestId: string): Promise<Place[]> {
+  const result = await placesCache.get(cacheKey({ q: query }), async () =>
+    normalizePlaces(await nsGateway.searchPlaces(query.trim(), { requestId })),
+  );
+  return result.value;
+}
+
+// Upper bound on parallel virtual-train calls per batch request
+const BATCH_CONCURRENCY = 4;
+
+function loadVirtualTrain(trainNumber: string, stationCode: string, dateTime: string, requestId: string) {
+  return virtualTrainCache.get(
+    cacheKey({ trainNumber, stationCode, dateTime }),
+    () => nsGateway.getVirtualTrain<VirtualTrainResponse>(trainNumber, stationCode, dateTime, { requestId }),
+  );
+}
+
+// A trip by its ctxRecon, priced for the fare it was found with. Exports use the
+// default fare; the itinerary is the same for every fare.
+function loadTrip(ctxRecon: string, fare: FareSelection, requestId: string) {
+  return tripCache.get(tripFareKey(ctxRecon, fare), () => nsGateway.getTrip<Trip>(ctxRecon, fare, { requestId }));
+}
+
+// Polls each trip on screen for realtime changes, see server/tripMonitor.ts
+const tripMonitor = new TripMonitor({
+  loadTrip: async (ctxRecon, fare) => {
+    const result = await loadTrip(ctxRecon, fare, `monitor-${Date.now()}`);
+    return result.value;
+  },
+  loadCarriageCount: async (leg) => {
+    // Legs from an address or POI have no station to look the train up at
+    if (!leg.origin.stationCode) return null;
+    const result = await loadVirtualTrain(leg.product.number, leg.origin.stationCode, leg.origin.plannedDateTime, `monitor-${Date.now()}`);
+    return normalizeTrainComposition(result.value)?.carriages.length ?? null;
+  },
+  storage,
+  intervalMs: parseInt(process.env.TRIP_MONITOR_INTERVAL_MS || "30000", 10),
+  maxTrips: parseInt(process.env.TRIP_MONITOR_MAX_TRIPS || "200", 10),
+  snapshotRetentionMs: parseInt(process.env.TRIP_SNAPSHOT_RETENTION_DAYS || "7", 10) * 24 * 60 * 60 * 1000,
+});
+
+// Trips one live stream may follow; keeps the query string well under header limits
+const MAX_LIVE_TRIPS = 12;
+// Comment line that keeps proxies from closing an idle stream
+const LIVE_HEARTBEAT_MS = 25 * 1000;
+// Open live streams per client address, so one client can't fill the monitor
+const MAX_LIVE_STREAMS_PER_CLIENT = 4;
+const liveStreamsByClient = new Map<string, number>();
+
+// Coordinates for a location name, or null to plan by station name instead
+async function resolveCoordinates(name: string, requestId: string): Promise<Coordinates | null> {
+  try {
+    const place = resolvePlace(await lookupPlaces(name, requestId), name);
+    return place && place.lat !== null && place.lng !== null ? { lat: place.lat, lng: place.lng } : null;
+  } catch (error) {
+    console.warn(`Error getting coordinates for "${name}":`, error);
+    return null;
+  }
+}
+
+async function planTrips(search: TripSearch, requestId: string) {
+  // Non-station locations are planned by coordinates, same as the static client
+  const [fromLocation, toLocation] = await Promise.all([
+    resolveCoordinates(search.fromStation, requestId),
+    resolveCoordinates(search.toStation, requestId),
+  ]);
+
+  const query = tripsQueryFromSearch(search, fromLocation, toLocation);
+  const result = await tripsCache.get(cacheKey({ ...query }), () => nsGateway.searchTrips<NsTripsResponse>(query, { requestId }));
+  // The cache holds what NS sent; avoided stations are filtered per search
+  if (!search.avoidStations?.length || !Array.isArray(result.value?.trips)) return result;
+  return { ...result, value: { ...result.value, trips: withoutAvoidedStations(result.value.trips, search.avoidStations) } };
+}
+
+// Calendar apps poll the commute feed; this asks them to do so every 15 minutes
+const COMMUTE_FEED_REFRESH_MINUTES = 15;
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Offline NS gateway, see server/mockGateway.ts
+  if (gatewayMode === "mock") {
+    console.log(`Serving NS gateway fixtures from ${FIXTURES_DIR} at ${MOCK_GATEWAY_PATH}`);
+    app.use(MOCK_GATEWAY_PATH, createMockGatewayRouter(FIXTURES_DIR));
+  }
+
+  // Sessions and /api/auth/*, see server/auth.ts
+  setupAuth(app);
+  registerAccountRoutes(app);
+
   // Search trips endpoint
   app.get("/api/trips", async (req, res) => {
+    const requestId = requestIdFor(req, res);
     try {
-      const { fromStation, toStation, dateTime } = req.query;
-
       // Validate query parameters
-      const searchParams = TripSearchSchema.parse({
-        fromStation,
-        toStation,
-        dateTime,
-      });
+      const searchParams = TripSearchSchema.parse(tripSearchFromParams(req.query));
+
+      const result = await planTrips(searchParams, requestId);
+      console.log("NS API Response:", JSON.stringify(result.value, null, 2).substring(0, 500) + "...");
+      setCacheHeaders(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching trips:", error);
+      sendGatewayError(res, error, "Failed to fetch trip data");
+    }
+  });
 
-      // Build NS API URL
-      const apiUrl = new URL("https://gateway.apiportal.ns.nl/reisinformatie-api/api/v3/trips");
-      apiUrl.searchParams.set("fromStation", searchParams.fromStation);
-      apiUrl.searchParams.set("toStation", searchParams.toStation);
-      apiUrl.searchParams.set("dateTime", searchParams.dateTime);
-      apiUrl.searchParams.set("lang", "nl");
-      apiUrl.searchParams.set("product", "OVCHIPKAART_ENKELE_REIS");
-      apiUrl.searchParams.set("travelClass", "2");
-      apiUrl.searchParams.set("firstMileModality", "PUBLIC_TRANSPORT");
-      apiUrl.searchParams.set("lastMileModality", "PUBLIC_TRANSPORT");
-
-      // Get API key from environment variables
-      const apiKey = process.env.NS_API_KEY || process.env.OCP_APIM_SUBSCRIPTION_KEY || "1ea3dd385baf4127a20cb8fb38af634d";
-
-      // Make request to NS API
-      const response = await fetch(apiUrl.toString(), {
-        method: "GET",
-        headers: {
-          "accept": "application/json, text/plain, */*",
-          "accept-language": "nl",
-          "cache-control": "no-cache",
-          "ocp-apim-subscription-key": apiKey,
-          "pragma": "no-cache",
-          "x-caller-id": "NS Web",
-          "x-caller-version": "rio-frontends-20250618.14",
-          "x-enabled-capabilities": "BFF_PRODUCT, BFF_STEPS",
-          "x-request-id": `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        },
+  // Live updates for the trips on screen (?ctxRecon=...&ctxRecon=..., plus the fare
+  // options of the search) as server-sent events. Registered before
+  // /api/trips/:ctxRecon, which would take "live" for a ctxRecon.
+  app.get("/api/trips/live", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    const ctxRecons = Array.from(new Set(([] as unknown[]).concat(req.query.ctxRecon ?? [])))
+      .filter((value): value is string => typeof value === "string" && value.length > 0);
+    if (ctxRecons.length === 0 || ctxRecons.length > MAX_LIVE_TRIPS) {
+      return res.status(400).json({
+        error: "Invalid request parameters",
+        message: `Pass between 1 and ${MAX_LIVE_TRIPS} ctxRecon parameters`,
       });
+    }
+    const parsedFare = FareSelectionSchema.safeParse(req.query);
+    if (!parsedFare.success) {
+      return res.status(400).json({ error: "Invalid request parameters", details: parsedFare.error.errors });
+    }
+    const fare = parsedFare.data;
+
+    const client = req.ip || "unknown";
+    const openStreams = liveStreamsByClient.get(client) ?? 0;
+    if (openStreams >= MAX_LIVE_STREAMS_PER_CLIENT) {
+      return res.status(429).json({ error: "Too many live streams", message: `At most ${MAX_LIVE_STREAMS_PER_CLIENT} per client` });
+    }
+    // Held while the trips are checked, so parallel requests count too
+    liveStreamsByClient.set(client, openStreams + 1);
+    const releaseStream = () => {
+      const remaining = (liveStreamsByClient.get(client) ?? 1) - 1;
+      if (remaining > 0) liveStreamsByClient.set(client, remaining);
+      else liveStreamsByClient.delete(client);
+    };
 
-      if (!response.ok) {
-        throw new Error(`NS API responded with status ${response.status}: ${response.statusText}`);
+    // Only trips NS knows are polled; these come from the cache the searches filled
+    try {
+      await mapWithConcurrency(ctxRecons, BATCH_CONCURRENCY, (ctxRecon) => loadTrip(ctxRecon, fare, requestId));
+    } catch (error) {
+      releaseStream();
+      console.error("Error checking trips for live updates:", error);
+      if (error instanceof NsUpstreamError && error.status !== undefined && error.status < 500) {
+        return res.status(400).json({ error: "Invalid request parameters", message: "Unknown trip" });
       }
+      return sendGatewayError(res, error, "Failed to check trips");
+    }
+    // The client left while the trips were checked
+    if (res.destroyed) return releaseStream();
+
+    if (!tripMonitor.canWatch(ctxRecons, fare)) {
+      releaseStream();
+      return res.status(503).json({ error: "Live updates are busy", message: "Too many trips are followed right now" });
+    }
+
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    });
+    res.write("retry: 10000\n\n");
 
-      const data = await response.json();
-      console.log("NS API Response:", JSON.stringify(data, null, 2).substring(0, 500) + "...");
-      res.json(data);
+    const send = (update: TripUpdate) => {
+      res.write(`event: trip-update\ndata: ${JSON.stringify(update)}\n\n`);
+    };
+    const unsubscribes = ctxRecons.map((ctxRecon) => tripMonitor.subscribe(ctxRecon, fare, send));
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), LIVE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      releaseStream();
+    });
+  });
+
+  // Reload one trip by its ctxRecon (bookmarked /trip/:ctxRecon pages), with the
+  // fare options of the search it came from
+  app.get("/api/trips/:ctxRecon", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const { ctxRecon } = req.params;
+      const fare = FareSelectionSchema.parse(req.query);
+
+      const result = await loadTrip(ctxRecon, fare, requestId);
+      setCacheHeaders(res, result);
+      res.json(result.value);
     } catch (error) {
-      console.error("Error fetching trips:", error);
-      
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ 
-          error: "Invalid request parameters", 
-          details: error.errors 
-        });
-      } else if (error instanceof Error) {
-        res.status(500).json({ 
-          error: "Failed to fetch trip data", 
-          message: error.message 
-        });
+      console.error("Error fetching trip:", error);
+      sendGatewayError(res, error, "Failed to fetch trip");
+    }
+  });
+
+  // The same trip as an iCalendar file; ?events=legs gives one event per leg
+  app.get("/api/trips/:ctxRecon/ics", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const { ctxRecon } = req.params;
+      const mode = req.query.events === "legs" ? "legs" : "trip";
+
+      const result = await loadTrip(ctxRecon, DEFAULT_FARE_SELECTION, requestId);
+      const trip = result.value;
+      res.setHeader("content-type", "text/calendar; charset=utf-8");
+      res.setHeader("content-disposition", `attachment; filename="${tripIcsFileName(trip)}"`);
+      res.send(tripToIcs(trip, mode));
+    } catch (error) {
+      console.error("Error exporting trip to calendar:", error);
+      sendGatewayError(res, error, "Failed to export trip");
+    }
+  });
+
+  // The same trip as map data: GeoJSON, or GPX for tools that only read tracks
+  app.get("/api/trips/:ctxRecon/:format(geojson|gpx)", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const { ctxRecon, format } = req.params;
+
+      const result = await loadTrip(ctxRecon, DEFAULT_FARE_SELECTION, requestId);
+      const trip = result.value;
+      res.setHeader("content-disposition", `attachment; filename="${tripFileName(trip, format)}"`);
+      if (format === "gpx") {
+        res.setHeader("content-type", "application/gpx+xml; charset=utf-8");
+        res.send(tripToGpx(trip));
       } else {
-        res.status(500).json({ 
-          error: "An unexpected error occurred" 
-        });
+        res.setHeader("content-type", "application/geo+json; charset=utf-8");
+        res.send(JSON.stringify(tripToGeoJson(trip)));
       }
+    } catch (error) {
+      console.error("Error exporting trip route:", error);
+      sendGatewayError(res, error, "Failed to export trip");
     }
   });
 
   // Get train details from NS Virtual Train API
   app.get("/api/train/:trainNumber/:stationCode", async (req, res) => {
+    const requestId = requestIdFor(req, res);
     try {
       const { trainNumber, stationCode } = req.params;
       const { dateTime } = req.query;
@@ -84,38 +303,175 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Missing required parameters: trainNumber, stationCode, dateTime" });
       }
 
-      const formattedDateTime = encodeURIComponent(dateTime as string);
-      const apiUrl = `https://gateway.apiportal.ns.nl/virtual-train-api/api/v1/trein/${trainNumber}/${stationCode}?dateTime=${formattedDateTime}&features=zitplaats,druktev2,platformitems`;
-      
-      // Get API key from environment variables
-      const apiKey = process.env.NS_API_KEY || process.env.OCP_APIM_SUBSCRIPTION_KEY || "1ea3dd385baf4127a20cb8fb38af634d";
-      
-      const response = await fetch(apiUrl, {
-        headers: {
-          'Accept': 'application/json, text/plain, */*',
-          'Accept-Language': 'nl',
-          'Cache-Control': 'no-cache',
-          'Ocp-Apim-Subscription-Key': apiKey,
-          'Pragma': 'no-cache',
-          'X-Caller-Id': 'NS Web',
-          'X-Caller-Version': 'rio-frontends-20250618.14',
-          'X-Request-Id': `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      const result = await loadVirtualTrain(trainNumber, stationCode, dateTime as string, requestId);
+      console.log("NS Virtual Train API Response:", JSON.stringify(result.value, null, 2).substring(0, 300) + "...");
+      setCacheHeaders(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching train details:", error);
+      sendGatewayError(res, error, "Failed to fetch train details");
+    }
+  });
+
+  // Compositions for many legs in one round trip
+  app.post("/api/trains/batch", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const { legs } = TrainBatchRequestSchema.parse(req.body);
+
+      // One lookup per legKey; the first dateTime seen for a key wins
+      const unique = new Map<string, (typeof legs)[number]>();
+      for (const leg of legs) {
+        const key = legKey(leg.trainNumber, leg.stationCode);
+        if (!unique.has(key)) unique.set(key, leg);
+      }
+
+      const response: TrainBatchResponse = { trains: {}, errors: {} };
+      await mapWithConcurrency(Array.from(unique.entries()), BATCH_CONCURRENCY, async ([key, leg]) => {
+        try {
+          const result = await loadVirtualTrain(leg.trainNumber, leg.stationCode, leg.dateTime, requestId);
+          response.trains[key] = result.value;
+        } catch (error) {
+          response.errors[key] = error instanceof Error ? error.message : String(error);
+        }
+      });
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching train batch:", error);
+      sendGatewayError(res, error, "Failed to fetch train details");
+    }
+  });
+
+  // Fallback plans for all transfers of a trip, in case a connection is missed
+  app.post("/api/trips/fallbacks", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const { transfers } = FallbackBatchRequestSchema.parse(req.body);
+
+      const unique = new Map(transfers.map((item) => [fallbackKey(item), item]));
+      const response: FallbackBatchResponse = { plans: {}, errors: {} };
+      await mapWithConcurrency(Array.from(unique.entries()), BATCH_CONCURRENCY, async ([key, item]) => {
+        try {
+          const result = await fallbackCache.get(key, async () => {
+            const trips = await planTrips(fallbackSearch(item), requestId);
+            return pickFallback(trips.value?.trips || [], item);
+          });
+          response.plans[key] = result.value;
+        } catch (error) {
+          response.errors[key] = error instanceof Error ? error.message : String(error);
         }
       });
 
-      if (!response.ok) {
-        throw new Error(`NS Virtual Train API responded with status ${response.status}: ${response.statusText}`);
+      res.json(response);
+    } catch (error) {
+      console.error("Error planning fallbacks:", error);
+      sendGatewayError(res, error, "Failed to plan fallbacks");
+    }
+  });
+
+  // Station/POI/address autocomplete through the NS Places API
+  app.get("/api/places", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q : "";
+      if (query.trim().length < 2) {
+        return res.json([]);
       }
 
-      const data = await response.json();
-      console.log("NS Virtual Train API Response:", JSON.stringify(data, null, 2).substring(0, 300) + "...");
-      res.json(data);
+      res.json(await lookupPlaces(query, requestId));
     } catch (error) {
-      console.error("Error fetching train details:", error);
-      res.status(500).json({ 
-        error: "Failed to fetch train details", 
-        details: error instanceof Error ? error.message : String(error) 
+      console.error("Error searching places:", error);
+      sendGatewayError(res, error, "Failed to search places");
+    }
+  });
+
+  // Resolve a location name to coordinates (exact name match)
+  app.get("/api/places/resolve", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const name = typeof req.query.name === "string" ? req.query.name : "";
+      if (!name.trim()) {
+        return res.status(400).json({ error: "Missing required parameter: name" });
+      }
+
+      const places = await lookupPlaces(name, requestId);
+      res.json({ query: name, place: resolvePlace(places, name) });
+    } catch (error) {
+      console.error("Error resolving place:", error);
+      sendGatewayError(res, error, "Failed to resolve place");
+    }
+  });
+
+  // Departure/arrival board for one station
+  app.get("/api/stations/:code/:kind", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const kind = BoardKindSchema.parse(req.params.kind);
+      const stationCode = req.params.code.trim().toUpperCase();
+
+      const result = await boardCache.get(cacheKey({ stationCode, kind }), async () =>
+        normalizeStationBoard(await nsGateway.getStationBoard(kind, stationCode, { requestId }), stationCode, kind),
+      );
+      setCacheHeaders(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching station board:", error);
+      sendGatewayError(res, error, "Failed to fetch station board");
+    }
+  });
+
+  // Active disruptions affecting any of ?stations= (comma separated UIC or station
+  // codes). The feed covers the whole network, so it is cached once and filtered per route.
+  app.get("/api/disruptions", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const stations = String(req.query.stations || "")
+        .split(",")
+        .map((code) => code.trim())
+        .filter(Boolean);
+
+      const result = await disruptionsCache.get("active", async () =>
+        normalizeDisruptions(await nsGateway.getDisruptions({ requestId })),
+      );
+      setCacheHeaders(res, result);
+
+      const response: DisruptionsResponse = {
+        disruptions: stations.length > 0 ? disruptionsForStations(result.value, stations) : result.value,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching disruptions:", error);
+      sendGatewayError(res, error, "Failed to fetch disruptions");
+    }
+  });
+
+  // Subscribable commute calendar (see server/commuteFeed.ts). The token in the
+  // URL is the only credential: calendar apps don't carry our session cookie.
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    const requestId = requestIdFor(req, res);
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ error: "Calendar not found", message: "This calendar link is no longer valid" });
+      }
+
+      const days = Math.min(Math.max(parseInt(String(req.query.days)) || DEFAULT_FEED_DAYS, 1), MAX_FEED_DAYS);
+      const routes = await storage.listSavedRoutes(user.id);
+      const events = await commuteEvents(routes, days, async (search) => {
+        const result = await commuteCache.get(cacheKey({ ...search }), async () => {
+          const trips = await planTrips(search, requestId);
+          return (trips.value?.trips || []) as Trip[];
+        });
+        return result.value;
       });
+
+      res.setHeader("content-type", "text/calendar; charset=utf-8");
+      res.setHeader("cache-control", "no-cache");
+      res.send(calendarToIcs(events, { name: "NS commutes", refreshMinutes: COMMUTE_FEED_REFRESH_MINUTES }));
+    } catch (error) {
+      console.error("Error building commute calendar:", error);
+      sendGatewayError(res, error, "Failed to build commute calendar");
     }
   });
 
@@ -0,0 +1,261 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { type Trip, type TripSearch } from "@shared/schema";
+import { DatabaseStorage, MemStorage, StorageConflictError, type IStorage } from "./storage";
+import { createDb } from "./db";
+
+// One behavioural suite, run against every IStorage implementation.
+// The Postgres run needs an empty database with the tables pushed:
+//   DATABASE_URL=postgres://localhost/ns_test npm run db:push
+//   TEST_DATABASE_URL=postgres://localhost/ns_test npm test
+
+interface StorageHarness {
+  // Fresh, empty storage for each test
+  reset(): Promise<IStorage>;
+  close?(): Promise<void>;
+}
+
+const search: TripSearch = {
+  fromStation: "Den Haag HS",
+  toStation: "Eindhoven Centraal",
+  dateTime: "2025-08-01T08:45",
+  searchForArrival: false,
+  excludeBus: false,
+  excludeTram: false,
+  excludeMetro: false,
+  walkingOnly: false,
+  travelClass: "2",
+  discount: "NO_DISCOUNT",
+  product: "OVCHIPKAART_ENKELE_REIS",
+};
+
+const { fromStation, toStation, dateTime, ...options } = search;
+
+const fixtureTrip = (): Trip =>
+  JSON.parse(fs.readFileSync(path.resolve(process.cwd(), "server", "fixtures", "ns", "trips", "default.json"), "utf-8")).body.trips[0];
+
+function describeStorage(name: string, harness: StorageHarness | null) {
+  describe(`${name} storage`, { skip: harness ? false : "TEST_DATABASE_URL not set" }, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await harness!.reset();
+    });
+
+    after(async () => {
+      await harness?.close?.();
+    });
+
+    const createUser = (username = "reiziger") => storage.createUser({ username, password: "hashed-password" });
+
+    describe("users", () => {
+      it("creates users and finds them by id and username", async () => {
+        const user = await createUser();
+        assert.equal(user.username, "reiziger");
+        assert.ok(user.id);
+        assert.ok(user.createdAt instanceof Date);
+        assert.deepEqual(await storage.getUser(user.id), user);
+        assert.deepEqual(await storage.getUserByUsername("reiziger"), user);
+      });
+
+      it("returns undefined for unknown users", async () => {
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+      });
+
+      it("rejects a username that is already taken", async () => {
+        await createUser();
+        await assert.rejects(createUser(), StorageConflictError);
+      });
+
+      it("finds users by calendar token until the token is cleared", async () => {
+        const user = await createUser();
+        assert.equal(user.calendarToken, null);
+        await storage.setCalendarToken(user.id, "feed-token");
+        assert.equal((await storage.getUserByCalendarToken("feed-token"))?.id, user.id);
+
+        await storage.setCalendarToken(user.id, null);
+        assert.equal(await storage.getUserByCalendarToken("feed-token"), undefined);
+      });
+    });
+
+    describe("saved routes", () => {
+      it("creates routes, not favourite by default", async () => {
+        const user = await createUser();
+        const route = await storage.createSavedRoute({ userId: user.id, name: "Werk", fromStation, toStation, options });
+        assert.equal(route.isFavourite, false);
+        assert.deepEqual(route.commuteDays, []);
+        assert.equal(route.commuteTime, null);
+        assert.deepEqual(route.options, options);
+        assert.deepEqual(await storage.getSavedRoute(route.id), route);
+      });
+
+      it("lists only the user's own routes, newest first", async () => {
+        const user = await createUser();
+        const other = await createUser("ander");
+        const first = await storage.createSavedRoute({ userId: user.id, name: "Werk", fromStation, toStation, options });
+        const second = await storage.createSavedRoute({ userId: user.id, name: "Thuis", fromStation: toStation, toStation: fromStation, options });
+        await storage.createSavedRoute({ userId: other.id, name: "Elders", fromStation, toStation, options });
+
+        const routes = await storage.listSavedRoutes(user.id);
+        assert.deepEqual(routes.map((route) => route.id), [second.id, first.id]);
+      });
+
+      it("updates only the given fields", async () => {
+        const user = await createUser();
+        const route = await storage.createSavedRoute({ userId: user.id, name: "Werk", fromStation, toStation, options });
+        const updated = await storage.updateSavedRoute(route.id, { isFavourite: true, name: undefined });
+        assert.equal(updated?.isFavourite, true);
+        assert.equal(updated?.name, "Werk");
+        assert.equal(await storage.updateSavedRoute("00000000-0000-0000-0000-000000000000", { name: "x" }), undefined);
+      });
+
+      it("stores a commute schedule", async () => {
+        const user = await createUser();
+        const route = await storage.createSavedRoute({
+          userId: user.id, name: "Werk", fromStation, toStation, options, commuteDays: [1, 2, 3, 4, 5], commuteTime: "08:10",
+        });
+        assert.deepEqual((await storage.getSavedRoute(route.id))?.commuteDays, [1, 2, 3, 4, 5]);
+        const updated = await storage.updateSavedRoute(route.id, { commuteDays: [], commuteTime: null });
+        assert.equal(updated?.commuteTime, null);
+      });
+
+      it("deletes routes once", async () => {
+        const user = await createUser();
+        const route = await storage.createSavedRoute({ userId: user.id, name: "Werk", fromStation, toStation, options });
+        assert.equal(await storage.deleteSavedRoute(route.id), true);
+        assert.equal(await storage.deleteSavedRoute(route.id), false);
+        assert.equal(await storage.getSavedRoute(route.id), undefined);
+      });
+    });
+
+    describe("search history", () => {
+      it("lists the user's searches newest first, up to the limit", async () => {
+        const user = await createUser();
+        for (const to of ["Utrecht Centraal", "Breda", "Tilburg"]) {
+          await storage.addSearchHistory({ userId: user.id, fromStation, toStation: to, search: { ...search, toStation: to } });
+        }
+
+        const history = await storage.listSearchHistory(user.id, 2);
+        assert.deepEqual(history.map((entry) => entry.toStation), ["Tilburg", "Breda"]);
+        assert.equal(history[0].search.toStation, "Tilburg");
+      });
+
+      it("clears one user's history only", async () => {
+        const user = await createUser();
+        const other = await createUser("ander");
+        await storage.addSearchHistory({ userId: user.id, fromStation, toStation, search });
+        await storage.addSearchHistory({ userId: user.id, fromStation, toStation, search });
+        await storage.addSearchHistory({ userId: other.id, fromStation, toStation, search });
+
+        assert.equal(await storage.clearSearchHistory(user.id), 2);
+        assert.equal((await storage.listSearchHistory(user.id)).length, 0);
+        assert.equal((await storage.listSearchHistory(other.id)).length, 1);
+      });
+    });
+
+    describe("favourite stations", () => {
+      it("adds each station once per user", async () => {
+        const user = await createUser();
+        const other = await createUser("ander");
+        await storage.addFavouriteStation({ userId: user.id, name: "Utrecht Centraal" });
+        await storage.addFavouriteStation({ userId: user.id, name: "Breda" });
+        await storage.addFavouriteStation({ userId: other.id, name: "Utrecht Centraal" });
+
+        await assert.rejects(storage.addFavouriteStation({ userId: user.id, name: "Breda" }), StorageConflictError);
+        assert.deepEqual((await storage.listFavouriteStations(user.id)).map((station) => station.name), ["Breda", "Utrecht Centraal"]);
+      });
+
+      it("removes one user's station only", async () => {
+        const user = await createUser();
+        const other = await createUser("ander");
+        await storage.addFavouriteStation({ userId: user.id, name: "Breda" });
+        await storage.addFavouriteStation({ userId: other.id, name: "Breda" });
+
+        assert.equal(await storage.removeFavouriteStation(user.id, "Breda"), true);
+        assert.equal(await storage.removeFavouriteStation(user.id, "Breda"), false);
+        assert.equal((await storage.listFavouriteStations(other.id)).length, 1);
+      });
+    });
+
+    describe("trip snapshots", () => {
+      it("returns the latest snapshot of a trip", async () => {
+        const trip = fixtureTrip();
+        await storage.saveTripSnapshot({ ctxRecon: trip.ctxRecon, trip });
+        const latest = await storage.saveTripSnapshot({ ctxRecon: trip.ctxRecon, trip: { ...trip, status: "DISRUPTION" } });
+
+        const snapshot = await storage.getLatestTripSnapshot(trip.ctxRecon);
+        assert.equal(snapshot?.id, latest.id);
+        assert.equal(snapshot?.trip.status, "DISRUPTION");
+        assert.equal(await storage.getLatestTripSnapshot("unknown"), undefined);
+      });
+
+      it("prunes snapshots captured before a given time", async () => {
+        const trip = fixtureTrip();
+        const old = await storage.saveTripSnapshot({ ctxRecon: trip.ctxRecon, trip });
+        const cutoff = new Date(old.capturedAt.getTime() + 1);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const recent = await storage.saveTripSnapshot({ ctxRecon: trip.ctxRecon, trip });
+
+        assert.equal(await storage.pruneTripSnapshots(cutoff), 1);
+        assert.equal((await storage.getLatestTripSnapshot(trip.ctxRecon))?.id, recent.id);
+        assert.equal(await storage.pruneTripSnapshots(cutoff), 0);
+      });
+    });
+
+    describe("monitors", () => {
+      it("creates active monitors that have not been checked yet", async () => {
+        const user = await createUser();
+        const monitor = await storage.createMonitor({ userId: user.id, ctxRecon: "ctx-1", label: "Morning train" });
+        assert.equal(monitor.active, true);
+        assert.equal(monitor.lastCheckedAt, null);
+        assert.deepEqual(await storage.listMonitors(user.id), [monitor]);
+      });
+
+      it("lists active monitors of all users", async () => {
+        const user = await createUser();
+        const other = await createUser("ander");
+        const active = await storage.createMonitor({ userId: user.id, ctxRecon: "ctx-1", label: "Morning train" });
+        const paused = await storage.createMonitor({ userId: other.id, ctxRecon: "ctx-2", label: "Evening train" });
+        await storage.updateMonitor(paused.id, { active: false });
+
+        assert.deepEqual((await storage.listActiveMonitors()).map((monitor) => monitor.id), [active.id]);
+      });
+
+      it("records checks and deletes monitors", async () => {
+        const user = await createUser();
+        const monitor = await storage.createMonitor({ userId: user.id, ctxRecon: "ctx-1", label: "Morning train" });
+        const checkedAt = new Date("2025-08-01T06:50:00.000Z");
+
+        const updated = await storage.updateMonitor(monitor.id, { lastCheckedAt: checkedAt });
+        assert.equal(updated?.lastCheckedAt?.toISOString(), checkedAt.toISOString());
+        assert.equal(await storage.deleteMonitor(monitor.id), true);
+        assert.equal(await storage.getMonitor(monitor.id), undefined);
+      });
+    });
+  });
+}
+
+describeStorage("in-memory", {
+  reset: async () => new MemStorage(),
+});
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+const database = testDatabaseUrl ? createDb(testDatabaseUrl) : null;
+
+describeStorage("Postgres", database && {
+  reset: async () => {
+    await database.pool.query(
+      "TRUNCATE users, saved_routes, search_history, favourite_stations, trip_snapshots, monitors RESTART IDENTITY CASCADE",
+    );
+    return new DatabaseStorage(database.db);
+  },
+  close: () => database.pool.end(),
+});
+
+before(() => {
+  if (!database) {
+    console.log("TEST_DATABASE_URL not set, running the in-memory storage suite only");
+  }
+});
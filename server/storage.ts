@@ -1,21 +1,96 @@
-import { type User, type InsertUser } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, desc, eq, lt } from "drizzle-orm";
+import {
+  type FavouriteStation,
+  type InsertUser,
+  type SavedRoute,
+  type SavedRoutePatch,
+  type SearchHistoryEntry,
+  type User,
+} from "@shared/schema";
+import {
+  favouriteStations,
+  monitors,
+  savedRoutes,
+  searchHistory,
+  tripSnapshots,
+  users,
+  type InsertFavouriteStation,
+  type InsertMonitor,
+  type InsertSavedRoute,
+  type InsertSearchHistoryEntry,
+  type InsertTripSnapshot,
+  type Monitor,
+  type TripSnapshot,
+} from "@shared/tables";
+import { database, type Db } from "./db";
 
-// modify the interface with any CRUD methods
-// you might need
+export type MonitorPatch = Partial<Pick<Monitor, "label" | "active" | "lastCheckedAt">>;
 
+// Every list is newest first. Lookups by id return undefined rather than throwing,
+// so routes can answer 404; ownership checks are up to the caller.
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Throws StorageConflictError when the username is taken
   createUser(user: InsertUser): Promise<User>;
-}
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  // null turns the calendar feed off
+  setCalendarToken(userId: string, token: string | null): Promise<User | undefined>;
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+  listSavedRoutes(userId: string): Promise<SavedRoute[]>;
+  getSavedRoute(id: string): Promise<SavedRoute | undefined>;
+  createSavedRoute(route: InsertSavedRoute): Promise<SavedRoute>;
+  updateSavedRoute(id: string, patch: SavedRoutePatch): Promise<SavedRoute | undefined>;
+  deleteSavedRoute(id: string): Promise<boolean>;
+
+  addSearchHistory(entry: InsertSearchHistoryEntry): Promise<SearchHistoryEntry>;
+  listSearchHistory(userId: string, limit?: number): Promise<SearchHistoryEntry[]>;
+  // Returns the number of entries removed
+  clearSearchHistory(userId: string): Promise<number>;
+
+  listFavouriteStations(userId: string): Promise<FavouriteStation[]>;
+  // Throws StorageConflictError when the user already has this station
+  addFavouriteStation(station: InsertFavouriteStation): Promise<FavouriteStation>;
+  removeFavouriteStation(userId: string, name: string): Promise<boolean>;
 
-  constructor() {
-    this.users = new Map();
+  saveTripSnapshot(snapshot: InsertTripSnapshot): Promise<TripSnapshot>;
+  getLatestTripSnapshot(ctxRecon: string): Promise<TripSnapshot | undefined>;
+  // Deletes snapshots captured before the given time; returns how many
+  pruneTripSnapshots(capturedBefore: Date): Promise<number>;
+
+  listMonitors(userId: string): Promise<Monitor[]>;
+  listActiveMonitors(): Promise<Monitor[]>;
+  getMonitor(id: string): Promise<Monitor | undefined>;
+  createMonitor(monitor: InsertMonitor): Promise<Monitor>;
+  updateMonitor(id: string, patch: MonitorPatch): Promise<Monitor | undefined>;
+  deleteMonitor(id: string): Promise<boolean>;
+}
+
+// A unique constraint was violated, e.g. a username that is already taken
+export class StorageConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConflictError";
   }
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// Newest first; entries created in the same millisecond keep reverse insertion order
+function newestFirst<T>(items: Iterable<T>, time: (item: T) => Date): T[] {
+  return Array.from(items).reverse().sort((a, b) => time(b).getTime() - time(a).getTime());
+}
+
+// In-memory storage for development without a database and for tests
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private savedRoutes = new Map<string, SavedRoute>();
+  private searchHistory: SearchHistoryEntry[] = [];
+  private favouriteStations: FavouriteStation[] = [];
+  private tripSnapshots: TripSnapshot[] = [];
+  private monitors = new Map<string, Monitor>();
+  private nextSerial = 1;
 
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -28,11 +103,338 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new StorageConflictError(`Username "${insertUser.username}" is already taken`);
+    }
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, calendarToken: null, createdAt: new Date() };
     this.users.set(id, user);
     return user;
   }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.calendarToken === token);
+  }
+
+  async setCalendarToken(userId: string, token: string | null): Promise<User | undefined> {
+    const existing = this.users.get(userId);
+    if (!existing) return undefined;
+    const updated: User = { ...existing, calendarToken: token };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async listSavedRoutes(userId: string): Promise<SavedRoute[]> {
+    const own = Array.from(this.savedRoutes.values()).filter((route) => route.userId === userId);
+    return newestFirst(own, (route) => route.createdAt);
+  }
+
+  async getSavedRoute(id: string): Promise<SavedRoute | undefined> {
+    return this.savedRoutes.get(id);
+  }
+
+  async createSavedRoute(insertRoute: InsertSavedRoute): Promise<SavedRoute> {
+    const route: SavedRoute = {
+      ...insertRoute,
+      isFavourite: insertRoute.isFavourite ?? false,
+      commuteDays: insertRoute.commuteDays ?? [],
+      commuteTime: insertRoute.commuteTime ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.savedRoutes.set(route.id, route);
+    return route;
+  }
+
+  async updateSavedRoute(id: string, patch: SavedRoutePatch): Promise<SavedRoute | undefined> {
+    const existing = this.savedRoutes.get(id);
+    if (!existing) return undefined;
+    const updated: SavedRoute = { ...existing, ...withoutUndefined(patch) };
+    this.savedRoutes.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedRoute(id: string): Promise<boolean> {
+    return this.savedRoutes.delete(id);
+  }
+
+  async addSearchHistory(insertEntry: InsertSearchHistoryEntry): Promise<SearchHistoryEntry> {
+    const entry: SearchHistoryEntry = { ...insertEntry, id: this.nextSerial++, searchedAt: new Date() };
+    this.searchHistory.push(entry);
+    return entry;
+  }
+
+  async listSearchHistory(userId: string, limit: number = DEFAULT_HISTORY_LIMIT): Promise<SearchHistoryEntry[]> {
+    const own = this.searchHistory.filter((entry) => entry.userId === userId);
+    return newestFirst(own, (entry) => entry.searchedAt).slice(0, limit);
+  }
+
+  async clearSearchHistory(userId: string): Promise<number> {
+    const before = this.searchHistory.length;
+    this.searchHistory = this.searchHistory.filter((entry) => entry.userId !== userId);
+    return before - this.searchHistory.length;
+  }
+
+  async listFavouriteStations(userId: string): Promise<FavouriteStation[]> {
+    const own = this.favouriteStations.filter((station) => station.userId === userId);
+    return newestFirst(own, (station) => station.createdAt);
+  }
+
+  async addFavouriteStation(insertStation: InsertFavouriteStation): Promise<FavouriteStation> {
+    const taken = this.favouriteStations.some(
+      (station) => station.userId === insertStation.userId && station.name === insertStation.name,
+    );
+    if (taken) {
+      throw new StorageConflictError(`"${insertStation.name}" is already a favourite`);
+    }
+    const station: FavouriteStation = { ...insertStation, id: this.nextSerial++, createdAt: new Date() };
+    this.favouriteStations.push(station);
+    return station;
+  }
+
+  async removeFavouriteStation(userId: string, name: string): Promise<boolean> {
+    const before = this.favouriteStations.length;
+    this.favouriteStations = this.favouriteStations.filter(
+      (station) => station.userId !== userId || station.name !== name,
+    );
+    return this.favouriteStations.length < before;
+  }
+
+  async saveTripSnapshot(insertSnapshot: InsertTripSnapshot): Promise<TripSnapshot> {
+    const snapshot: TripSnapshot = { ...insertSnapshot, id: this.nextSerial++, capturedAt: new Date() };
+    this.tripSnapshots.push(snapshot);
+    return snapshot;
+  }
+
+  async getLatestTripSnapshot(ctxRecon: string): Promise<TripSnapshot | undefined> {
+    const own = this.tripSnapshots.filter((snapshot) => snapshot.ctxRecon === ctxRecon);
+    return newestFirst(own, (snapshot) => snapshot.capturedAt)[0];
+  }
+
+  async pruneTripSnapshots(capturedBefore: Date): Promise<number> {
+    const before = this.tripSnapshots.length;
+    this.tripSnapshots = this.tripSnapshots.filter((snapshot) => snapshot.capturedAt >= capturedBefore);
+    return before - this.tripSnapshots.length;
+  }
+
+  async listMonitors(userId: string): Promise<Monitor[]> {
+    const own = Array.from(this.monitors.values()).filter((monitor) => monitor.userId === userId);
+    return newestFirst(own, (monitor) => monitor.createdAt);
+  }
+
+  async listActiveMonitors(): Promise<Monitor[]> {
+    return newestFirst(
+      Array.from(this.monitors.values()).filter((monitor) => monitor.active),
+      (monitor) => monitor.createdAt,
+    );
+  }
+
+  async getMonitor(id: string): Promise<Monitor | undefined> {
+    return this.monitors.get(id);
+  }
+
+  async createMonitor(insertMonitor: InsertMonitor): Promise<Monitor> {
+    const monitor: Monitor = {
+      ...insertMonitor,
+      active: insertMonitor.active ?? true,
+      id: randomUUID(),
+      createdAt: new Date(),
+      lastCheckedAt: null,
+    };
+    this.monitors.set(monitor.id, monitor);
+    return monitor;
+  }
+
+  async updateMonitor(id: string, patch: MonitorPatch): Promise<Monitor | undefined> {
+    const existing = this.monitors.get(id);
+    if (!existing) return undefined;
+    const updated: Monitor = { ...existing, ...withoutUndefined(patch) };
+    this.monitors.set(id, updated);
+    return updated;
+  }
+
+  async deleteMonitor(id: string): Promise<boolean> {
+    return this.monitors.delete(id);
+  }
+}
+
+// A patch field that is undefined means "leave as is", like drizzle's .set()
+function withoutUndefined<T extends object>(patch: T): Partial<T> {
+  return Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// Postgres error code for unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+// Postgres storage for deployments, selected by DATABASE_URL
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Db) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new StorageConflictError(`Username "${insertUser.username}" is already taken`);
+      }
+      throw error;
+    }
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
+  async setCalendarToken(userId: string, token: string | null): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ calendarToken: token }).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async listSavedRoutes(userId: string): Promise<SavedRoute[]> {
+    return this.db.select().from(savedRoutes)
+      .where(eq(savedRoutes.userId, userId))
+      .orderBy(desc(savedRoutes.createdAt));
+  }
+
+  async getSavedRoute(id: string): Promise<SavedRoute | undefined> {
+    const [route] = await this.db.select().from(savedRoutes).where(eq(savedRoutes.id, id));
+    return route;
+  }
+
+  async createSavedRoute(insertRoute: InsertSavedRoute): Promise<SavedRoute> {
+    const [route] = await this.db.insert(savedRoutes).values(insertRoute).returning();
+    return route;
+  }
+
+  async updateSavedRoute(id: string, patch: SavedRoutePatch): Promise<SavedRoute | undefined> {
+    const changes = withoutUndefined(patch);
+    if (Object.keys(changes).length === 0) return this.getSavedRoute(id);
+    const [route] = await this.db.update(savedRoutes).set(changes).where(eq(savedRoutes.id, id)).returning();
+    return route;
+  }
+
+  async deleteSavedRoute(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(savedRoutes).where(eq(savedRoutes.id, id)).returning({ id: savedRoutes.id });
+    return deleted.length > 0;
+  }
+
+  async addSearchHistory(insertEntry: InsertSearchHistoryEntry): Promise<SearchHistoryEntry> {
+    const [entry] = await this.db.insert(searchHistory).values(insertEntry).returning();
+    return entry;
+  }
+
+  async listSearchHistory(userId: string, limit: number = DEFAULT_HISTORY_LIMIT): Promise<SearchHistoryEntry[]> {
+    return this.db.select().from(searchHistory)
+      .where(eq(searchHistory.userId, userId))
+      .orderBy(desc(searchHistory.searchedAt), desc(searchHistory.id))
+      .limit(limit);
+  }
+
+  async clearSearchHistory(userId: string): Promise<number> {
+    const deleted = await this.db.delete(searchHistory)
+      .where(eq(searchHistory.userId, userId))
+      .returning({ id: searchHistory.id });
+    return deleted.length;
+  }
+
+  async listFavouriteStations(userId: string): Promise<FavouriteStation[]> {
+    return this.db.select().from(favouriteStations)
+      .where(eq(favouriteStations.userId, userId))
+      .orderBy(desc(favouriteStations.createdAt), desc(favouriteStations.id));
+  }
+
+  async addFavouriteStation(insertStation: InsertFavouriteStation): Promise<FavouriteStation> {
+    try {
+      const [station] = await this.db.insert(favouriteStations).values(insertStation).returning();
+      return station;
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new StorageConflictError(`"${insertStation.name}" is already a favourite`);
+      }
+      throw error;
+    }
+  }
+
+  async removeFavouriteStation(userId: string, name: string): Promise<boolean> {
+    const deleted = await this.db.delete(favouriteStations)
+      .where(and(eq(favouriteStations.userId, userId), eq(favouriteStations.name, name)))
+      .returning({ id: favouriteStations.id });
+    return deleted.length > 0;
+  }
+
+  async saveTripSnapshot(insertSnapshot: InsertTripSnapshot): Promise<TripSnapshot> {
+    const [snapshot] = await this.db.insert(tripSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async getLatestTripSnapshot(ctxRecon: string): Promise<TripSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(tripSnapshots)
+      .where(eq(tripSnapshots.ctxRecon, ctxRecon))
+      .orderBy(desc(tripSnapshots.capturedAt), desc(tripSnapshots.id))
+      .limit(1);
+    return snapshot;
+  }
+
+  async pruneTripSnapshots(capturedBefore: Date): Promise<number> {
+    const deleted = await this.db.delete(tripSnapshots)
+      .where(lt(tripSnapshots.capturedAt, capturedBefore))
+      .returning({ id: tripSnapshots.id });
+    return deleted.length;
+  }
+
+  async listMonitors(userId: string): Promise<Monitor[]> {
+    return this.db.select().from(monitors)
+      .where(eq(monitors.userId, userId))
+      .orderBy(desc(monitors.createdAt));
+  }
+
+  async listActiveMonitors(): Promise<Monitor[]> {
+    return this.db.select().from(monitors)
+      .where(eq(monitors.active, true))
+      .orderBy(desc(monitors.createdAt));
+  }
+
+  async getMonitor(id: string): Promise<Monitor | undefined> {
+    const [monitor] = await this.db.select().from(monitors).where(eq(monitors.id, id));
+    return monitor;
+  }
+
+  async createMonitor(insertMonitor: InsertMonitor): Promise<Monitor> {
+    const [monitor] = await this.db.insert(monitors).values(insertMonitor).returning();
+    return monitor;
+  }
+
+  async updateMonitor(id: string, patch: MonitorPatch): Promise<Monitor | undefined> {
+    const changes = withoutUndefined(patch);
+    if (Object.keys(changes).length === 0) return this.getMonitor(id);
+    const [monitor] = await this.db.update(monitors).set(changes).where(eq(monitors.id, id)).returning();
+    return monitor;
+  }
+
+  async deleteMonitor(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(monitors).where(eq(monitors.id, id)).returning({ id: monitors.id });
+    return deleted.length > 0;
+  }
+}
+
+function createStorage(): IStorage {
+  if (!database) {
+    console.log("DATABASE_URL not set, keeping users and saved data in memory");
+    return new MemStorage();
+  }
+  return new DatabaseStorage(database.db);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
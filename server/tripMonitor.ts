@@ -0,0 +1,161 @@
+import { type Leg, type Trip, type TripChange, type TripUpdate } from "@shared/schema";
+import {
+  diffCarriageCounts,
+  diffTrips,
+  legCompositionKey,
+  tripFinishedBefore,
+  type CarriageCounts,
+} from "@shared/tripChanges";
+import { type FareSelection } from "@shared/fares";
+import { tripFareKey } from "@shared/nsGateway";
+import { mapWithConcurrency } from "./gateway";
+import { type IStorage } from "./storage";
+
+// Live updates for trips on screen. Each watched trip is polled upstream on one
+// schedule, however many clients follow it; every poll that finds changes is
+// saved as a trip snapshot and pushed to the subscribers as a TripUpdate. A trip
+// followed with two fare selections is watched twice, since NS prices it per fare.
+
+export interface TripMonitorOptions {
+  loadTrip(ctxRecon: string, fare: FareSelection): Promise<Trip>;
+  // Carriages of the train on a leg, or null when NS has no composition for it
+  loadCarriageCount(leg: Leg): Promise<number | null>;
+  storage: Pick<IStorage, "saveTripSnapshot" | "pruneTripSnapshots">;
+  intervalMs: number;
+  // Trips polled at once, over all clients; NS is called for each of them
+  maxTrips: number;
+  // Snapshots older than this are deleted, at most once per PRUNE_INTERVAL_MS
+  snapshotRetentionMs: number;
+}
+
+export type TripUpdateListener = (update: TripUpdate) => void;
+
+interface WatchedTrip {
+  key: string;
+  ctxRecon: string;
+  fare: FareSelection;
+  listeners: Set<TripUpdateListener>;
+  latest: TripUpdate | null;
+  carriageCounts: CarriageCounts;
+  timer: NodeJS.Timeout | null;
+}
+
+// Compositions are looked up a few legs at a time
+const COMPOSITION_CONCURRENCY = 2;
+// Delays keep trickling in for a while after the planned arrival
+const FINISHED_GRACE_MS = 30 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class TripMonitor {
+  private watched = new Map<string, WatchedTrip>();
+  private lastPrunedAt = 0;
+
+  constructor(private options: TripMonitorOptions) {}
+
+  get size() {
+    return this.watched.size;
+  }
+
+  // Whether following these trips stays within maxTrips; trips already
+  // watched don't count again
+  canWatch(ctxRecons: string[], fare: FareSelection): boolean {
+    const added = new Set(ctxRecons.map((ctxRecon) => tripFareKey(ctxRecon, fare)).filter((key) => !this.watched.has(key)));
+    return this.watched.size + added.size <= this.options.maxTrips;
+  }
+
+  // Follow a trip; returns the unsubscribe function. A late subscriber gets the
+  // latest known state straight away, without changes.
+  subscribe(ctxRecon: string, fare: FareSelection, listener: TripUpdateListener): () => void {
+    const key = tripFareKey(ctxRecon, fare);
+    let watch = this.watched.get(key);
+    if (!watch) {
+      watch = { key, ctxRecon, fare, listeners: new Set(), latest: null, carriageCounts: {}, timer: null };
+      this.watched.set(key, watch);
+      this.poll(watch);
+    } else if (watch.latest) {
+      listener({ ...watch.latest, changes: [] });
+    }
+    watch.listeners.add(listener);
+
+    return () => {
+      watch!.listeners.delete(listener);
+      if (watch!.listeners.size === 0) {
+        this.stop(watch!);
+      }
+    };
+  }
+
+  private stop(watch: WatchedTrip) {
+    if (watch.timer) clearTimeout(watch.timer);
+    watch.timer = null;
+    this.watched.delete(watch.key);
+  }
+
+  private async loadCarriageCounts(trip: Trip): Promise<CarriageCounts> {
+    const counts: CarriageCounts = {};
+    const trainLegs = trip.legs.filter((leg) => !leg.cancelled && leg.travelType === "PUBLIC_TRANSIT");
+    await mapWithConcurrency(trainLegs, COMPOSITION_CONCURRENCY, async (leg) => {
+      const key = legCompositionKey(leg);
+      if (!key) return;
+      try {
+        const count = await this.options.loadCarriageCount(leg);
+        if (count) counts[key] = count;
+      } catch (error) {
+        console.warn(`Trip monitor could not load the composition for ${key}:`, error);
+      }
+    });
+    return counts;
+  }
+
+  private async pruneSnapshots() {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    try {
+      const pruned = await this.options.storage.pruneTripSnapshots(new Date(now - this.options.snapshotRetentionMs));
+      if (pruned > 0) console.log(`Trip monitor: pruned ${pruned} old trip snapshot(s)`);
+    } catch (error) {
+      console.warn("Trip monitor could not prune snapshots:", error);
+    }
+  }
+
+  private async poll(watch: WatchedTrip) {
+    try {
+      const trip = await this.options.loadTrip(watch.ctxRecon, watch.fare);
+      const carriageCounts = await this.loadCarriageCounts(trip);
+      // Unsubscribed while the upstream calls were running
+      if (this.watched.get(watch.key) !== watch) return;
+
+      const changes: TripChange[] = watch.latest
+        ? [
+            ...diffTrips(watch.latest.trip, trip),
+            ...diffCarriageCounts(trip, watch.carriageCounts, carriageCounts),
+          ]
+        : [];
+      const first = !watch.latest;
+
+      watch.latest = { ctxRecon: watch.ctxRecon, trip, changes, checkedAt: new Date().toISOString() };
+      watch.carriageCounts = { ...watch.carriageCounts, ...carriageCounts };
+
+      if (first || changes.length > 0) {
+        console.log(`Trip monitor: ${changes.length} change(s) for ${watch.ctxRecon.slice(0, 40)}...`);
+        watch.listeners.forEach((listener) => listener(watch.latest!));
+        await this.options.storage.saveTripSnapshot({ ctxRecon: watch.ctxRecon, trip }).catch((error) => {
+          console.warn("Trip monitor could not save a snapshot:", error);
+        });
+        await this.pruneSnapshots();
+      }
+
+      if (tripFinishedBefore(trip, new Date(Date.now() - FINISHED_GRACE_MS))) {
+        console.log(`Trip monitor: ${watch.ctxRecon.slice(0, 40)}... has arrived, no more polling`);
+        return;
+      }
+    } catch (error) {
+      console.warn(`Trip monitor poll failed for ${watch.ctxRecon.slice(0, 40)}...:`, error);
+    }
+
+    if (this.watched.get(watch.key) === watch) {
+      watch.timer = setTimeout(() => this.poll(watch), this.options.intervalMs);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { type Trip } from "./schema";
+import { amsterdamDateTime, calendarToIcs, tripToIcs, type CalendarEvent } from "./calendar";
+
+const fixtureTrip = (): Trip =>
+  JSON.parse(fs.readFileSync(path.resolve(process.cwd(), "server", "fixtures", "ns", "trips", "default.json"), "utf-8")).body.trips[0];
+
+// The fixture trip as one leg between the given times
+function tripBetween(departure: string, arrival: string): Trip {
+  const trip = fixtureTrip();
+  const leg = trip.legs[0];
+  return {
+    ...trip,
+    legs: [{
+      ...leg,
+      origin: { ...leg.origin, plannedDateTime: departure, actualDateTime: undefined },
+      destination: { ...leg.destination, plannedDateTime: arrival, actualDateTime: undefined },
+    }],
+  };
+}
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  uid: "test@ns-trip-planner",
+  start: "2025-08-01T09:00:00+0200",
+  end: "2025-08-01T10:00:00+0200",
+  summary: "Train",
+  ...overrides,
+});
+
+// Content lines with folding undone (RFC 5545 3.1)
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+// A property of the first event, not of the VTIMEZONE before it
+function property(ics: string, name: string): string | undefined {
+  const lines = unfold(ics);
+  return lines.slice(lines.indexOf("BEGIN:VEVENT")).find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+describe("calendar export", () => {
+  describe("amsterdamDateTime", () => {
+    it("follows the switch to summer time on the last Sunday of March", () => {
+      assert.equal(amsterdamDateTime("2025-03-30T00:59:00Z"), "20250330T015900");
+      assert.equal(amsterdamDateTime("2025-03-30T01:00:00Z"), "20250330T030000");
+    });
+
+    it("follows the switch back on the last Sunday of October", () => {
+      assert.equal(amsterdamDateTime("2025-10-26T00:59:00Z"), "20251026T025900");
+      assert.equal(amsterdamDateTime("2025-10-26T01:00:00Z"), "20251026T020000");
+    });
+  });
+
+  describe("trips across a daylight saving switch", () => {
+    it("writes both ends in Dutch wall clock time in March", () => {
+      // 01:30 CET to 03:30 CEST is one hour on the train
+      const ics = tripToIcs(tripBetween("2025-03-30T01:30:00+0100", "2025-03-30T03:30:00+0200"));
+      assert.equal(property(ics, "DTSTART"), "DTSTART;TZID=Europe/Amsterdam:20250330T013000");
+      assert.equal(property(ics, "DTEND"), "DTEND;TZID=Europe/Amsterdam:20250330T033000");
+    });
+
+    it("writes both ends in Dutch wall clock time in October", () => {
+      // 02:30 CEST to 02:30 CET is one hour on the train
+      const ics = tripToIcs(tripBetween("2025-10-26T02:30:00+0200", "2025-10-26T02:30:00+0100"));
+      assert.equal(property(ics, "DTSTART"), "DTSTART;TZID=Europe/Amsterdam:20251026T023000");
+      assert.equal(property(ics, "DTEND"), "DTEND;TZID=Europe/Amsterdam:20251026T023000");
+      assert.ok(unfold(ics).includes("RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU"));
+    });
+  });
+
+  it("escapes semicolons, commas, backslashes and newlines in text", () => {
+    const ics = calendarToIcs([event({ description: "Platform 5; change, then C:\\trains\nDone\r\nEnd" })]);
+    assert.equal(property(ics, "DESCRIPTION"), "DESCRIPTION:Platform 5\\; change\\, then C:\\\\trains\\nDone\\nEnd");
+  });
+
+  it("folds long lines at 75 octets without splitting a character", () => {
+    // "SUMMARY:" and 66 letters fill 74 octets; the 3-octet arrow doesn't fit after them
+    const summary = `${"A".repeat(66)}→${"B".repeat(40)} → ${"C".repeat(80)}`;
+    const ics = calendarToIcs([event({ summary })]);
+    const lines = ics.split("\r\n");
+    const start = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+
+    assert.equal(lines[start], `SUMMARY:${"A".repeat(66)}`);
+    assert.ok(lines[start + 1].startsWith(" →"));
+    for (const line of lines) {
+      assert.ok(Buffer.byteLength(line, "utf-8") <= 75, `${Buffer.byteLength(line, "utf-8")} octets: ${line}`);
+    }
+    assert.equal(property(ics, "SUMMARY"), `SUMMARY:${summary}`);
+  });
+});
@@ -0,0 +1,259 @@
+import { type Leg, type Station, type Trip } from "./schema";
+
+// iCalendar (RFC 5545) export of planned trips. Times are written as Dutch wall
+// clock time with TZID=Europe/Amsterdam and a matching VTIMEZONE, so calendars
+// show the right time on both sides of a daylight saving switch.
+
+export type TripEventMode = "trip" | "legs";
+
+export interface TripEventOptions {
+  // Current instead of planned times and platforms, with a status prefix on the summary
+  realtime?: boolean;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  location?: string;
+  description?: string;
+  url?: string;
+}
+
+const TIME_ZONE = "Europe/Amsterdam";
+const PRODUCT_ID = "-//NS Trip Planner//Trip export//EN";
+
+// Rules in force since 1996: last Sunday of March and of October
+const AMSTERDAM_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  `X-LIC-LOCATION:${TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+const amsterdamParts = new Intl.DateTimeFormat("en-GB", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+// 20250801T085400, Dutch local time
+export function amsterdamDateTime(dateTime: string): string {
+  const parts = amsterdamParts.formatToParts(new Date(dateTime));
+  const part = (type: string) => parts.find((candidate) => candidate.type === type)?.value || "00";
+  return `${part("year")}${part("month")}${part("day")}T${part("hour")}${part("minute")}${part("second")}`;
+}
+
+// 20250801T065400Z
+function utcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a UTF-8 character
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.map((part, index) => (index === 0 ? part : ` ${part}`));
+}
+
+// Short, stable UID part for a trip; NS trip uids are the full ctxRecon (300+ characters)
+function tripUid(trip: Trip): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < trip.uid.length; index++) {
+    hash = Math.imul(hash ^ trip.uid.charCodeAt(index), 0x01000193);
+  }
+  return `trip-${(hash >>> 0).toString(16)}`;
+}
+
+const formatTime = (dateTime: string) =>
+  new Date(dateTime).toLocaleTimeString("nl-NL", { timeZone: TIME_ZONE, hour: "2-digit", minute: "2-digit" });
+
+const minutesBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+export const trainName = (leg: Leg) => leg.name || `${leg.product.shortCategoryName} ${leg.product.number}`.trim();
+
+const withTrack = (name: string, track: string | undefined) => (track ? `${name}, platform ${track}` : name);
+
+// The time and platform to show for a station, planned or as they are now
+function stationTime(station: Station, realtime: boolean): string {
+  return realtime ? station.actualDateTime || station.plannedDateTime : station.plannedDateTime;
+}
+
+function stationTrack(station: Station, realtime: boolean): string | undefined {
+  return realtime ? station.actualTrack || station.plannedTrack : station.plannedTrack;
+}
+
+// "CANCELLED ", "DELAYED +7 " or nothing, for the start of an event summary
+export function tripStatusPrefix(trip: Trip): string {
+  if (trip.legs.some((leg) => leg.cancelled) || trip.status === "CANCELLED") return "CANCELLED ";
+  const first = trip.legs[0];
+  if (!first) return "";
+  const delay = minutesBetween(first.origin.plannedDateTime, stationTime(first.origin, true));
+  return delay > 0 ? `DELAYED +${delay} ` : "";
+}
+
+function legLines(leg: Leg, realtime: boolean): string[] {
+  return [
+    `${trainName(leg)} direction ${leg.direction}${leg.cancelled ? " (cancelled)" : ""}`,
+    `Depart ${formatTime(stationTime(leg.origin, realtime))} ${withTrack(leg.origin.name, stationTrack(leg.origin, realtime))}`,
+    `Arrive ${formatTime(stationTime(leg.destination, realtime))} ${withTrack(leg.destination.name, stationTrack(leg.destination, realtime))}`,
+  ];
+}
+
+function transferLine(arriving: Leg, departing: Leg, realtime: boolean): string {
+  const minutes = minutesBetween(stationTime(arriving.destination, realtime), stationTime(departing.origin, realtime));
+  const from = stationTrack(arriving.destination, realtime);
+  const to = stationTrack(departing.origin, realtime);
+  const tracks = from && to ? ` (platform ${from} to ${to})` : "";
+  return `Transfer at ${departing.origin.name}: ${minutes} min${tracks}`;
+}
+
+// One event for the whole journey, or one per leg with the transfer to the next leg
+export function tripEvents(trip: Trip, mode: TripEventMode = "trip", options: TripEventOptions = {}): CalendarEvent[] {
+  const first = trip.legs[0];
+  const last = trip.legs[trip.legs.length - 1];
+  if (!first || !last) return [];
+  const url = trip.shareUrl?.uri;
+  const realtime = options.realtime === true;
+  const prefix = realtime ? tripStatusPrefix(trip) : "";
+
+  if (mode === "legs") {
+    return trip.legs.map((leg, index) => {
+      const next = trip.legs[index + 1];
+      const lines = [
+        ...legLines(leg, realtime),
+        ...(next ? ["", transferLine(leg, next, realtime)] : []),
+        ...(url ? ["", url] : []),
+      ];
+      return {
+        uid: `${tripUid(trip)}-${leg.idx}@ns-trip-planner`,
+        start: stationTime(leg.origin, realtime),
+        end: stationTime(leg.destination, realtime),
+        summary: `${prefix}${trainName(leg)} to ${leg.destination.name}`,
+        location: withTrack(leg.origin.name, stationTrack(leg.origin, realtime)),
+        description: lines.join("\n"),
+        url,
+      };
+    });
+  }
+
+  const lines = trip.legs.flatMap((leg, index) => {
+    const next = trip.legs[index + 1];
+    return [...legLines(leg, realtime), ...(next ? [transferLine(leg, next, realtime)] : []), ""];
+  });
+  return [{
+    uid: `${tripUid(trip)}@ns-trip-planner`,
+    start: stationTime(first.origin, realtime),
+    end: stationTime(last.destination, realtime),
+    summary: `${prefix}Train ${first.origin.name} → ${last.destination.name}`,
+    location: withTrack(first.origin.name, stationTrack(first.origin, realtime)),
+    description: [...lines, ...(url ? [url] : [])].join("\n").trim(),
+    url,
+  }];
+}
+
+export interface CalendarOptions {
+  name?: string;
+  // Hint for subscribing clients how often to fetch the calendar again
+  refreshMinutes?: number;
+  now?: Date;
+}
+
+export function calendarToIcs(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const stamp = utcDateTime(options.now || new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`, `X-WR-TIMEZONE:${TIME_ZONE}`] : []),
+    ...(options.refreshMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`]
+      : []),
+    ...AMSTERDAM_VTIMEZONE,
+    ...events.flatMap((event) => [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${TIME_ZONE}:${amsterdamDateTime(event.start)}`,
+      `DTEND;TZID=${TIME_ZONE}:${amsterdamDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.flatMap(foldLine).join("\r\n") + "\r\n";
+}
+
+export function tripToIcs(trip: Trip, mode: TripEventMode = "trip"): string {
+  return calendarToIcs(tripEvents(trip, mode));
+}
+
+// trip-den-haag-hs-eindhoven-centraal-20250801.ics, or another extension for
+// the other export formats
+export function tripFileName(trip: Trip, extension: string): string {
+  const first = trip.legs[0];
+  const last = trip.legs[trip.legs.length - 1];
+  const slug = [first?.origin.name, last?.destination.name]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const date = first ? amsterdamDateTime(first.origin.plannedDateTime).slice(0, 8) : "";
+  return `trip-${[slug, date].filter(Boolean).join("-")}.${extension}`;
+}
+
+export function tripIcsFileName(trip: Trip): string {
+  return tripFileName(trip, "ics");
+}
@@ -0,0 +1,167 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { type PlatformFeature, type TrainPart } from "./schema";
+import { allocatePlatformFeatures, getPlatformLettersForCarriage, normalizeTrainComposition } from "./composition";
+
+const carriage = (index: number) => ({
+  afbeelding: { url: `https://vt.ns-mlab.nl/v1/images/virm/virm_${index}.png`, breedte: 100, hoogte: 30 },
+});
+
+// A trimmed Virtual Train answer: one VIRM part of two carriages at Utrecht
+const virtualTrain = {
+  station: "UT",
+  type: "VIRM",
+  vervoerder: "NS",
+  spoor: "19",
+  rijrichting: "RECHTS",
+  lengteInMeters: 162,
+  materieeldelen: [{
+    materieelnummer: 8733,
+    type: "VIRMm2 VI",
+    faciliteiten: ["WIFI", "TOILET"],
+    afbeelding: "https://vt.ns-mlab.nl/v1/images/virm.png",
+    breedte: 400,
+    zitplaatsen: { zitplaatsEersteKlas: 98, zitplaatsTweedeKlas: 464, fietsplekken: 6 },
+    bakken: [carriage(1), carriage(2)],
+  }],
+  perronVoorzieningen: [{ type: "PERRONLETTER", paddingLeft: 20, description: "A" }],
+};
+
+interface NormalizeCase {
+  name: string;
+  raw: unknown;
+  parts: number | null;
+  warns: boolean;
+}
+
+const normalizeCases: NormalizeCase[] = [
+  { name: "a composition", raw: virtualTrain, parts: 1, warns: false },
+  {
+    name: "fields NS sends as null or has added since",
+    raw: {
+      ...virtualTrain,
+      rijrichting: null,
+      spoor: null,
+      drukte: [{ klasse: 2 }],
+      materieeldelen: [{ ...virtualTrain.materieeldelen[0], zitplaatsen: null, bakken: [{ afbeelding: null }, carriage(2)] }],
+    },
+    parts: 1,
+    warns: false,
+  },
+  { name: "an error body", raw: { code: 404, message: "Trein niet gevonden" }, parts: null, warns: false },
+  { name: "no parts", raw: { ...virtualTrain, materieeldelen: [] }, parts: null, warns: false },
+  { name: "no answer", raw: null, parts: null, warns: false },
+  { name: "parts that are no list", raw: { ...virtualTrain, materieeldelen: "VIRM" }, parts: null, warns: true },
+];
+
+// A part drawn at twice the width of its three carriage images
+const part: TrainPart = {
+  materialNumber: 8733,
+  type: "VIRM",
+  facilities: [],
+  imageUrl: null,
+  width: 600,
+  seats: {
+    firstClass: 0,
+    secondClass: 0,
+    foldingFirstClass: 0,
+    foldingSecondClass: 0,
+    standingFirstClass: 0,
+    standingSecondClass: 0,
+    bicycleSpots: 0,
+  },
+  carriages: [100, 100, 100].map((width, index) => ({ imageUrl: `carriage-${index}.png`, width, height: 30 })),
+};
+
+const letter = (description: string, position: number): PlatformFeature => ({
+  type: "PERRONLETTER",
+  position,
+  width: 0,
+  description,
+});
+
+interface LettersCase {
+  name: string;
+  features: PlatformFeature[];
+  letters: [string | null, string | null][];
+}
+
+const lettersCases: LettersCase[] = [
+  {
+    // A at the very left of the first carriage, B a third into the second
+    name: "one letter per carriage, borrowing from the neighbours",
+    features: [letter("A", 20), letter("B", 260)],
+    letters: [["A", "B"], ["A", "B"], ["B", "B"]],
+  },
+  {
+    name: "two letters on a carriage",
+    features: [letter("B", 60), letter("C", 180)],
+    letters: [["B", "C"], ["B", "C"], ["B", "C"]],
+  },
+  {
+    name: "one letter mid-carriage, the one before it taken from the alphabet",
+    features: [letter("C", 300)],
+    letters: [["C", "C"], ["B", "C"], ["C", "C"]],
+  },
+  {
+    name: "no letters at all",
+    features: [{ type: "TRAP", position: 100, width: 20, description: "Stairs" }],
+    letters: [[null, null], [null, null], [null, null]],
+  },
+];
+
+describe("train composition", () => {
+  describe("normalizeTrainComposition", () => {
+    for (const testCase of normalizeCases) {
+      it(testCase.name, () => {
+        const warn = mock.method(console, "warn", () => {});
+        try {
+          const composition = normalizeTrainComposition(testCase.raw);
+          assert.equal(composition?.parts.length ?? null, testCase.parts);
+          assert.equal(warn.mock.callCount() > 0, testCase.warns);
+        } finally {
+          warn.mock.restore();
+        }
+      });
+    }
+  });
+
+  it("adds up seats and carriages over the parts", () => {
+    const composition = normalizeTrainComposition({
+      ...virtualTrain,
+      materieeldelen: [virtualTrain.materieeldelen[0], { ...virtualTrain.materieeldelen[0], materieelnummer: 8734, faciliteiten: ["WIFI", "STILTE"] }],
+    });
+
+    assert.equal(composition?.trainType, "VIRM");
+    assert.equal(composition?.direction, "RECHTS");
+    assert.equal(composition?.carriages.length, 4);
+    assert.equal(composition?.seats.firstClass, 196);
+    assert.equal(composition?.seats.secondClass, 928);
+    assert.equal(composition?.seats.bicycleSpots, 12);
+    assert.deepEqual(composition?.facilities, ["WIFI", "TOILET", "STILTE"]);
+    assert.deepEqual(composition?.platformFeatures, [{ type: "PERRONLETTER", position: 20, width: 0, description: "A" }]);
+  });
+
+  it("allocates platform features to the carriage images they sit along", () => {
+    const allocation = allocatePlatformFeatures(part, [letter("A", 20), letter("B", 260), letter("C", 700)]);
+    assert.deepEqual(
+      allocation.map((entry) => entry.platformFeatures.map((feature) => [feature.description, feature.scaledPosition])),
+      // Past the end of the train goes to the closest carriage
+      [[["A", 10]], [["B", 130]], [["C", 350]]],
+    );
+    assert.deepEqual(allocatePlatformFeatures(part, []), []);
+  });
+
+  describe("getPlatformLettersForCarriage", () => {
+    for (const testCase of lettersCases) {
+      it(testCase.name, () => {
+        const allocation = allocatePlatformFeatures(part, testCase.features);
+        const letters = part.carriages.map((_, index) => {
+          const { leftPerron, rightPerron } = getPlatformLettersForCarriage(allocation, index);
+          return [leftPerron, rightPerron];
+        });
+        assert.deepEqual(letters, testCase.letters);
+      });
+    }
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  VirtualTrainResponseSchema,
+  TravelDirectionSchema,
+  type Carriage,
+  type PlatformFeature,
+  type SeatCounts,
+  type TrainComposition,
+  type TrainPart,
+} from "./schema";
+
+export interface AllocatedPlatformFeature extends PlatformFeature {
+  // Position converted from composition pixels to carriage-image pixels
+  scaledPosition: number;
+}
+
+export interface CarriageAllocation {
+  carriageIndex: number;
+  carriage: Carriage;
+  platformFeatures: AllocatedPlatformFeature[];
+}
+
+const emptySeats = (): SeatCounts => ({
+  firstClass: 0,
+  secondClass: 0,
+  foldingFirstClass: 0,
+  foldingSecondClass: 0,
+  standingFirstClass: 0,
+  standingSecondClass: 0,
+  bicycleSpots: 0,
+});
+
+function addSeats(total: SeatCounts, seats: SeatCounts): SeatCounts {
+  return {
+    firstClass: total.firstClass + seats.firstClass,
+    secondClass: total.secondClass + seats.secondClass,
+    foldingFirstClass: total.foldingFirstClass + seats.foldingFirstClass,
+    foldingSecondClass: total.foldingSecondClass + seats.foldingSecondClass,
+    standingFirstClass: total.standingFirstClass + seats.standingFirstClass,
+    standingSecondClass: total.standingSecondClass + seats.standingSecondClass,
+    bicycleSpots: total.bicycleSpots + seats.bicycleSpots,
+  };
+}
+
+// Turn a raw Virtual Train API response into a TrainComposition.
+// Returns null when the payload isn't a composition at all (error bodies, empty answers).
+export function normalizeTrainComposition(raw: unknown): TrainComposition | null {
+  if (raw === null || raw === undefined) return null;
+  const parsed = VirtualTrainResponseSchema.safeParse(raw);
+  if (!parsed.success) {
+    // Logged, since a change on the NS side would otherwise just hide every composition
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    console.warn("Virtual Train response did not parse:", issues.join("; "));
+    return null;
+  }
+  const data = parsed.data;
+  if (!data.materieeldelen || data.materieeldelen.length === 0) return null;
+
+  const parts: TrainPart[] = data.materieeldelen.map((deel) => ({
+    materialNumber: deel.materieelnummer ?? null,
+    type: deel.type || data.type || "",
+    facilities: deel.faciliteiten || [],
+    imageUrl: deel.afbeelding || null,
+    width: deel.breedte || 0,
+    seats: {
+      firstClass: deel.zitplaatsen?.zitplaatsEersteKlas || 0,
+      secondClass: deel.zitplaatsen?.zitplaatsTweedeKlas || 0,
+      foldingFirstClass: deel.zitplaatsen?.klapstoelEersteKlas || 0,
+      foldingSecondClass: deel.zitplaatsen?.klapstoelTweedeKlas || 0,
+      standingFirstClass: deel.zitplaatsen?.staanplaatsEersteKlas || 0,
+      standingSecondClass: deel.zitplaatsen?.staanplaatsTweedeKlas || 0,
+      bicycleSpots: deel.zitplaatsen?.fietsplekken || 0,
+    },
+    carriages: (deel.bakken || [])
+      .filter((bak) => !!bak.afbeelding?.url)
+      .map((bak) => ({
+        imageUrl: bak.afbeelding!.url,
+        width: bak.afbeelding!.breedte || 0,
+        height: bak.afbeelding!.hoogte || 0,
+      })),
+  }));
+
+  const direction = TravelDirectionSchema.safeParse(data.rijrichting);
+
+  return {
+    trainType: data.type || null,
+    operator: data.vervoerder || null,
+    stationCode: data.station || null,
+    track: data.spoor || null,
+    direction: direction.success ? direction.data : null,
+    shortened: data.ingekort || false,
+    lengthInMeters: data.lengteInMeters ?? null,
+    parts,
+    carriages: parts.flatMap((part) => part.carriages),
+    seats: parts.reduce((total, part) => addSeats(total, part.seats), emptySeats()),
+    facilities: Array.from(new Set(parts.flatMap((part) => part.facilities))),
+    platformFeatures: (data.perronVoorzieningen || []).map((item) => ({
+      type: item.type,
+      position: item.paddingLeft,
+      width: item.width || 0,
+      description: item.description || "",
+    })),
+  };
+}
+
+// Allocate platform features to the carriages of a train part, proportionally
+// to where they sit along the composition drawing
+export function allocatePlatformFeatures(part: TrainPart, platformFeatures: PlatformFeature[]): CarriageAllocation[] {
+  if (part.carriages.length === 0 || platformFeatures.length === 0) {
+    return [];
+  }
+
+  const { carriages } = part;
+
+  // Calculate total width of all carriage images
+  const totalCarriageWidth = carriages.reduce((sum, carriage) => sum + carriage.width, 0);
+
+  // Calculate the scale factor between actual train width and image width
+  const scaleFactor = part.width / totalCarriageWidth;
+
+  // Initialize each carriage with an empty feature list
+  const allocation: CarriageAllocation[] = carriages.map((carriage, index) => ({
+    carriageIndex: index,
+    carriage,
+    platformFeatures: [],
+  }));
+
+  platformFeatures.forEach((feature) => {
+    // Use the left edge instead of the center for positioning
+    const scaledPosition = feature.position / scaleFactor;
+
+    // Find which carriage this feature belongs to
+    let currentPosition = 0;
+    let allocatedIndex = -1;
+
+    for (let i = 0; i < carriages.length; i++) {
+      const carriageStart = currentPosition;
+      const carriageEnd = currentPosition + carriages[i].width;
+
+      if (scaledPosition >= carriageStart && scaledPosition <= carriageEnd) {
+        allocatedIndex = i;
+        break;
+      }
+
+      currentPosition += carriages[i].width;
+    }
+
+    // If not found in any specific carriage, allocate to the closest one
+    if (allocatedIndex === -1) {
+      currentPosition = 0;
+      let minDistance = Infinity;
+
+      for (let i = 0; i < carriages.length; i++) {
+        const carriageCenter = currentPosition + (carriages[i].width / 2);
+        const distance = Math.abs(scaledPosition - carriageCenter);
+
+        if (distance < minDistance) {
+          minDistance = distance;
+          allocatedIndex = i;
+        }
+
+        currentPosition += carriages[i].width;
+      }
+    }
+
+    if (allocatedIndex >= 0 && allocatedIndex < allocation.length) {
+      allocation[allocatedIndex].platformFeatures.push({ ...feature, scaledPosition });
+    }
+  });
+
+  return allocation;
+}
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+
+const platformLettersOf = (allocation: CarriageAllocation | undefined): string[] =>
+  (allocation?.platformFeatures || [])
+    .filter((feature) => feature.type === "PERRONLETTER")
+    .map((feature) => feature.description)
+    .sort();
+
+// Platform letters (A, B, ...) at the left and right end of one carriage image,
+// inferred from neighbouring carriages when the carriage has fewer than two letters
+export function getPlatformLettersForCarriage(
+  allocation: CarriageAllocation[],
+  carriageIndex: number,
+): { leftPerron: string | null; rightPerron: string | null } {
+  if (allocation.length === 0) {
+    return { leftPerron: null, rightPerron: null };
+  }
+
+  const current = allocation[carriageIndex];
+  const currentLetters = (current?.platformFeatures || [])
+    .filter((feature) => feature.type === "PERRONLETTER")
+    .map((feature) => ({ letter: feature.description, position: feature.scaledPosition }))
+    .sort((a, b) => a.position - b.position);
+
+  if (currentLetters.length > 0) {
+    if (!current.carriage.width) {
+      // Fallback to simple logic if we don't have position data
+      return {
+        leftPerron: currentLetters[0].letter,
+        rightPerron: currentLetters[currentLetters.length - 1].letter,
+      };
+    }
+
+    // Calculate the start position of this carriage in the total train
+    let carriageStartPosition = 0;
+    for (let i = 0; i < carriageIndex; i++) {
+      carriageStartPosition += allocation[i]?.carriage.width || 0;
+    }
+
+    // Convert absolute positions to relative positions within this carriage
+    const withPercentages = currentLetters.map((entry) => ({
+      ...entry,
+      percentagePosition: Math.min(Math.max(((entry.position - carriageStartPosition) / current.carriage.width) * 100, 0), 100),
+    }));
+
+    // Several letters on this carriage: take the outermost ones
+    if (withPercentages.length > 1) {
+      const sorted = withPercentages.sort((a, b) => a.percentagePosition - b.percentagePosition);
+      return {
+        leftPerron: sorted[0].letter,
+        rightPerron: sorted[sorted.length - 1].letter,
+      };
+    }
+
+    // One letter: infer the adjacent letter from its position
+    const single = withPercentages[0];
+
+    // Beyond 10% from the left, the left side likely belongs to the previous letter
+    if (single.percentagePosition > 10) {
+      for (let i = carriageIndex - 1; i >= 0; i--) {
+        const previousLetters = platformLettersOf(allocation[i]);
+        if (previousLetters.length > 0) {
+          return { leftPerron: previousLetters[previousLetters.length - 1], rightPerron: single.letter };
+        }
+      }
+
+      const letterIndex = ALPHABET.indexOf(single.letter);
+      if (letterIndex > 0) {
+        return { leftPerron: ALPHABET[letterIndex - 1], rightPerron: single.letter };
+      }
+    }
+
+    // At 10% or less from the left, the right side likely belongs to the next letter
+    if (single.percentagePosition <= 10) {
+      for (let i = carriageIndex + 1; i < allocation.length; i++) {
+        const nextLetters = platformLettersOf(allocation[i]);
+        if (nextLetters.length > 0) {
+          return { leftPerron: single.letter, rightPerron: nextLetters[0] };
+        }
+      }
+
+      const letterIndex = ALPHABET.indexOf(single.letter);
+      if (letterIndex < ALPHABET.length - 1) {
+        return { leftPerron: single.letter, rightPerron: ALPHABET[letterIndex + 1] };
+      }
+    }
+
+    return { leftPerron: single.letter, rightPerron: single.letter };
+  }
+
+  // No letters on this carriage: borrow from the previous carriages, then the next ones
+  for (let i = carriageIndex - 1; i >= 0; i--) {
+    const previousLetters = platformLettersOf(allocation[i]);
+    if (previousLetters.length > 0) {
+      return { leftPerron: previousLetters[0], rightPerron: previousLetters[previousLetters.length - 1] };
+    }
+  }
+
+  for (let i = carriageIndex + 1; i < allocation.length; i++) {
+    const nextLetters = platformLettersOf(allocation[i]);
+    if (nextLetters.length > 0) {
+      return { leftPerron: nextLetters[0], rightPerron: nextLetters[nextLetters.length - 1] };
+    }
+  }
+
+  return { leftPerron: null, rightPerron: null };
+}
@@ -0,0 +1,75 @@
+import { type Disruption, type DisruptionStation, type DisruptionType } from "./schema";
+
+// NS disruptions feed (reisinformatie-api v3/disruptions) flattened into
+// Disruption records. Disruptions and engineering works list the stations of
+// every affected section; calamities only carry a title and a description.
+
+const text = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+const DISRUPTION_TYPES: DisruptionType[] = ["CALAMITY", "DISRUPTION", "MAINTENANCE"];
+
+function stationsOf(item: any): DisruptionStation[] {
+  const stations = new Map<string, DisruptionStation>();
+  const sections: any[] = Array.isArray(item.publicationSections) ? item.publicationSections : [];
+
+  for (const publication of sections) {
+    for (const station of publication?.section?.stations || []) {
+      const uicCode = text(station?.uicCode);
+      if (!uicCode || stations.has(uicCode)) continue;
+      stations.set(uicCode, {
+        uicCode,
+        stationCode: text(station.stationCode),
+        name: text(station.name) || uicCode,
+      });
+    }
+  }
+  return Array.from(stations.values());
+}
+
+function normalizeDisruption(item: any): Disruption | null {
+  const type = DISRUPTION_TYPES.find((candidate) => candidate === item?.type);
+  const id = text(item?.id);
+  if (!type || !id) return null;
+
+  // The current timespan holds the situation, its cause and travel advice
+  const timespan = Array.isArray(item.timespans) ? item.timespans[0] : undefined;
+  const situation = text(timespan?.situation?.label);
+  const cause = text(timespan?.cause?.label);
+
+  return {
+    id,
+    type,
+    title: text(item.title) || "",
+    description: text(item.description) || (situation && cause && situation !== cause ? `${situation} (${cause})` : situation || cause),
+    advices: Array.isArray(timespan?.advices)
+      ? timespan.advices.map(text).filter((advice: string | null): advice is string => !!advice)
+      : [],
+    start: text(item.start),
+    end: text(item.end),
+    expectedDuration: text(item.expectedDuration?.description),
+    additionalTravelTime: text(item.summaryAdditionalTravelTime?.label),
+    stations: stationsOf(item),
+  };
+}
+
+export function normalizeDisruptions(data: any): Disruption[] {
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.payload) ? data.payload : [];
+  return items
+    .map(normalizeDisruption)
+    .filter((disruption): disruption is Disruption => disruption !== null);
+}
+
+// Disruptions touching any of the given stations (UIC or station codes), plus
+// every calamity. Calamities first, then disruptions before engineering works.
+export function disruptionsForStations(disruptions: Disruption[], codes: string[]): Disruption[] {
+  const wanted = new Set(codes.map((code) => code.toUpperCase()));
+  return disruptions
+    .filter((disruption) =>
+      disruption.type === "CALAMITY" ||
+      disruption.stations.some((station) =>
+        wanted.has(station.uicCode) || (!!station.stationCode && wanted.has(station.stationCode.toUpperCase()))
+      )
+    )
+    .sort((a, b) => DISRUPTION_TYPES.indexOf(a.type) - DISRUPTION_TYPES.indexOf(b.type));
+}
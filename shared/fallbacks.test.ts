@@ -0,0 +1,209 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FallbackSearchOptionsSchema, type FallbackRequestItem, type Leg, type Trip, type TripSearch } from "./schema";
+import { fallbackDelayMinutes, fallbackKey, fallbackSearch, pickFallback, transferFallbacks } from "./fallbacks";
+
+// Only the fields the fallbacks read; NS legs and trips carry far more
+interface LegEnd {
+  name: string;
+  plannedDateTime: string;
+  actualDateTime?: string;
+  plannedTrack?: string;
+}
+
+interface LegLiteral {
+  origin: LegEnd;
+  destination: LegEnd;
+  name?: string;
+  travelType?: string;
+  product?: { type: string; categoryCode: string; shortCategoryName?: string; number?: string };
+  cancelled?: boolean;
+  stops?: { name: string }[];
+}
+
+interface TripLiteral {
+  ctxRecon: string;
+  status?: string;
+  transfers?: number;
+  legs: LegLiteral[];
+}
+
+const asLeg = (leg: LegLiteral): Leg =>
+  ({
+    travelType: "PUBLIC_TRANSIT",
+    product: { type: "TRAIN", categoryCode: "IC", shortCategoryName: "IC", number: "" },
+    cancelled: false,
+    stops: [{ name: leg.origin.name }, { name: leg.destination.name }],
+    ...leg,
+  }) as unknown as Leg;
+
+const asTrip = (trip: TripLiteral): Trip =>
+  ({ status: "NORMAL", transfers: trip.legs.length - 1, ...trip, legs: trip.legs.map(asLeg) }) as unknown as Trip;
+
+const search = (overrides: Partial<TripSearch> = {}): TripSearch => ({
+  fromStation: "Den Haag HS",
+  toStation: "Breda",
+  dateTime: "2025-08-01T08:30:00+0200",
+  searchForArrival: false,
+  excludeBus: false,
+  excludeTram: false,
+  excludeMetro: false,
+  walkingOnly: false,
+  travelClass: "2",
+  discount: "NO_DISCOUNT",
+  product: "OVCHIPKAART_ENKELE_REIS",
+  ...overrides,
+});
+
+// Den Haag HS to Breda, changing at Rotterdam Centraal and Dordrecht
+const legs = [
+  asLeg({
+    origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+    destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "7" },
+    product: { type: "TRAIN", categoryCode: "IC", shortCategoryName: "IC", number: "2100" },
+  }),
+  asLeg({
+    origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:08:00+0200", plannedTrack: "12" },
+    destination: { name: "Dordrecht", plannedDateTime: "2025-08-01T09:22:00+0200", plannedTrack: "3" },
+    product: { type: "TRAIN", categoryCode: "SPR", shortCategoryName: "SPR", number: "5000" },
+  }),
+  asLeg({
+    origin: { name: "Dordrecht", plannedDateTime: "2025-08-01T09:30:00+0200", plannedTrack: "4" },
+    destination: { name: "Breda", plannedDateTime: "2025-08-01T09:50:00+0200", actualDateTime: "2025-08-01T09:52:00+0200" },
+    product: { type: "TRAIN", categoryCode: "IC", shortCategoryName: "IC", number: "3600" },
+  }),
+];
+
+const missedAtRotterdam: FallbackRequestItem = {
+  fromStation: "Rotterdam Centraal",
+  toStation: "Breda",
+  missedDeparture: "2025-08-01T09:08:00+0200",
+  missedTrain: "5000",
+};
+
+interface PickCase {
+  name: string;
+  trips: TripLiteral[];
+  // ctxRecon of the picked trip, null for none
+  picked: string | null;
+}
+
+const ride = (ctxRecon: string, departure: string, number: string, extra: Partial<LegLiteral> = {}): TripLiteral => ({
+  ctxRecon,
+  legs: [{
+    origin: { name: "Rotterdam Centraal", plannedDateTime: departure },
+    destination: { name: "Breda", plannedDateTime: "2025-08-01T10:05:00+0200" },
+    product: { type: "TRAIN", categoryCode: "IC", shortCategoryName: "IC", number },
+    ...extra,
+  }],
+});
+
+const pickCases: PickCase[] = [
+  { name: "first trip after the missed departure", trips: [ride("a", "2025-08-01T09:15:00+0200", "1100")], picked: "a" },
+  {
+    name: "skips trips leaving before the missed departure",
+    trips: [ride("early", "2025-08-01T09:05:00+0200", "1000"), ride("a", "2025-08-01T09:15:00+0200", "1100")],
+    picked: "a",
+  },
+  {
+    name: "skips the missed train itself",
+    trips: [ride("missed", "2025-08-01T09:08:00+0200", "5000"), ride("a", "2025-08-01T09:15:00+0200", "1100")],
+    picked: "a",
+  },
+  {
+    name: "skips cancelled trips and cancelled first rides",
+    trips: [
+      { ...ride("cancelled", "2025-08-01T09:10:00+0200", "1050"), status: "CANCELLED" },
+      ride("ride-cancelled", "2025-08-01T09:12:00+0200", "1070", { cancelled: true }),
+      ride("a", "2025-08-01T09:15:00+0200", "1100"),
+    ],
+    picked: "a",
+  },
+  {
+    name: "looks past a walk to the first ride",
+    trips: [{
+      ctxRecon: "walk",
+      legs: [
+        {
+          origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:10:00+0200" },
+          destination: { name: "Rotterdam Blaak", plannedDateTime: "2025-08-01T09:20:00+0200" },
+          travelType: "WALK",
+          product: { type: "WALK", categoryCode: "WALK" },
+        },
+        {
+          origin: { name: "Rotterdam Blaak", plannedDateTime: "2025-08-01T09:24:00+0200" },
+          destination: { name: "Breda", plannedDateTime: "2025-08-01T10:05:00+0200" },
+          product: { type: "TRAIN", categoryCode: "SPR", shortCategoryName: "SPR", number: "5000" },
+        },
+      ],
+    }, ride("a", "2025-08-01T09:15:00+0200", "1100")],
+    picked: "a",
+  },
+  { name: "nothing left to take", trips: [ride("missed", "2025-08-01T09:08:00+0200", "5000")], picked: null },
+];
+
+describe("transfer fallbacks", () => {
+  it("asks for one fallback per change, from the missed departure to the destination", () => {
+    const fallbacks = transferFallbacks(legs);
+    assert.deepEqual(fallbacks.map((fallback) => fallback.legIndex), [1, 2]);
+    assert.deepEqual(fallbacks[0].request, { ...missedAtRotterdam, options: undefined });
+    assert.equal(fallbacks[1].request.fromStation, "Dordrecht");
+    assert.equal(fallbacks[1].request.missedTrain, "3600");
+  });
+
+  it("plans with the search's options, keeping the via station only while it is ahead", () => {
+    const [atRotterdam, atDordrecht] = transferFallbacks(
+      legs,
+      search({ viaStation: "Dordrecht", viaWaitMinutes: 5, avoidStations: ["Gouda"], excludeBus: true, travelClass: "1" }),
+    );
+
+    assert.equal(atRotterdam.request.options?.viaStation, "Dordrecht");
+    assert.equal(atRotterdam.request.options?.viaWaitMinutes, 5);
+    assert.equal(atDordrecht.request.options?.viaStation, undefined);
+    assert.equal(atDordrecht.request.options?.viaWaitMinutes, undefined);
+    for (const { request } of [atRotterdam, atDordrecht]) {
+      assert.deepEqual(request.options?.avoidStations, ["Gouda"]);
+      assert.equal(request.options?.excludeBus, true);
+      assert.equal(request.options?.travelClass, "1");
+    }
+  });
+
+  it("searches by departure from the missed train's station and time", () => {
+    const options = FallbackSearchOptionsSchema.parse({ excludeTram: true });
+    const planned = fallbackSearch({ ...missedAtRotterdam, options });
+    assert.equal(planned.fromStation, "Rotterdam Centraal");
+    assert.equal(planned.toStation, "Breda");
+    assert.equal(planned.dateTime, "2025-08-01T09:08:00+0200");
+    assert.equal(planned.searchForArrival, false);
+    assert.equal(planned.excludeTram, true);
+  });
+
+  it("keys fallbacks by missed train and search, ignoring default options", () => {
+    const key = fallbackKey(missedAtRotterdam);
+    assert.equal(fallbackKey({ ...missedAtRotterdam, options: FallbackSearchOptionsSchema.parse({}) }), key);
+    assert.notEqual(fallbackKey({ ...missedAtRotterdam, options: FallbackSearchOptionsSchema.parse({ travelClass: "1" }) }), key);
+    assert.notEqual(fallbackKey({ ...missedAtRotterdam, missedTrain: "5002" }), key);
+  });
+
+  describe("pickFallback", () => {
+    for (const testCase of pickCases) {
+      it(testCase.name, () => {
+        const plan = pickFallback(testCase.trips.map(asTrip), missedAtRotterdam);
+        assert.equal(plan?.ctxRecon ?? null, testCase.picked);
+      });
+    }
+  });
+
+  it("describes the picked trip and how much later it arrives", () => {
+    const plan = pickFallback([asTrip(ride("a", "2025-08-01T09:15:00+0200", "1100"))], missedAtRotterdam);
+    assert.deepEqual(plan, {
+      departure: "2025-08-01T09:15:00+0200",
+      arrival: "2025-08-01T10:05:00+0200",
+      trainName: "IC 1100",
+      transfers: 0,
+      ctxRecon: "a",
+    });
+    // Against the realtime arrival of the trip as planned now, 09:52
+    assert.equal(fallbackDelayMinutes(legs, plan!), 13);
+  });
+});
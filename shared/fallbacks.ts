@@ -0,0 +1,115 @@
+import {
+  FallbackSearchOptionsSchema,
+  TripSearchSchema,
+  type FallbackPlan,
+  type FallbackRequestItem,
+  type FallbackSearchOptions,
+  type Leg,
+  type Trip,
+  type TripSearch,
+} from "./schema";
+import { tripSearchToParams } from "./nsGateway";
+import { sameStation } from "./routeConstraints";
+import { legModality } from "./timeline";
+import { transferRisks } from "./transferRisk";
+
+// What happens when a connection is missed: the first trip from the transfer
+// station to the destination that leaves after the missed train, and how much
+// later that gets you there, planned with the options of the original search.
+// Looked up once per station, time and options, for all transfers of a trip in
+// one request (/api/trips/fallbacks).
+
+export interface TransferFallback {
+  // Index of the leg whose departure is missed
+  legIndex: number;
+  request: FallbackRequestItem;
+}
+
+const rideName = (leg: Leg) => leg.name || `${leg.product.shortCategoryName} ${leg.product.number}`.trim();
+
+const minutesBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+// The trip search a fallback is planned with
+export function fallbackSearch(item: FallbackRequestItem): TripSearch {
+  return TripSearchSchema.parse({
+    ...item.options,
+    fromStation: item.fromStation,
+    toStation: item.toStation,
+    dateTime: item.missedDeparture,
+    searchForArrival: false,
+  });
+}
+
+export function fallbackKey(item: FallbackRequestItem): string {
+  return [item.missedTrain || "", tripSearchToParams(fallbackSearch(item)).toString()].join("|");
+}
+
+// Whether the remaining legs still call at or run through the station, after
+// leaving the first one's origin
+function stationAhead(legs: Leg[], station: string): boolean {
+  return legs.some(
+    (leg, index) =>
+      (index > 0 && sameStation(leg.origin.name, station)) ||
+      sameStation(leg.destination.name, station) ||
+      leg.stops.slice(1).some((stop) => sameStation(stop.name, station)),
+  );
+}
+
+// The search's options for the way on from a missed connection
+function fallbackOptions(search: TripSearch, remaining: Leg[]): FallbackSearchOptions {
+  const options = FallbackSearchOptionsSchema.parse(search);
+  if (options.viaStation && !stationAhead(remaining, options.viaStation)) {
+    return { ...options, viaStation: undefined, viaWaitMinutes: undefined };
+  }
+  return options;
+}
+
+// One request per connection between rides, toward the final destination with
+// the options of the search the trip came from
+export function transferFallbacks(legs: Leg[], search?: TripSearch): TransferFallback[] {
+  const destination = legs[legs.length - 1]?.destination.name;
+  if (!destination) return [];
+  return transferRisks(legs).map(({ legIndex }) => {
+    const missed = legs[legIndex];
+    return {
+      legIndex,
+      request: {
+        fromStation: missed.origin.name,
+        toStation: destination,
+        missedDeparture: missed.origin.plannedDateTime,
+        missedTrain: missed.product.number || undefined,
+        options: search ? fallbackOptions(search, legs.slice(legIndex)) : undefined,
+      },
+    };
+  });
+}
+
+// The first trip leaving after the missed departure, not on the missed train
+export function pickFallback(trips: Trip[], item: FallbackRequestItem): FallbackPlan | null {
+  const missedAt = new Date(item.missedDeparture).getTime();
+  for (const trip of trips) {
+    if (trip.status === "CANCELLED" || trip.legs.length === 0) continue;
+    const firstRide = trip.legs.find((leg) => legModality(leg) !== "walk") || trip.legs[0];
+    const first = trip.legs[0];
+    const last = trip.legs[trip.legs.length - 1];
+    const departure = first.origin.actualDateTime || first.origin.plannedDateTime;
+    if (new Date(first.origin.plannedDateTime).getTime() < missedAt) continue;
+    if (item.missedTrain && firstRide.product.number === item.missedTrain) continue;
+    if (firstRide.cancelled) continue;
+    return {
+      departure,
+      arrival: last.destination.actualDateTime || last.destination.plannedDateTime,
+      trainName: rideName(firstRide),
+      transfers: trip.transfers,
+      ctxRecon: trip.ctxRecon,
+    };
+  }
+  return null;
+}
+
+// Minutes later than the trip as planned now, for "if missed: +18 min"
+export function fallbackDelayMinutes(legs: Leg[], plan: FallbackPlan): number {
+  const last = legs[legs.length - 1];
+  return minutesBetween(last.destination.actualDateTime || last.destination.plannedDateTime, plan.arrival);
+}
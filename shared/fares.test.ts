@@ -0,0 +1,195 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Trip } from "./schema";
+import { DEFAULT_FARE_SELECTION, apiDiscount, formatPrice, isOffPeak, tripFares, type FareSelection } from "./fares";
+
+interface OffPeakCase {
+  name: string;
+  dateTime: string;
+  offPeak: boolean;
+}
+
+// Friday 1 August 2025; Dutch summer time is UTC+2
+const offPeakCases: OffPeakCase[] = [
+  { name: "before the morning rush", dateTime: "2025-08-01T06:29:00+0200", offPeak: true },
+  { name: "start of the morning rush", dateTime: "2025-08-01T06:30:00+0200", offPeak: false },
+  { name: "morning rush given in UTC", dateTime: "2025-08-01T06:59:00Z", offPeak: false },
+  { name: "end of the morning rush", dateTime: "2025-08-01T09:00:00+0200", offPeak: true },
+  { name: "evening rush", dateTime: "2025-08-01T18:29:00+0200", offPeak: false },
+  { name: "after the evening rush", dateTime: "2025-08-01T18:30:00+0200", offPeak: true },
+  { name: "Saturday morning", dateTime: "2025-08-02T08:00:00+0200", offPeak: true },
+  { name: "not a date", dateTime: "soon", offPeak: false },
+];
+
+interface FareLiteral {
+  product: string;
+  travelClass: string;
+  discountType: string;
+  priceInCents: number;
+  supplementInCents?: number;
+}
+
+const fare = (travelClass: string, discountType: string, priceInCents: number, product = "OVCHIPKAART_ENKELE_REIS"): FareLiteral => ({
+  product,
+  travelClass,
+  discountType,
+  priceInCents,
+});
+
+// Only the fields the prices are read from; NS trips carry far more
+const asTrip = (fares: FareLiteral[], extra: Record<string, unknown> = {}): Trip =>
+  ({
+    legs: [{ origin: { plannedDateTime: "2025-08-01T08:00:00+0200" } }],
+    fares,
+    ...extra,
+  }) as unknown as Trip;
+
+const fullFares = [
+  fare("SECOND_CLASS", "NO_DISCOUNT", 1680),
+  fare("FIRST_CLASS", "NO_DISCOUNT", 2856),
+  fare("SECOND_CLASS", "DISCOUNT_20_PERCENT", 1344),
+  fare("FIRST_CLASS", "DISCOUNT_20_PERCENT", 2285),
+  fare("SECOND_CLASS", "NO_DISCOUNT", 3360, "OVCHIPKAART_RETOUR"),
+];
+
+interface FareCase {
+  name: string;
+  trip: Trip;
+  selection: FareSelection;
+  selected: number | null;
+  firstClass: number | null;
+  secondClass: number | null;
+  supplement: number;
+  offPeakFree: boolean;
+  unknown: boolean;
+}
+
+const fareCases: FareCase[] = [
+  {
+    name: "defaults: second class single, no discount",
+    trip: asTrip(fullFares),
+    selection: DEFAULT_FARE_SELECTION,
+    selected: 1680,
+    firstClass: 2856,
+    secondClass: 1680,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: false,
+  },
+  {
+    name: "first class with 20% discount",
+    trip: asTrip(fullFares),
+    selection: { ...DEFAULT_FARE_SELECTION, travelClass: "1", discount: "DISCOUNT_20_PERCENT" },
+    selected: 2285,
+    firstClass: 2285,
+    secondClass: 1344,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: false,
+  },
+  {
+    name: "return, only priced in second class",
+    trip: asTrip(fullFares),
+    selection: { ...DEFAULT_FARE_SELECTION, product: "OVCHIPKAART_RETOUR" },
+    selected: 3360,
+    firstClass: null,
+    secondClass: 3360,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: false,
+  },
+  {
+    name: "Dal Vrij in the rush hour pays the 20% fare",
+    trip: asTrip(fullFares),
+    selection: { ...DEFAULT_FARE_SELECTION, discount: "DAL_VRIJ" },
+    selected: 1344,
+    firstClass: 2285,
+    secondClass: 1344,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: false,
+  },
+  {
+    name: "Dal Vrij off-peak travels free",
+    trip: asTrip(fullFares, { legs: [{ origin: { plannedDateTime: "2025-08-01T10:00:00+0200" } }] }),
+    selection: { ...DEFAULT_FARE_SELECTION, discount: "DAL_VRIJ" },
+    selected: 0,
+    firstClass: 0,
+    secondClass: 0,
+    supplement: 0,
+    offPeakFree: true,
+    unknown: false,
+  },
+  {
+    name: "supplement broken down by the product fare",
+    trip: asTrip([fare("SECOND_CLASS", "NO_DISCOUNT", 2010)], {
+      productFare: {
+        ...fare("SECOND_CLASS", "NO_DISCOUNT", 2010),
+        priceInCentsExcludingSupplement: 1680,
+      },
+    }),
+    selection: DEFAULT_FARE_SELECTION,
+    selected: 2010,
+    firstClass: null,
+    secondClass: 2010,
+    supplement: 330,
+    offPeakFree: false,
+    unknown: false,
+  },
+  {
+    name: "NS can't price the whole trip",
+    trip: asTrip(fullFares, { fareOptions: { isTotalPriceUnknown: true } }),
+    selection: DEFAULT_FARE_SELECTION,
+    selected: 1680,
+    firstClass: 2856,
+    secondClass: 1680,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: true,
+  },
+  {
+    name: "no fares at all",
+    trip: asTrip([]),
+    selection: DEFAULT_FARE_SELECTION,
+    selected: null,
+    firstClass: null,
+    secondClass: null,
+    supplement: 0,
+    offPeakFree: false,
+    unknown: true,
+  },
+];
+
+describe("fares", () => {
+  describe("isOffPeak", () => {
+    for (const testCase of offPeakCases) {
+      it(testCase.name, () => {
+        assert.equal(isOffPeak(testCase.dateTime), testCase.offPeak);
+      });
+    }
+  });
+
+  it("prices Dal Vrij with the 20% discount", () => {
+    assert.equal(apiDiscount("DAL_VRIJ"), "DISCOUNT_20_PERCENT");
+    assert.equal(apiDiscount("DISCOUNT_40_PERCENT"), "DISCOUNT_40_PERCENT");
+  });
+
+  describe("tripFares", () => {
+    for (const testCase of fareCases) {
+      it(testCase.name, () => {
+        const fares = tripFares(testCase.trip, testCase.selection);
+        assert.equal(fares.selected.priceInCents, testCase.selected);
+        assert.equal(fares.firstClass.priceInCents, testCase.firstClass);
+        assert.equal(fares.secondClass.priceInCents, testCase.secondClass);
+        assert.equal(fares.selected.supplementInCents, testCase.supplement);
+        assert.equal(fares.selected.offPeakFree, testCase.offPeakFree);
+        assert.equal(fares.unknown, testCase.unknown);
+      });
+    }
+  });
+
+  it("formats prices in euros the Dutch way", () => {
+    // Intl separates the sign with a non-breaking space
+    assert.equal(formatPrice(1680).replace(/\s/g, " "), "€ 16,80");
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  type DiscountOption,
+  type FareProduct,
+  type TravelClass,
+  type Trip,
+  type TripSearch,
+} from "./schema";
+
+// Prices for a trip in the travel class, discount and product picked on the
+// search form, read from the fares matrix NS returns with every trip.
+
+export type FareSelection = Pick<TripSearch, "travelClass" | "discount" | "product">;
+
+export const DEFAULT_FARE_SELECTION: FareSelection = {
+  travelClass: "2",
+  discount: "NO_DISCOUNT",
+  product: "OVCHIPKAART_ENKELE_REIS",
+};
+
+export const TRAVEL_CLASS_LABELS: Record<TravelClass, string> = {
+  "1": "1st class",
+  "2": "2nd class",
+};
+
+export const DISCOUNT_LABELS: Record<DiscountOption, string> = {
+  NO_DISCOUNT: "No discount",
+  DISCOUNT_20_PERCENT: "20% discount",
+  DISCOUNT_40_PERCENT: "40% discount",
+  DAL_VRIJ: "Dal Vrij",
+};
+
+export const PRODUCT_LABELS: Record<FareProduct, string> = {
+  OVCHIPKAART_ENKELE_REIS: "Single",
+  OVCHIPKAART_RETOUR: "Return",
+};
+
+const API_TRAVEL_CLASSES: Record<TravelClass, string> = {
+  "1": "FIRST_CLASS",
+  "2": "SECOND_CLASS",
+};
+
+// Discount type NS prices with; Dal Vrij pays the 20% fare in the rush hours
+export function apiDiscount(discount: DiscountOption): string {
+  return discount === "DAL_VRIJ" ? "DISCOUNT_20_PERCENT" : discount;
+}
+
+// NS rush hours: weekdays 06:30-09:00 and 16:00-18:30, Dutch time. Public
+// holidays count as off-peak but are not known here.
+export function isOffPeak(dateTime: string): boolean {
+  const date = new Date(dateTime);
+  if (Number.isNaN(date.getTime())) return false;
+
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: "Europe/Amsterdam",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((candidate) => candidate.type === type)?.value || "";
+
+  if (part("weekday") === "Sat" || part("weekday") === "Sun") return true;
+  const minutes = Number(part("hour")) * 60 + Number(part("minute"));
+  const morningPeak = minutes >= 6 * 60 + 30 && minutes < 9 * 60;
+  const eveningPeak = minutes >= 16 * 60 && minutes < 18 * 60 + 30;
+  return !morningPeak && !eveningPeak;
+}
+
+export interface TripPrice {
+  travelClass: TravelClass;
+  // null when NS has no price for this combination
+  priceInCents: number | null;
+  // Part of the price that is a supplement (ICE, Intercity direct), 0 when none
+  supplementInCents: number;
+  // Dal Vrij single journey that starts off-peak
+  offPeakFree: boolean;
+}
+
+export interface TripFares {
+  selected: TripPrice;
+  firstClass: TripPrice;
+  secondClass: TripPrice;
+  // NS could not price the whole trip, e.g. international or non-NS parts
+  unknown: boolean;
+}
+
+function priceFor(trip: Trip, selection: FareSelection, travelClass: TravelClass): TripPrice {
+  const discountType = apiDiscount(selection.discount);
+  const matches = (fare: { product: string; travelClass: string; discountType: string }) =>
+    fare.product === selection.product &&
+    fare.travelClass === API_TRAVEL_CLASSES[travelClass] &&
+    fare.discountType === discountType;
+
+  const fare = trip.fares?.find(matches);
+  // productFare is the priced selection of the search itself and breaks down the supplement
+  const productFare = trip.productFare && matches(trip.productFare) ? trip.productFare : undefined;
+  const supplementInCents = productFare
+    ? Math.max(0, productFare.priceInCents - productFare.priceInCentsExcludingSupplement)
+    : fare?.supplementInCents || 0;
+
+  const offPeakFree =
+    selection.discount === "DAL_VRIJ" &&
+    selection.product === "OVCHIPKAART_ENKELE_REIS" &&
+    trip.legs.length > 0 &&
+    isOffPeak(trip.legs[0].origin.plannedDateTime);
+
+  if (offPeakFree) {
+    return { travelClass, priceInCents: 0, supplementInCents: 0, offPeakFree };
+  }
+
+  return {
+    travelClass,
+    priceInCents: fare?.priceInCents ?? productFare?.priceInCents ?? null,
+    supplementInCents,
+    offPeakFree,
+  };
+}
+
+export function tripFares(trip: Trip, selection: FareSelection = DEFAULT_FARE_SELECTION): TripFares {
+  const firstClass = priceFor(trip, selection, "1");
+  const secondClass = priceFor(trip, selection, "2");
+  const selected = selection.travelClass === "1" ? firstClass : secondClass;
+
+  return {
+    selected,
+    firstClass,
+    secondClass,
+    unknown: trip.fareOptions?.isTotalPriceUnknown === true || selected.priceInCents === null,
+  };
+}
+
+export function formatPrice(cents: number): string {
+  return new Intl.NumberFormat("nl-NL", { style: "currency", currency: "EUR" }).format(cents / 100);
+}
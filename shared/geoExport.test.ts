@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Trip } from "./schema";
+import { tripToGeoJson, tripToGpx } from "./geoExport";
+
+// Only the fields the exports read; NS trips carry far more. Den Haag HS to
+// Rotterdam Centraal, running through Delft, then a walk to Rotterdam Blaak.
+const trip = {
+  legs: [
+    {
+      idx: "0",
+      name: "",
+      travelType: "PUBLIC_TRANSIT",
+      direction: "Vlissingen",
+      cancelled: false,
+      product: { shortCategoryName: "IC", longCategoryName: "Intercity", number: "2100", operatorName: "NS" },
+      origin: {
+        name: "Den Haag HS",
+        lat: 52.07,
+        lng: 4.32,
+        plannedDateTime: "2025-08-01T08:40:00+0200",
+        actualDateTime: "2025-08-01T08:42:00+0200",
+        plannedTrack: "5",
+      },
+      destination: {
+        name: "Rotterdam Centraal",
+        lat: 51.92,
+        lng: 4.47,
+        plannedDateTime: "2025-08-01T09:00:00+0200",
+        plannedTrack: "7",
+        actualTrack: "8",
+      },
+      stops: [
+        {
+          name: "Den Haag HS",
+          uicCode: "8400282",
+          lat: 52.07,
+          lng: 4.32,
+          plannedDepartureDateTime: "2025-08-01T08:40:00+0200",
+          actualDepartureDateTime: "2025-08-01T08:42:00+0200",
+          departureDelayInSeconds: 120,
+          plannedDepartureTrack: "5",
+          cancelled: false,
+        },
+        { name: "Delft", uicCode: "8400170", lat: 52.01, lng: 4.36, passing: true, cancelled: false },
+        {
+          name: "Rotterdam Centraal",
+          uicCode: "8400530",
+          lat: 51.92,
+          lng: 4.47,
+          plannedArrivalDateTime: "2025-08-01T09:00:00+0200",
+          plannedArrivalTrack: "7",
+          actualArrivalTrack: "8",
+          cancelled: false,
+        },
+      ],
+    },
+    {
+      idx: "1",
+      name: "Walk & talk",
+      travelType: "WALK",
+      direction: "",
+      cancelled: false,
+      product: { shortCategoryName: "", number: "" },
+      origin: { name: "Rotterdam Centraal", lat: 51.92, lng: 4.47, plannedDateTime: "2025-08-01T09:02:00+0200" },
+      destination: { name: "Rotterdam Blaak", lat: 51.92, lng: 4.49, plannedDateTime: "2025-08-01T09:20:00+0200" },
+      stops: [],
+    },
+  ],
+} as unknown as Trip;
+
+interface FeatureCase {
+  kind: string;
+  name: string;
+  geometry: "LineString" | "Point";
+  coordinates: unknown;
+}
+
+// Passing stops shape the line but get no point; walks are drawn straight
+const featureCases: FeatureCase[] = [
+  { kind: "leg", name: "IC 2100", geometry: "LineString", coordinates: [[4.32, 52.07], [4.36, 52.01], [4.47, 51.92]] },
+  { kind: "stop", name: "Den Haag HS", geometry: "Point", coordinates: [4.32, 52.07] },
+  { kind: "stop", name: "Rotterdam Centraal", geometry: "Point", coordinates: [4.47, 51.92] },
+  { kind: "leg", name: "Walk & talk", geometry: "LineString", coordinates: [[4.47, 51.92], [4.49, 51.92]] },
+];
+
+describe("geo export", () => {
+  describe("tripToGeoJson", () => {
+    const { features } = tripToGeoJson(trip);
+
+    it("has a line per leg and a point per stop the train calls at", () => {
+      assert.equal(features.length, featureCases.length);
+    });
+
+    featureCases.forEach((testCase, index) => {
+      it(`${testCase.kind} ${testCase.name}`, () => {
+        const feature = features[index];
+        assert.equal(feature.properties.kind, testCase.kind);
+        assert.equal(feature.properties.name, testCase.name);
+        assert.equal(feature.geometry.type, testCase.geometry);
+        assert.deepEqual(feature.geometry.coordinates, testCase.coordinates);
+      });
+    });
+
+    it("carries realtime times, delays and platforms", () => {
+      const [leg, departure, arrival] = features;
+      assert.equal(leg.properties.departureDelayMinutes, 2);
+      assert.equal(leg.properties.arrivalDelayMinutes, null);
+      assert.equal(leg.properties.departureTrack, "5");
+      assert.equal(leg.properties.arrivalTrack, "8");
+      assert.equal(leg.properties.product, "Intercity");
+      assert.equal(departure.properties.departureDelayMinutes, 2);
+      assert.equal(departure.properties.uicCode, "8400282");
+      assert.equal(arrival.properties.track, "8");
+      assert.equal(arrival.properties.arrivalDelayMinutes, null);
+    });
+  });
+
+  describe("tripToGpx", () => {
+    const gpx = tripToGpx(trip);
+
+    it("names the document after the whole trip, in UTC", () => {
+      assert.match(gpx, /<metadata><name>Den Haag HS → Rotterdam Blaak<\/name><time>2025-08-01T06:40:00Z<\/time><\/metadata>/);
+    });
+
+    it("has a waypoint per stop the train calls at, at its realtime time", () => {
+      const waypoints = gpx.match(/<wpt [^>]*>.*?<\/wpt>/g) ?? [];
+      assert.deepEqual(waypoints, [
+        '<wpt lat="52.07" lon="4.32"><time>2025-08-01T06:42:00Z</time><name>Den Haag HS</name><desc>IC 2100</desc><type>stop</type></wpt>',
+        '<wpt lat="51.92" lon="4.47"><time>2025-08-01T07:00:00Z</time><name>Rotterdam Centraal</name><desc>IC 2100</desc><type>stop</type></wpt>',
+      ]);
+    });
+
+    it("has a track per leg and escapes names", () => {
+      const tracks = gpx.match(/<trk>[\s\S]*?<\/trk>/g) ?? [];
+      assert.equal(tracks.length, 2);
+      assert.equal(tracks[0].match(/<trkpt /g)?.length, 3);
+      assert.match(tracks[1], /<name>Walk &amp; talk to Rotterdam Blaak<\/name>/);
+      assert.match(tracks[1], /<trkpt lat="51.92" lon="4.49"><time>2025-08-01T07:20:00Z<\/time><\/trkpt>/);
+    });
+  });
+});
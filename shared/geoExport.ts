@@ -0,0 +1,159 @@
+import { type Leg, type Stop, type Trip } from "./schema";
+import { trainName } from "./calendar";
+
+// Trips as map data for GIS tools: GeoJSON (RFC 7946) with a LineString per
+// leg and a Point per stop, and GPX 1.1 with a track per leg and the stops as
+// waypoints. Coordinates come from the stops NS sends with every leg; legs
+// without stops, such as walks, are drawn straight from origin to destination.
+
+type Position = [number, number];
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  geometry: { type: "LineString"; coordinates: Position[] } | { type: "Point"; coordinates: Position };
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+}
+
+const minutesBetween = (planned: string | undefined, actual: string | undefined) =>
+  planned && actual ? Math.round((new Date(actual).getTime() - new Date(planned).getTime()) / 60000) : null;
+
+const delayMinutes = (seconds: number | undefined) => (seconds === undefined ? null : Math.round(seconds / 60));
+
+// [lng, lat], the GeoJSON order
+function legPositions(leg: Leg): Position[] {
+  const points = leg.stops.length >= 2 ? leg.stops : [leg.origin, leg.destination];
+  return points.map((point) => [point.lng, point.lat]);
+}
+
+// The time a train is at a stop: departure where it leaves, arrival at the end
+function stopTime(stop: Stop): string | undefined {
+  return (
+    stop.actualDepartureDateTime ||
+    stop.plannedDepartureDateTime ||
+    stop.actualArrivalDateTime ||
+    stop.plannedArrivalDateTime
+  );
+}
+
+function legFeature(leg: Leg): GeoJsonFeature {
+  return {
+    type: "Feature",
+    geometry: { type: "LineString", coordinates: legPositions(leg) },
+    properties: {
+      kind: "leg",
+      legIdx: leg.idx,
+      name: trainName(leg),
+      travelType: leg.travelType,
+      product: leg.product.longCategoryName || null,
+      productNumber: leg.product.number || null,
+      operator: leg.product.operatorName || null,
+      direction: leg.direction,
+      origin: leg.origin.name,
+      destination: leg.destination.name,
+      plannedDeparture: leg.origin.plannedDateTime,
+      actualDeparture: leg.origin.actualDateTime ?? null,
+      plannedArrival: leg.destination.plannedDateTime,
+      actualArrival: leg.destination.actualDateTime ?? null,
+      departureDelayMinutes: minutesBetween(leg.origin.plannedDateTime, leg.origin.actualDateTime),
+      arrivalDelayMinutes: minutesBetween(leg.destination.plannedDateTime, leg.destination.actualDateTime),
+      departureTrack: leg.origin.actualTrack || leg.origin.plannedTrack || null,
+      arrivalTrack: leg.destination.actualTrack || leg.destination.plannedTrack || null,
+      cancelled: leg.cancelled,
+    },
+  };
+}
+
+function stopFeature(leg: Leg, stop: Stop): GeoJsonFeature {
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [stop.lng, stop.lat] },
+    properties: {
+      kind: "stop",
+      legIdx: leg.idx,
+      name: stop.name,
+      uicCode: stop.uicCode,
+      plannedArrival: stop.plannedArrivalDateTime ?? null,
+      actualArrival: stop.actualArrivalDateTime ?? null,
+      plannedDeparture: stop.plannedDepartureDateTime ?? null,
+      actualDeparture: stop.actualDepartureDateTime ?? null,
+      arrivalDelayMinutes: delayMinutes(stop.arrivalDelayInSeconds),
+      departureDelayMinutes: delayMinutes(stop.departureDelayInSeconds),
+      track: stop.actualDepartureTrack || stop.plannedDepartureTrack || stop.actualArrivalTrack || stop.plannedArrivalTrack || null,
+      cancelled: stop.cancelled,
+    },
+  };
+}
+
+// Stops the train only passes through shape the line but get no point
+export function tripToGeoJson(trip: Trip): GeoJsonFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: trip.legs.flatMap((leg) => [
+      legFeature(leg),
+      ...leg.stops.filter((stop) => !stop.passing).map((stop) => stopFeature(leg, stop)),
+    ]),
+  };
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// GPX times are UTC
+const gpxTime = (dateTime: string | undefined) =>
+  dateTime ? `<time>${new Date(dateTime).toISOString().replace(/\.\d{3}/, "")}</time>` : "";
+
+function gpxPoint(tag: "wpt" | "trkpt", lat: number, lng: number, children: string[]): string {
+  return `<${tag} lat="${lat}" lon="${lng}">${children.join("")}</${tag}>`;
+}
+
+export function tripToGpx(trip: Trip): string {
+  const first = trip.legs[0];
+  const last = trip.legs[trip.legs.length - 1];
+  const name = first && last ? `${first.origin.name} → ${last.destination.name}` : "Trip";
+
+  const waypoints = trip.legs.flatMap((leg) =>
+    leg.stops
+      .filter((stop) => !stop.passing)
+      .map((stop) =>
+        gpxPoint("wpt", stop.lat, stop.lng, [
+          gpxTime(stopTime(stop)),
+          `<name>${escapeXml(stop.name)}</name>`,
+          `<desc>${escapeXml(trainName(leg))}${stop.cancelled ? " (cancelled)" : ""}</desc>`,
+          "<type>stop</type>",
+        ]),
+      ),
+  );
+
+  const tracks = trip.legs.map((leg) => {
+    const points =
+      leg.stops.length >= 2
+        ? leg.stops.map((stop) => gpxPoint("trkpt", stop.lat, stop.lng, [gpxTime(stopTime(stop))]))
+        : [leg.origin, leg.destination].map((station) =>
+            gpxPoint("trkpt", station.lat, station.lng, [gpxTime(station.actualDateTime || station.plannedDateTime)]),
+          );
+    return [
+      "<trk>",
+      `<name>${escapeXml(`${trainName(leg)} to ${leg.destination.name}`)}</name>`,
+      `<type>${escapeXml(leg.travelType)}</type>`,
+      "<trkseg>",
+      ...points,
+      "</trkseg>",
+      "</trk>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="NS Trip Planner" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata><name>${escapeXml(name)}</name>${gpxTime(first?.origin.plannedDateTime)}</metadata>`,
+    ...waypoints,
+    ...tracks,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,127 @@
+import { type Leg, type Note, type Stop, type Trip, type TripMessage } from "./schema";
+
+// Travel notices for a trip or leg: disruption and maintenance messages plus
+// the informative notes NS attaches to stations, stops and products, flattened
+// into one list with a severity, the stops they affect and when they apply.
+
+export type NoticeSeverity = "disruption" | "maintenance" | "info";
+
+export interface TravelNotice {
+  id: string;
+  severity: NoticeSeverity;
+  title: string;
+  text: string | null;
+  affectedStops: string[];
+  validFrom: string | null;
+  validUntil: string | null;
+  link: { title: string; url: string } | null;
+}
+
+// ATTRIBUTE notes are product labels and TICKET notes fare conditions, neither is news
+const DISPLAYED_NOTE_TYPES = new Set(["INFOTEXT", "REALTIME", "HINT"]);
+
+const SEVERITY_ORDER: NoticeSeverity[] = ["disruption", "maintenance", "info"];
+
+export function messageSeverity(message: TripMessage): NoticeSeverity {
+  return message.type === "MAINTENANCE" ? "maintenance" : "disruption";
+}
+
+// Realtime notes are live changes (cancelled stop, other platform); the rest is advice
+export function noteSeverity(note: Note): NoticeSeverity {
+  return note.noteType === "REALTIME" ? "disruption" : "info";
+}
+
+// startDate is an ISO date-time; startTime ("HH:MM"), when present, is the more precise time of day
+function withTime(date: string | undefined, time: string | undefined): string | null {
+  if (!date) return null;
+  if (!time || !/^\d{2}:\d{2}$/.test(time) || !date.includes("T")) return date;
+  return date.replace(/T\d{2}:\d{2}/, `T${time}`);
+}
+
+function stopsInRange(stops: Stop[], from: number | undefined, to: number | undefined): string[] {
+  if (from === undefined && to === undefined) return [];
+  const first = from ?? to!;
+  const last = to ?? from!;
+  return stops
+    .filter((stop) => !stop.passing && stop.routeIdx >= first && stop.routeIdx <= last)
+    .map((stop) => stop.name);
+}
+
+function messageNotice(message: TripMessage, stops: Stop[]): TravelNotice {
+  return {
+    id: `message-${message.id}`,
+    severity: messageSeverity(message),
+    title: message.head,
+    text: message.text || message.lead || null,
+    affectedStops: stopsInRange(stops, message.routeIdxFrom, message.routeIdxTo),
+    validFrom: withTime(message.startDate, message.startTime),
+    validUntil: withTime(message.endDate, message.endTime),
+    link: null,
+  };
+}
+
+function noteNotice(note: Note, affectedStops: string[]): TravelNotice {
+  return {
+    id: `note-${note.key || note.noteType}-${note.value}`,
+    severity: noteSeverity(note),
+    title: note.value,
+    text: null,
+    affectedStops,
+    validFrom: null,
+    validUntil: null,
+    link: note.link || null,
+  };
+}
+
+// Same notice reported on several stops or legs is shown once, with all its stops
+function mergeNotices(notices: TravelNotice[]): TravelNotice[] {
+  const merged = new Map<string, TravelNotice>();
+  for (const notice of notices) {
+    const existing = merged.get(notice.id);
+    if (!existing) {
+      merged.set(notice.id, { ...notice, affectedStops: [...notice.affectedStops] });
+      continue;
+    }
+    for (const stop of notice.affectedStops) {
+      if (!existing.affectedStops.includes(stop)) existing.affectedStops.push(stop);
+    }
+  }
+  return Array.from(merged.values())
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+export function legNotices(leg: Leg): TravelNotice[] {
+  const notices: TravelNotice[] = (leg.messages || []).map((message) => messageNotice(message, leg.stops));
+  const isDisplayed = (note: Note) => DISPLAYED_NOTE_TYPES.has(note.noteType);
+
+  for (const note of (leg.notes || []).filter(isDisplayed)) {
+    notices.push(noteNotice(note, stopsInRange(leg.stops, note.routeIdxFrom, note.routeIdxTo)));
+  }
+  for (const note of leg.product.notes.flat().filter(isDisplayed)) {
+    notices.push(noteNotice(note, stopsInRange(leg.stops, note.routeIdxFrom, note.routeIdxTo)));
+  }
+  for (const station of [leg.origin, leg.destination]) {
+    for (const note of station.notes.filter(isDisplayed)) {
+      notices.push(noteNotice(note, [station.name]));
+    }
+  }
+  for (const stop of leg.stops) {
+    for (const note of stop.notes.filter(isDisplayed)) {
+      notices.push(noteNotice(note, [stop.name]));
+    }
+  }
+
+  return mergeNotices(notices);
+}
+
+// Trip-level messages use the route indexes of whichever leg they start on
+export function tripNotices(trip: Trip): TravelNotice[] {
+  const notices = trip.messages.map((message) => {
+    const leg = trip.legs.find((candidate) =>
+      candidate.stops.some((stop) => stop.routeIdx === message.routeIdxFrom)
+    );
+    return messageNotice(message, leg?.stops || []);
+  });
+
+  return mergeNotices([...notices, ...trip.legs.flatMap(legNotices)]);
+}
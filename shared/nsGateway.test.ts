@@ -0,0 +1,217 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TripSearchSchema, type TripSearch } from "./schema";
+import {
+  NsAuthError,
+  NsNetworkError,
+  NsQuotaError,
+  NsUpstreamError,
+  createNsGateway,
+  tripSearchFromParams,
+  tripSearchToParams,
+  tripsQueryFromSearch,
+  type Coordinates,
+  type GatewayRequest,
+  type GatewayResponse,
+  type GatewayTransport,
+  type TripsQuery,
+} from "./nsGateway";
+
+const response = (status: number, body: unknown = {}, headers: Record<string, string> = {}): GatewayResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: `Status ${status}`,
+  headers: new Headers(headers),
+  json: async () => body,
+});
+
+// Settles only when the gateway aborts the request, like fetch does
+const untilAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => signal.addEventListener("abort", () => reject(new Error("aborted"))));
+
+const gatewayWith = (transport: GatewayTransport) =>
+  createNsGateway({ apiKeys: { trips: "trips-key", places: "places-key" }, transport, timeouts: { trips: 20 } });
+
+interface ErrorCase {
+  name: string;
+  transport: GatewayTransport;
+  error: new (...args: never[]) => Error;
+  status?: number;
+  retryAfterSeconds?: number;
+  timedOut?: boolean;
+}
+
+const errorCases: ErrorCase[] = [
+  { name: "401 is a rejected key", transport: async () => response(401), error: NsAuthError, status: 401 },
+  { name: "403 is a rejected key", transport: async () => response(403), error: NsAuthError, status: 403 },
+  {
+    name: "429 is the quota, with the time to wait",
+    transport: async () => response(429, {}, { "retry-after": "30" }),
+    error: NsQuotaError,
+    status: 429,
+    retryAfterSeconds: 30,
+  },
+  {
+    name: "429 without a usable retry-after",
+    transport: async () => response(429, {}, { "retry-after": "soon" }),
+    error: NsQuotaError,
+    status: 429,
+    retryAfterSeconds: undefined,
+  },
+  { name: "404 is an upstream error", transport: async () => response(404), error: NsUpstreamError, status: 404 },
+  { name: "503 is an upstream error", transport: async () => response(503), error: NsUpstreamError, status: 503 },
+  {
+    name: "no response is a network error",
+    transport: async () => {
+      throw new TypeError("Failed to fetch");
+    },
+    error: NsNetworkError,
+    timedOut: false,
+  },
+  {
+    name: "no response in time is a timeout",
+    transport: (request) => untilAborted(request.signal),
+    error: NsNetworkError,
+    timedOut: true,
+  },
+  {
+    name: "a body that stalls past the timeout is a timeout",
+    transport: async (request) => ({ ...response(200), json: () => untilAborted(request.signal) }),
+    error: NsNetworkError,
+    timedOut: true,
+  },
+  {
+    name: "a malformed body is passed on as is",
+    transport: async () => ({
+      ...response(200),
+      json: async () => {
+        throw new SyntaxError("Unexpected token < in JSON");
+      },
+    }),
+    error: SyntaxError,
+  },
+];
+
+const search = (overrides: Partial<TripSearch> = {}): TripSearch =>
+  TripSearchSchema.parse({
+    fromStation: "Den Haag HS",
+    toStation: "Breda",
+    dateTime: "2025-08-01T08:30:00+0200",
+    ...overrides,
+  });
+
+interface QueryCase {
+  name: string;
+  search: TripSearch;
+  from?: Coordinates;
+  to?: Coordinates;
+  // Fields of the query to compare; the rest is left to other cases
+  query: Partial<TripsQuery>;
+}
+
+const queryCases: QueryCase[] = [
+  {
+    name: "stations with the default fare",
+    search: search(),
+    query: {
+      fromStation: "Den Haag HS",
+      toStation: "Breda",
+      originLat: undefined,
+      destinationName: undefined,
+      searchForArrival: false,
+      firstMileModality: "PUBLIC_TRANSPORT",
+      lastMileModality: "PUBLIC_TRANSPORT",
+      disabledTransportModalities: [],
+      product: "OVCHIPKAART_ENKELE_REIS",
+      travelClass: "2",
+      discount: "NO_DISCOUNT",
+    },
+  },
+  {
+    name: "an address planned door to door",
+    search: search({ fromStation: "Mauritshuis" }),
+    from: { lat: 52.08, lng: 4.31 },
+    query: { fromStation: undefined, originLat: 52.08, originLng: 4.31, originName: "Mauritshuis", toStation: "Breda" },
+  },
+  {
+    name: "via with a wait",
+    search: search({ viaStation: "Dordrecht", viaWaitMinutes: 10 }),
+    query: { viaStation: "Dordrecht", viaWaitTime: 10 },
+  },
+  {
+    name: "a wait without a via station",
+    search: search({ viaWaitMinutes: 10 }),
+    query: { viaStation: undefined, viaWaitTime: undefined },
+  },
+  {
+    name: "excluded modalities and walking only",
+    search: search({ excludeBus: true, excludeMetro: true, walkingOnly: true }),
+    query: { disabledTransportModalities: ["BUS", "METRO"], firstMileModality: "WALK", lastMileModality: "WALK" },
+  },
+  {
+    name: "Dal Vrij in first class, priced with the 20% discount",
+    search: search({ travelClass: "1", discount: "DAL_VRIJ", product: "OVCHIPKAART_RETOUR" }),
+    query: { travelClass: "1", discount: "DISCOUNT_20_PERCENT", product: "OVCHIPKAART_RETOUR" },
+  },
+];
+
+describe("NS gateway", () => {
+  describe("error mapping", () => {
+    for (const testCase of errorCases) {
+      it(testCase.name, async () => {
+        const error = await gatewayWith(testCase.transport).searchTrips({ dateTime: "2025-08-01T08:30:00+0200" }).then(
+          () => assert.fail("expected the call to fail"),
+          (reason: unknown) => reason,
+        );
+        assert.ok(error instanceof testCase.error, `expected ${testCase.error.name}, got ${error}`);
+        if (testCase.status !== undefined) assert.equal((error as NsUpstreamError).status, testCase.status);
+        if ("retryAfterSeconds" in testCase) assert.equal((error as NsQuotaError).retryAfterSeconds, testCase.retryAfterSeconds);
+        if (testCase.timedOut !== undefined) assert.equal((error as NsNetworkError).timedOut, testCase.timedOut);
+      });
+    }
+  });
+
+  it("reuses the caller's request id and sends each API its own key and headers", async () => {
+    const requests: GatewayRequest[] = [];
+    const gateway = gatewayWith(async (request) => {
+      requests.push(request);
+      return response(200, { payload: [] });
+    });
+
+    await gateway.searchTrips({ dateTime: "2025-08-01T08:30:00+0200" }, { requestId: "browser-1" });
+    await gateway.searchPlaces("Utrecht");
+
+    const [trips, places] = requests;
+    assert.equal(trips.requestId, "browser-1");
+    assert.equal(trips.headers["x-request-id"], "browser-1");
+    assert.equal(trips.headers["ocp-apim-subscription-key"], "trips-key");
+    assert.deepEqual(places.headers, { "accept": "application/json", "ocp-apim-subscription-key": "places-key" });
+    assert.match(places.requestId, /^\d+-[a-z0-9]+$/);
+  });
+
+  describe("tripsQueryFromSearch", () => {
+    for (const testCase of queryCases) {
+      it(testCase.name, () => {
+        const query = tripsQueryFromSearch(testCase.search, testCase.from ?? null, testCase.to ?? null);
+        for (const [field, value] of Object.entries(testCase.query)) {
+          assert.deepEqual(query[field as keyof TripsQuery], value, field);
+        }
+      });
+    }
+  });
+
+  it("round-trips a search through its query string, leaving out defaults", () => {
+    const original = search({
+      viaStation: "Dordrecht",
+      viaWaitMinutes: 5,
+      avoidStations: ["Gouda", "Delft"],
+      excludeTram: true,
+      travelClass: "1",
+    });
+    const params = tripSearchToParams(original);
+
+    assert.equal(params.get("discount"), null);
+    assert.equal(params.get("avoidStations"), "Gouda|Delft");
+    assert.deepEqual(TripSearchSchema.parse(tripSearchFromParams(Object.fromEntries(params))), original);
+  });
+});
@@ -0,0 +1,456 @@
+// Typed client for the NS API gateway (gateway.apiportal.ns.nl).
+// Used by both the Express server and the browser (static deployment), so every
+// header, key and timeout lives here and nowhere else.
+
+import { type BoardKind, type TripSearch } from "./schema";
+import { DEFAULT_FARE_SELECTION, apiDiscount, type FareSelection } from "./fares";
+
+export const NS_GATEWAY_BASE = "https://gateway.apiportal.ns.nl";
+
+export type GatewayEndpoint = "trips" | "virtualTrain" | "places" | "departures" | "arrivals" | "disruptions";
+
+// Path of each NS product behind the gateway (also what offline stand-ins serve)
+export const GATEWAY_PATHS: Record<GatewayEndpoint, string> = {
+  trips: "/reisinformatie-api/api/v3/trips",
+  virtualTrain: "/virtual-train-api/api/v1/trein",
+  places: "/places-api/v2/places",
+  departures: "/reisinformatie-api/api/v2/departures",
+  arrivals: "/reisinformatie-api/api/v2/arrivals",
+  disruptions: "/reisinformatie-api/api/v3/disruptions",
+};
+
+export function endpointForPath(path: string): GatewayEndpoint | null {
+  const endpoints = Object.keys(GATEWAY_PATHS) as GatewayEndpoint[];
+  return endpoints.find((endpoint) => path.startsWith(GATEWAY_PATHS[endpoint])) || null;
+}
+
+export interface GatewayApiKeys {
+  trips: string;
+  virtualTrain?: string;
+  places?: string;
+}
+
+export interface GatewayRequest {
+  endpoint: GatewayEndpoint;
+  url: string;
+  method: "GET";
+  headers: Record<string, string>;
+  signal: AbortSignal;
+  requestId: string;
+}
+
+// Only the parts of a fetch Response the gateway relies on, so tests and
+// offline stand-ins can hand back plain objects
+export type GatewayResponse = Pick<Response, "ok" | "status" | "statusText" | "headers" | "json">;
+
+export type GatewayTransport = (request: GatewayRequest) => Promise<GatewayResponse>;
+
+export const fetchTransport: GatewayTransport = (request) =>
+  fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    signal: request.signal,
+    mode: "cors",
+    credentials: "omit",
+  });
+
+export const DEFAULT_TIMEOUTS: Record<GatewayEndpoint, number> = {
+  trips: 15000,
+  virtualTrain: 8000,
+  places: 5000,
+  departures: 8000,
+  arrivals: 8000,
+  disruptions: 8000,
+};
+
+export interface GatewayCallOptions {
+  // Reuse the caller's request id so one user action can be traced end to end
+  requestId?: string;
+}
+
+export interface NsGatewayOptions {
+  apiKeys: GatewayApiKeys;
+  baseUrl?: string;
+  transport?: GatewayTransport;
+  timeouts?: Partial<Record<GatewayEndpoint, number>>;
+}
+
+// Key for per-leg composition data, shared by TripCard, the modal and /api/trains/batch
+export function legKey(trainNumber: string, stationCode: string): string {
+  return `${trainNumber}-${stationCode}`;
+}
+
+export function createRequestId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Error hierarchy - callers switch on the class rather than parsing messages
+export class NsGatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: GatewayEndpoint,
+    public readonly requestId: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "NsGatewayError";
+  }
+}
+
+// 401/403: missing, wrong or revoked subscription key
+export class NsAuthError extends NsGatewayError {
+  constructor(endpoint: GatewayEndpoint, requestId: string, status: number) {
+    super(`NS API rejected the subscription key (${status})`, endpoint, requestId, status);
+    this.name = "NsAuthError";
+  }
+}
+
+// 429: subscription quota or rate limit exceeded
+export class NsQuotaError extends NsGatewayError {
+  constructor(
+    endpoint: GatewayEndpoint,
+    requestId: string,
+    public readonly retryAfterSeconds?: number,
+  ) {
+    super("NS API quota exceeded, try again later", endpoint, requestId, 429);
+    this.name = "NsQuotaError";
+  }
+}
+
+// Any other non-2xx answer, mostly 5xx from the gateway or the backend behind it
+export class NsUpstreamError extends NsGatewayError {
+  constructor(endpoint: GatewayEndpoint, requestId: string, status: number, statusText: string) {
+    super(`NS API responded with status ${status}: ${statusText}`, endpoint, requestId, status);
+    this.name = "NsUpstreamError";
+  }
+}
+
+// No response at all: offline, DNS, CORS rejection in the browser, or our own timeout
+export class NsNetworkError extends NsGatewayError {
+  constructor(
+    endpoint: GatewayEndpoint,
+    requestId: string,
+    public readonly timedOut: boolean,
+    cause?: unknown,
+  ) {
+    super(
+      timedOut
+        ? `NS API did not respond within the ${endpoint} timeout`
+        : "Unable to connect to NS API. This may be due to CORS restrictions in static hosting. Consider using a server-side proxy.",
+      endpoint,
+      requestId,
+    );
+    this.name = "NsNetworkError";
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+// Low-level trips query, one field per reisinformatie-api parameter
+export interface TripsQuery {
+  fromStation?: string;
+  toStation?: string;
+  viaStation?: string;
+  viaWaitTime?: number;
+  originLat?: number;
+  originLng?: number;
+  originName?: string;
+  destinationLat?: number;
+  destinationLng?: number;
+  destinationName?: string;
+  dateTime: string;
+  searchForArrival?: boolean;
+  firstMileModality?: string;
+  lastMileModality?: string;
+  disabledTransportModalities?: string[];
+  product?: string;
+  travelClass?: string;
+  discount?: string;
+  lang?: string;
+}
+
+// Fare parameters of a trips call; NS prices productFare and forecasts crowding with them
+export type TripFareQuery = Required<Pick<TripsQuery, "product" | "travelClass" | "discount">>;
+
+export function tripFareQuery(selection: FareSelection): TripFareQuery {
+  return {
+    product: selection.product,
+    travelClass: selection.travelClass,
+    discount: apiDiscount(selection.discount),
+  };
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Map the search form onto trips API parameters. Locations that resolved to
+// coordinates (addresses, POIs) are planned door-to-door, the rest by station name.
+export function tripsQueryFromSearch(
+  search: TripSearch,
+  fromLocation: Coordinates | null,
+  toLocation: Coordinates | null,
+): TripsQuery {
+  const disabledTransportModalities: string[] = [];
+  if (search.excludeBus) disabledTransportModalities.push("BUS");
+  if (search.excludeTram) disabledTransportModalities.push("TRAM");
+  if (search.excludeMetro) disabledTransportModalities.push("METRO");
+
+  const mileModality = search.walkingOnly ? "WALK" : "PUBLIC_TRANSPORT";
+
+  return {
+    fromStation: fromLocation ? undefined : search.fromStation,
+    originLat: fromLocation?.lat,
+    originLng: fromLocation?.lng,
+    originName: fromLocation ? search.fromStation : undefined,
+    toStation: toLocation ? undefined : search.toStation,
+    destinationLat: toLocation?.lat,
+    destinationLng: toLocation?.lng,
+    destinationName: toLocation ? search.toStation : undefined,
+    viaStation: search.viaStation,
+    viaWaitTime: search.viaStation ? search.viaWaitMinutes : undefined,
+    dateTime: search.dateTime,
+    searchForArrival: search.searchForArrival,
+    firstMileModality: mileModality,
+    lastMileModality: mileModality,
+    disabledTransportModalities,
+    ...tripFareQuery(search),
+  };
+}
+
+const AVOID_STATIONS_SEPARATOR = "|";
+
+// Query-string form of a TripSearch, shared by the client and the /api/trips route
+export function tripSearchToParams(search: TripSearch): URLSearchParams {
+  const params = new URLSearchParams({
+    fromStation: search.fromStation,
+    toStation: search.toStation,
+    dateTime: search.dateTime,
+  });
+  if (search.viaStation) params.set("viaStation", search.viaStation);
+  if (search.viaStation && search.viaWaitMinutes) params.set("viaWaitMinutes", search.viaWaitMinutes.toString());
+  // Station names never contain a "|"; one parameter survives Object.fromEntries
+  if (search.avoidStations?.length) params.set("avoidStations", search.avoidStations.join(AVOID_STATIONS_SEPARATOR));
+  if (search.searchForArrival) params.set("searchForArrival", "true");
+  if (search.excludeBus) params.set("excludeBus", "true");
+  if (search.excludeTram) params.set("excludeTram", "true");
+  if (search.excludeMetro) params.set("excludeMetro", "true");
+  if (search.walkingOnly) params.set("walkingOnly", "true");
+  return fareSelectionToParams(search, params);
+}
+
+// Fare options only when they differ from the defaults, to keep links short.
+// Also carried by trip links and live streams, so reloads keep the same fares.
+export function fareSelectionToParams(selection: FareSelection, params = new URLSearchParams()): URLSearchParams {
+  if (selection.travelClass !== DEFAULT_FARE_SELECTION.travelClass) params.set("travelClass", selection.travelClass);
+  if (selection.discount !== DEFAULT_FARE_SELECTION.discount) params.set("discount", selection.discount);
+  if (selection.product !== DEFAULT_FARE_SELECTION.product) params.set("product", selection.product);
+  return params;
+}
+
+// A trip as reloaded with a fare selection, for the trip cache and live watches
+export function tripFareKey(ctxRecon: string, fare: FareSelection): string {
+  return `${ctxRecon}|${fareSelectionToParams(fare)}`;
+}
+
+export function tripSearchFromParams(query: Record<string, unknown>): Record<string, unknown> {
+  const flag = (value: unknown) => value === "true" || value === "1";
+  return {
+    fromStation: query.fromStation,
+    toStation: query.toStation,
+    viaStation: query.viaStation,
+    viaWaitMinutes: query.viaWaitMinutes || undefined,
+    avoidStations: typeof query.avoidStations === "string" ? query.avoidStations.split(AVOID_STATIONS_SEPARATOR) : undefined,
+    dateTime: query.dateTime,
+    searchForArrival: flag(query.searchForArrival),
+    excludeBus: flag(query.excludeBus),
+    excludeTram: flag(query.excludeTram),
+    excludeMetro: flag(query.excludeMetro),
+    walkingOnly: flag(query.walkingOnly),
+    travelClass: query.travelClass,
+    discount: query.discount,
+    product: query.product,
+  };
+}
+
+function buildTripsParams(query: TripsQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.originLat !== undefined && query.originLng !== undefined) {
+    params.set("originLat", query.originLat.toString());
+    params.set("originLng", query.originLng.toString());
+    if (query.originName) params.set("originName", query.originName);
+  } else if (query.fromStation) {
+    params.set("fromStation", query.fromStation);
+  }
+
+  if (query.destinationLat !== undefined && query.destinationLng !== undefined) {
+    params.set("destinationLat", query.destinationLat.toString());
+    params.set("destinationLng", query.destinationLng.toString());
+    if (query.destinationName) params.set("destinationName", query.destinationName);
+  } else if (query.toStation) {
+    params.set("toStation", query.toStation);
+  }
+
+  if (query.viaStation) {
+    params.set("viaStation", query.viaStation);
+    if (query.viaWaitTime) params.set("viaWaitTime", query.viaWaitTime.toString());
+  }
+
+  params.set("dateTime", query.dateTime);
+  params.set("lang", query.lang || "nl");
+  params.set("product", query.product || "OVCHIPKAART_ENKELE_REIS");
+  params.set("travelClass", query.travelClass || "2");
+  if (query.discount && query.discount !== "NO_DISCOUNT") {
+    params.set("discount", query.discount);
+  }
+
+  if (query.searchForArrival) {
+    params.set("searchForArrival", "true");
+  }
+
+  params.set("firstMileModality", query.firstMileModality || "PUBLIC_TRANSPORT");
+  params.set("lastMileModality", query.lastMileModality || "PUBLIC_TRANSPORT");
+
+  if (query.disabledTransportModalities && query.disabledTransportModalities.length > 0) {
+    params.set("disabledTransportModalities", query.disabledTransportModalities.join(","));
+  }
+
+  return params;
+}
+
+// Header profile per endpoint. The Places API only gets the minimal set because
+// it rejects the NS Web caller headers in a browser preflight.
+function buildHeaders(endpoint: GatewayEndpoint, apiKey: string, requestId: string): Record<string, string> {
+  if (endpoint === "places") {
+    return {
+      "accept": "application/json",
+      "ocp-apim-subscription-key": apiKey,
+    };
+  }
+
+  const headers: Record<string, string> = {
+    "accept": "application/json, text/plain, */*",
+    "accept-language": "nl",
+    "cache-control": "no-cache",
+    "ocp-apim-subscription-key": apiKey,
+    "pragma": "no-cache",
+    "x-caller-id": "NS Web",
+    "x-caller-version": "rio-frontends-20250618.14",
+    "x-request-id": requestId,
+  };
+  if (endpoint === "trips") {
+    headers["x-enabled-capabilities"] = "BFF_PRODUCT, BFF_STEPS";
+  }
+  return headers;
+}
+
+export function createNsGateway(options: NsGatewayOptions) {
+  const baseUrl = options.baseUrl || NS_GATEWAY_BASE;
+  const transport = options.transport || fetchTransport;
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+
+  const keyFor = (endpoint: GatewayEndpoint): string => {
+    if (endpoint === "places") return options.apiKeys.places || options.apiKeys.trips;
+    if (endpoint === "virtualTrain") return options.apiKeys.virtualTrain || options.apiKeys.trips;
+    return options.apiKeys.trips;
+  };
+
+  async function request<T>(endpoint: GatewayEndpoint, path: string, call: GatewayCallOptions = {}): Promise<T> {
+    const requestId = call.requestId || createRequestId();
+    const controller = new AbortController();
+    // Runs until the body is read: a response whose headers arrive in time can still stall
+    const timer = setTimeout(() => controller.abort(), timeouts[endpoint]);
+
+    try {
+      let response: GatewayResponse;
+      try {
+        response = await transport({
+          endpoint,
+          url: `${baseUrl}${path}`,
+          method: "GET",
+          headers: buildHeaders(endpoint, keyFor(endpoint), requestId),
+          signal: controller.signal,
+          requestId,
+        });
+      } catch (error) {
+        throw new NsNetworkError(endpoint, requestId, controller.signal.aborted, error);
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new NsAuthError(endpoint, requestId, response.status);
+      }
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        throw new NsQuotaError(endpoint, requestId, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+      }
+      if (!response.ok) {
+        throw new NsUpstreamError(endpoint, requestId, response.status, response.statusText);
+      }
+
+      try {
+        return (await response.json()) as T;
+      } catch (error) {
+        // Timed out halfway through the body; a malformed body is rethrown as is
+        if (controller.signal.aborted) throw new NsNetworkError(endpoint, requestId, true, error);
+        throw error;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    searchTrips<T>(query: TripsQuery, call?: GatewayCallOptions): Promise<T> {
+      return request<T>("trips", `${GATEWAY_PATHS.trips}?${buildTripsParams(query)}`, call);
+    },
+
+    // One trip by its ctxRecon, with fresh realtime data for the fare it was found with
+    getTrip<T>(
+      ctxRecon: string,
+      fare: FareSelection = DEFAULT_FARE_SELECTION,
+      call?: GatewayCallOptions,
+    ): Promise<T> {
+      const params = new URLSearchParams({ ctxRecon, lang: "nl", ...tripFareQuery(fare) });
+      return request<T>("trips", `${GATEWAY_PATHS.trips}/trip?${params}`, call);
+    },
+
+    getVirtualTrain<T>(
+      trainNumber: string,
+      stationCode: string,
+      dateTime: string,
+      call?: GatewayCallOptions,
+    ): Promise<T> {
+      const params = new URLSearchParams({ dateTime, features: "zitplaats,druktev2,platformitems" });
+      return request<T>(
+        "virtualTrain",
+        `${GATEWAY_PATHS.virtualTrain}/${encodeURIComponent(trainNumber)}/${encodeURIComponent(stationCode)}?${params}`,
+        call,
+      );
+    },
+
+    // Departure or arrival board for one station (station code, e.g. "UT")
+    getStationBoard<T>(
+      kind: BoardKind,
+      stationCode: string,
+      call?: GatewayCallOptions,
+    ): Promise<T> {
+      const params = new URLSearchParams({ station: stationCode, maxJourneys: "40", lang: "nl" });
+      return request<T>(kind, `${GATEWAY_PATHS[kind]}?${params}`, call);
+    },
+
+    // All active disruptions, engineering works and calamities on the network
+    getDisruptions<T>(call?: GatewayCallOptions): Promise<T> {
+      const params = new URLSearchParams({ isActive: "true", lang: "nl" });
+      return request<T>("disruptions", `${GATEWAY_PATHS.disruptions}?${params}`, call);
+    },
+
+    searchPlaces<T>(query: string, call?: GatewayCallOptions): Promise<T> {
+      return request<T>("places", `${GATEWAY_PATHS.places}?q=${encodeURIComponent(query)}`, call);
+    },
+  };
+}
+
+export type NsGateway = ReturnType<typeof createNsGateway>;
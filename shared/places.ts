@@ -0,0 +1,76 @@
+import { type z } from "zod";
+import {
+  NsPlaceLocationSchema,
+  NsPlaceSchema,
+  NsPlacesResponseSchema,
+  type NsPlace,
+  type Place,
+  type PlaceKind,
+} from "./schema";
+
+// Places API payloads mix station groups (with a locations array), POIs and
+// addresses. These helpers flatten them into Place records with the same
+// priority ordering the dropdown has always used: stations, then grouped
+// locations, then loose POIs/addresses.
+
+function kindFor(type: string | null | undefined): PlaceKind {
+  if (type === "stationV2") return "station";
+  if (type && type.toUpperCase().includes("ADDRESS")) return "address";
+  return "poi";
+}
+
+// Entries that don't parse are skipped rather than failing the whole answer
+function parseEach<S extends z.ZodTypeAny>(schema: S, items: unknown[]): z.infer<S>[] {
+  return items.flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function normalizePlaces(data: unknown): Place[] {
+  const response = NsPlacesResponseSchema.safeParse(data);
+  const allPlaces: NsPlace[] = response.success ? parseEach(NsPlaceSchema, response.data.payload) : [];
+
+  const allLocations: Place[] = allPlaces.flatMap((place): Place[] => {
+    // For places with locations array (like stations)
+    if (place.locations && place.locations.length > 0) {
+      return parseEach(NsPlaceLocationSchema, place.locations).map((location) => ({
+        name: location.name,
+        kind: kindFor(place.type),
+        type: place.type || "unknown",
+        stationCode: location.stationCode || null,
+        lat: location.lat ?? null,
+        lng: location.lng ?? null,
+        priority: place.type === "stationV2" ? 1 : 2, // Prioritize actual stations
+      }));
+    }
+
+    // For places that are locations themselves (like POI, addresses)
+    if (place.name && place.name !== "Stations") {
+      return [{
+        name: place.name,
+        kind: kindFor(place.type),
+        type: place.type || "unknown",
+        stationCode: place.stationCode || null,
+        lat: place.lat ?? null,
+        lng: place.lng ?? null,
+        priority: place.type === "stationV2" ? 1 : 3, // Lower priority for POI
+      }];
+    }
+
+    return [];
+  });
+
+  // Sort by priority (stations first) then by name
+  return allLocations.sort((a, b) => {
+    if (a.priority !== b.priority) return a.priority - b.priority;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+// Exact-name match with coordinates, used to plan trips from/to non-station locations
+export function resolvePlace(places: Place[], locationName: string): Place | null {
+  return places.find((place) =>
+    place.name === locationName && place.lat !== null && place.lng !== null,
+  ) || null;
+}
@@ -0,0 +1,166 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Trip } from "./schema";
+import {
+  checkRouteConstraints,
+  describeRouteConstraints,
+  viaDwellMinutes,
+  withoutAvoidedStations,
+  type RouteConstraints,
+} from "./routeConstraints";
+
+// Only the fields the checks read; NS trips carry far more
+interface LegEnd {
+  name: string;
+  plannedDateTime: string;
+  actualDateTime?: string;
+}
+
+interface StopLiteral {
+  name: string;
+  passing?: boolean;
+  plannedArrivalDateTime?: string;
+  actualArrivalDateTime?: string;
+  plannedDepartureDateTime?: string;
+  actualDepartureDateTime?: string;
+}
+
+interface LegLiteral {
+  origin: LegEnd;
+  destination: LegEnd;
+  stops?: StopLiteral[];
+}
+
+const asTrip = (legs: LegLiteral[]): Trip =>
+  ({ ctxRecon: "trip", legs: legs.map((leg) => ({ stops: [], ...leg })) }) as unknown as Trip;
+
+// Den Haag HS to Breda, changing at Rotterdam Centraal (09:00 to 09:07, 09:09 with delay)
+const viaRotterdam = asTrip([
+  {
+    origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+    destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200" },
+    stops: [
+      { name: "Den Haag HS", plannedDepartureDateTime: "2025-08-01T08:40:00+0200" },
+      { name: "Delft", passing: true },
+      { name: "Rotterdam Centraal", plannedArrivalDateTime: "2025-08-01T09:00:00+0200" },
+    ],
+  },
+  {
+    origin: {
+      name: "Rotterdam Centraal",
+      plannedDateTime: "2025-08-01T09:07:00+0200",
+      actualDateTime: "2025-08-01T09:09:00+0200",
+    },
+    destination: { name: "Breda", plannedDateTime: "2025-08-01T09:30:00+0200" },
+    stops: [
+      { name: "Rotterdam Centraal", plannedDepartureDateTime: "2025-08-01T09:07:00+0200" },
+      {
+        name: "Dordrecht",
+        plannedArrivalDateTime: "2025-08-01T09:20:00+0200",
+        plannedDepartureDateTime: "2025-08-01T09:21:00+0200",
+        actualDepartureDateTime: "2025-08-01T09:23:00+0200",
+      },
+      { name: "Breda", plannedArrivalDateTime: "2025-08-01T09:30:00+0200" },
+    ],
+  },
+]);
+
+interface DwellCase {
+  name: string;
+  station: string;
+  dwellMinutes: number | null;
+}
+
+const dwellCases: DwellCase[] = [
+  // Arrival as planned, departure two minutes late
+  { name: "change at the station, with realtime times", station: "Rotterdam Centraal", dwellMinutes: 9 },
+  { name: "stop the trip stays on board at", station: "Dordrecht", dwellMinutes: 3 },
+  { name: "station names differ in case and spacing", station: " dordrecht ", dwellMinutes: 3 },
+  { name: "station the train runs through", station: "Delft", dwellMinutes: null },
+  { name: "station where the trip starts", station: "Den Haag HS", dwellMinutes: null },
+  { name: "station the trip doesn't touch", station: "Utrecht Centraal", dwellMinutes: null },
+];
+
+interface ConstraintCase {
+  name: string;
+  constraints: RouteConstraints;
+  labels: string[];
+  satisfied: boolean[];
+}
+
+const constraintCases: ConstraintCase[] = [
+  { name: "no constraints", constraints: {}, labels: [], satisfied: [] },
+  {
+    name: "via without a wait",
+    constraints: { viaStation: "Rotterdam Centraal" },
+    labels: ["Via Rotterdam Centraal"],
+    satisfied: [true],
+  },
+  {
+    name: "via with a wait the change covers",
+    constraints: { viaStation: "Rotterdam Centraal", viaWaitMinutes: 5 },
+    labels: ["Via Rotterdam Centraal, 9 of 5 min"],
+    satisfied: [true],
+  },
+  {
+    name: "via with a wait NS didn't honour",
+    constraints: { viaStation: "Dordrecht", viaWaitMinutes: 10 },
+    labels: ["Via Dordrecht, 3 of 10 min"],
+    satisfied: [false],
+  },
+  {
+    name: "via a station the trip doesn't call at",
+    constraints: { viaStation: "Delft" },
+    labels: ["Not via Delft"],
+    satisfied: [false],
+  },
+  {
+    name: "via first, then each avoid station",
+    constraints: { viaStation: "Dordrecht", avoidStations: ["Delft", "Gouda"] },
+    labels: ["Via Dordrecht", "Through Delft", "Avoids Gouda"],
+    satisfied: [true, false, true],
+  },
+];
+
+describe("route constraints", () => {
+  describe("viaDwellMinutes", () => {
+    for (const testCase of dwellCases) {
+      it(testCase.name, () => {
+        assert.equal(viaDwellMinutes(viaRotterdam, testCase.station), testCase.dwellMinutes);
+      });
+    }
+  });
+
+  describe("checkRouteConstraints", () => {
+    for (const testCase of constraintCases) {
+      it(testCase.name, () => {
+        const checks = checkRouteConstraints(viaRotterdam, testCase.constraints);
+        assert.deepEqual(checks.map((check) => check.label), testCase.labels);
+        assert.deepEqual(checks.map((check) => check.satisfied), testCase.satisfied);
+      });
+    }
+  });
+
+  it("drops trips that call at or run through an avoided station", () => {
+    const direct = asTrip([
+      {
+        origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:45:00+0200" },
+        destination: { name: "Breda", plannedDateTime: "2025-08-01T09:45:00+0200" },
+        stops: [{ name: "Den Haag HS" }, { name: "Gouda" }, { name: "Breda" }],
+      },
+    ]);
+
+    assert.deepEqual(withoutAvoidedStations([viaRotterdam, direct], ["delft"]), [direct]);
+    assert.deepEqual(withoutAvoidedStations([viaRotterdam, direct], ["Gouda"]), [viaRotterdam]);
+    assert.deepEqual(withoutAvoidedStations([viaRotterdam, direct], undefined), [viaRotterdam, direct]);
+  });
+
+  it("summarises the constraints for the results header", () => {
+    assert.deepEqual(
+      describeRouteConstraints({ viaStation: "Dordrecht", viaWaitMinutes: 10, avoidStations: ["Delft", "Gouda"] }),
+      ["via Dordrecht (10 min)", "avoiding Delft, Gouda"],
+    );
+    assert.deepEqual(describeRouteConstraints({ viaStation: "Dordrecht" }), ["via Dordrecht"]);
+    assert.deepEqual(describeRouteConstraints({ avoidStations: [] }), []);
+  });
+});
@@ -0,0 +1,108 @@
+import { type Trip, type TripSearch } from "./schema";
+
+// Via and avoid stations of a search, checked against the trips that come back.
+// NS plans the via station and the wait there itself, but doesn't always honour
+// the wait; it has no way to avoid a station, so trips that call at or run
+// through one are dropped after the search.
+
+export type RouteConstraints = Pick<TripSearch, "viaStation" | "viaWaitMinutes" | "avoidStations">;
+
+export interface RouteConstraintCheck {
+  kind: "via" | "avoid";
+  station: string;
+  satisfied: boolean;
+  // Via only: minutes between arriving at the station and leaving it again,
+  // null when the trip doesn't call there
+  dwellMinutes?: number | null;
+  label: string;
+}
+
+const minutesBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+// Via and avoid stations are NS station names (the search form only accepts
+// stations), the same names NS gives the stops of a trip
+export const sameStation = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function hasRouteConstraints(constraints: RouteConstraints): boolean {
+  return Boolean(constraints.viaStation) || (constraints.avoidStations?.length ?? 0) > 0;
+}
+
+// Every station the trip touches, including the ones it runs through without stopping
+function tripStationNames(trip: Trip): string[] {
+  return trip.legs.flatMap((leg) => [leg.origin.name, leg.destination.name, ...leg.stops.map((stop) => stop.name)]);
+}
+
+export function tripAvoidsStations(trip: Trip, stations: string[]): boolean {
+  const names = tripStationNames(trip);
+  return !stations.some((station) => names.some((name) => sameStation(name, station)));
+}
+
+// The post-filter for avoid stations; a no-op without any
+export function withoutAvoidedStations(trips: Trip[], stations: string[] | undefined): Trip[] {
+  if (!stations?.length) return trips;
+  return trips.filter((trip) => tripAvoidsStations(trip, stations));
+}
+
+// Time at the via station with realtime times: the change when a leg ends there,
+// the stop itself when the trip stays on board, null when the trip doesn't call there
+export function viaDwellMinutes(trip: Trip, station: string): number | null {
+  const legs = trip.legs;
+  const arrivingIndex = legs.findIndex((leg, index) => index < legs.length - 1 && sameStation(leg.destination.name, station));
+  if (arrivingIndex >= 0) {
+    const arrival = legs[arrivingIndex].destination;
+    const departure = legs[arrivingIndex + 1].origin;
+    return minutesBetween(arrival.actualDateTime || arrival.plannedDateTime, departure.actualDateTime || departure.plannedDateTime);
+  }
+
+  for (const leg of legs) {
+    const stop = leg.stops.find((candidate, index) => index > 0 && index < leg.stops.length - 1 && !candidate.passing && sameStation(candidate.name, station));
+    if (!stop) continue;
+    const arrival = stop.actualArrivalDateTime || stop.plannedArrivalDateTime;
+    const departure = stop.actualDepartureDateTime || stop.plannedDepartureDateTime;
+    return arrival && departure ? minutesBetween(arrival, departure) : 0;
+  }
+  return null;
+}
+
+function checkVia(trip: Trip, station: string, waitMinutes: number | undefined): RouteConstraintCheck {
+  const dwellMinutes = viaDwellMinutes(trip, station);
+  if (dwellMinutes === null) {
+    return { kind: "via", station, satisfied: false, dwellMinutes, label: `Not via ${station}` };
+  }
+  if (waitMinutes) {
+    return {
+      kind: "via",
+      station,
+      satisfied: dwellMinutes >= waitMinutes,
+      dwellMinutes,
+      label: `Via ${station}, ${dwellMinutes} of ${waitMinutes} min`,
+    };
+  }
+  return { kind: "via", station, satisfied: true, dwellMinutes, label: `Via ${station}` };
+}
+
+// One check per constraint of the search, via first
+export function checkRouteConstraints(trip: Trip, constraints: RouteConstraints): RouteConstraintCheck[] {
+  const checks: RouteConstraintCheck[] = [];
+  if (constraints.viaStation) checks.push(checkVia(trip, constraints.viaStation, constraints.viaWaitMinutes));
+  for (const station of constraints.avoidStations ?? []) {
+    const satisfied = tripAvoidsStations(trip, [station]);
+    checks.push({ kind: "avoid", station, satisfied, label: satisfied ? `Avoids ${station}` : `Through ${station}` });
+  }
+  return checks;
+}
+
+// Short summary of the constraints for the results header
+export function describeRouteConstraints(constraints: RouteConstraints): string[] {
+  const parts: string[] = [];
+  if (constraints.viaStation) {
+    parts.push(
+      constraints.viaWaitMinutes
+        ? `via ${constraints.viaStation} (${constraints.viaWaitMinutes} min)`
+        : `via ${constraints.viaStation}`,
+    );
+  }
+  if (constraints.avoidStations?.length) parts.push(`avoiding ${constraints.avoidStations.join(", ")}`);
+  return parts;
+}
@@ -0,0 +1,158 @@
+import { type Leg, type Trip } from "./schema";
+
+// Schematic trip maps drawn from the coordinates NS sends with every leg, so
+// they need no tile server. Positions are projected equirectangularly around
+// the middle latitude, which is close enough at the scale of the Netherlands.
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapLeg {
+  tripIndex: number;
+  legIdx: string;
+  label: string;
+  category: string;
+  cancelled: boolean;
+  // Walks and other legs without a train
+  dashed: boolean;
+  points: MapPoint[];
+}
+
+export type MapStopKind = "endpoint" | "transfer" | "stop" | "passing" | "cancelled";
+
+export interface MapStop extends MapPoint {
+  tripIndex: number;
+  name: string;
+  kind: MapStopKind;
+}
+
+export interface RouteMapLayout {
+  width: number;
+  height: number;
+  legs: MapLeg[];
+  stops: MapStop[];
+}
+
+// Colours per product category, close to the ones NS uses in its own apps
+export const CATEGORY_COLORS: Record<string, string> = {
+  ICE: "#b5121b",
+  ICD: "#e6007e",
+  EUR: "#b5121b",
+  EST: "#b5121b",
+  NS: "#b5121b",
+  IC: "#003082",
+  SPR: "#0063d3",
+  SNG: "#0063d3",
+  ST: "#5c6bc0",
+  BUS: "#7b6b00",
+  TRAM: "#00813e",
+  METRO: "#e97300",
+  WALK: "#6b7280",
+};
+
+const DEFAULT_CATEGORY_COLOR = "#374151";
+
+// Trips side by side in a comparison, in selection order
+export const TRIP_COLORS = ["#003082", "#e6007e", "#00813e", "#e97300", "#7c3aed"];
+
+export function categoryColor(category: string): string {
+  return CATEGORY_COLORS[category] || DEFAULT_CATEGORY_COLOR;
+}
+
+export function legCategory(leg: Leg): string {
+  if (leg.travelType === "WALK" || leg.product.type === "WALK") return "WALK";
+  return leg.product.categoryCode || leg.product.type || leg.travelType;
+}
+
+// The stops a leg runs through, or just its ends when NS sends none (walks)
+function legCoordinates(leg: Leg): Array<{ lat: number; lng: number }> {
+  if (leg.stops.length >= 2) return leg.stops;
+  return [leg.origin, leg.destination];
+}
+
+function stopKind(leg: Leg, index: number, legCount: number, legIndex: number): MapStopKind {
+  const stop = leg.stops[index];
+  const isFirst = index === 0;
+  const isLast = index === leg.stops.length - 1;
+  if ((isFirst && legIndex === 0) || (isLast && legIndex === legCount - 1)) return "endpoint";
+  if (isFirst || isLast) return "transfer";
+  if (stop.cancelled) return "cancelled";
+  return stop.passing ? "passing" : "stop";
+}
+
+// Later kinds win when trips or legs share a station: an end point stays an
+// end point even if another trip only passes through
+const KIND_RANK: Record<MapStopKind, number> = { passing: 0, stop: 1, cancelled: 2, transfer: 3, endpoint: 4 };
+
+// All trips in one coordinate space of the given size, with `padding` pixels
+// around the stations furthest out
+export function layoutRouteMap(trips: Trip[], width: number, height: number, padding = 24): RouteMapLayout {
+  const coordinates = trips.flatMap((trip) => trip.legs.flatMap(legCoordinates));
+  if (coordinates.length === 0) return { width, height, legs: [], stops: [] };
+
+  const lats = coordinates.map((point) => point.lat);
+  const lngs = coordinates.map((point) => point.lng);
+  const [minLat, maxLat] = [Math.min(...lats), Math.max(...lats)];
+  const [minLng, maxLng] = [Math.min(...lngs), Math.max(...lngs)];
+  const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  // A tiny minimum span keeps a trip between two neighbouring stations from
+  // filling the whole panel
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.02);
+  const spanY = Math.max(maxLat - minLat, 0.02);
+  const scale = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+  const centreX = ((minLng + maxLng) / 2) * lngScale;
+  const centreY = (minLat + maxLat) / 2;
+  const project = (point: { lat: number; lng: number }): MapPoint => ({
+    x: width / 2 + (point.lng * lngScale - centreX) * scale,
+    y: height / 2 - (point.lat - centreY) * scale,
+  });
+
+  const legs: MapLeg[] = [];
+  const stops = new Map<string, MapStop>();
+  const addStop = (stop: MapStop) => {
+    const key = `${stop.name}-${stop.tripIndex}`;
+    const existing = stops.get(key);
+    if (!existing || KIND_RANK[stop.kind] > KIND_RANK[existing.kind]) stops.set(key, stop);
+  };
+
+  trips.forEach((trip, tripIndex) => {
+    trip.legs.forEach((leg, legIndex) => {
+      const category = legCategory(leg);
+      legs.push({
+        tripIndex,
+        legIdx: leg.idx,
+        label: leg.name || `${leg.product.shortCategoryName} ${leg.product.number}`.trim(),
+        category,
+        cancelled: leg.cancelled,
+        dashed: category === "WALK",
+        points: legCoordinates(leg).map(project),
+      });
+
+      if (leg.stops.length >= 2) {
+        leg.stops.forEach((stop, index) => {
+          addStop({ ...project(stop), tripIndex, name: stop.name, kind: stopKind(leg, index, trip.legs.length, legIndex) });
+        });
+      } else {
+        const last = trip.legs.length - 1;
+        addStop({ ...project(leg.origin), tripIndex, name: leg.origin.name, kind: legIndex === 0 ? "endpoint" : "transfer" });
+        addStop({ ...project(leg.destination), tripIndex, name: leg.destination.name, kind: legIndex === last ? "endpoint" : "transfer" });
+      }
+    });
+  });
+
+  // Passing stops first, so stations the train calls at are drawn on top
+  return {
+    width,
+    height,
+    legs,
+    stops: Array.from(stops.values()).sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind]),
+  };
+}
+
+// "M10,20 L30,40 ..." for an SVG path
+export function pathData(points: MapPoint[]): string {
+  return points.map((point, index) => `${index === 0 ? "M" : "L"}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(" ");
+}
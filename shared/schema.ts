@@ -1,6 +1,56 @@
 import { z } from "zod";
+import type { favouriteStations, savedRoutes, searchHistory, users } from "./tables";
 
 // NS API Response Types
+
+// Notes hang off stations, stops and products. ATTRIBUTE notes are product
+// labels (name, direction, intermediate stops); INFOTEXT, REALTIME and HINT
+// notes carry travel information worth showing.
+export const NoteTypeSchema = z.enum(["ATTRIBUTE", "INFOTEXT", "REALTIME", "TICKET", "HINT", "UNKNOWN"]);
+
+export const NoteSchema = z.object({
+  value: z.string(),
+  shortValue: z.string().optional(),
+  accessibilityValue: z.string().optional(),
+  key: z.string().optional(),
+  noteType: z.string(),
+  priority: z.number().optional(),
+  routeIdxFrom: z.number().optional(),
+  routeIdxTo: z.number().optional(),
+  link: z.object({
+    title: z.string(),
+    url: z.string(),
+  }).optional(),
+  isPresentationRequired: z.boolean().optional(),
+  category: z.string().optional(),
+  nesProperties: z.object({
+    color: z.string().optional(),
+  }).optional(),
+});
+
+// Disruption and maintenance messages on a trip or leg. routeIdxFrom/To point
+// at Stop.routeIdx, start/end at the period the message applies to.
+export const TripMessageTypeSchema = z.enum(["DISRUPTION", "MAINTENANCE"]);
+
+export const TripMessageSchema = z.object({
+  id: z.string(),
+  externalId: z.string().optional(),
+  head: z.string(),
+  text: z.string().optional(),
+  lead: z.string().optional(),
+  type: z.string(),
+  routeIdxFrom: z.number().optional(),
+  routeIdxTo: z.number().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  nesProperties: z.object({
+    color: z.string().optional(),
+    type: z.string().optional(),
+  }).optional(),
+});
+
 export const StationSchema = z.object({
   name: z.string(),
   lng: z.number(),
@@ -17,7 +67,7 @@ export const StationSchema = z.object({
   actualTrack: z.string().optional(),
   exitSide: z.string().optional(),
   checkinStatus: z.string(),
-  notes: z.array(z.any()),
+  notes: z.array(NoteSchema),
 });
 
 export const ProductSchema = z.object({
@@ -38,7 +88,7 @@ export const ProductSchema = z.object({
     color: z.string(),
     icon: z.string(),
   }),
-  notes: z.array(z.array(z.any())),
+  notes: z.array(z.array(NoteSchema)),
   text: z.object({
     color: z.string(),
     text: z.string(),
@@ -79,7 +129,7 @@ export const StopSchema = z.object({
   lat: z.number(),
   lng: z.number(),
   countryCode: z.string(),
-  notes: z.array(z.any()),
+  notes: z.array(NoteSchema),
   routeIdx: z.number(),
   plannedDepartureDateTime: z.string().optional(),
   plannedDepartureTimeZoneOffset: z.number().optional(),
@@ -116,6 +166,8 @@ export const LegSchema = z.object({
   destination: StationSchema,
   product: ProductSchema,
   stops: z.array(StopSchema),
+  messages: z.array(TripMessageSchema).optional(),
+  notes: z.array(NoteSchema).optional(),
   crowdForecast: z.string().optional(),
   bicycleSpotCount: z.number().optional(),
   punctuality: z.number().optional(),
@@ -142,6 +194,143 @@ export const LegSchema = z.object({
   postSteps: z.array(z.any()).optional(),
 });
 
+// NS Virtual Train API (virtual-train-api/v1/trein) raw response.
+// Lenient on purpose: fields come and go per train type and station, arrive as
+// null, and new ones are passed through rather than failing the parse.
+export const VirtualTrainImageSchema = z.object({
+  url: z.string(),
+  breedte: z.number().nullish(),
+  hoogte: z.number().nullish(),
+}).passthrough();
+
+export const VirtualTrainSeatsSchema = z.object({
+  staanplaatsEersteKlas: z.number().nullish(),
+  staanplaatsTweedeKlas: z.number().nullish(),
+  zitplaatsEersteKlas: z.number().nullish(),
+  zitplaatsTweedeKlas: z.number().nullish(),
+  klapstoelEersteKlas: z.number().nullish(),
+  klapstoelTweedeKlas: z.number().nullish(),
+  fietsplekken: z.number().nullish(),
+}).passthrough();
+
+export const VirtualTrainPartSchema = z.object({
+  materieelnummer: z.number().nullish(),
+  type: z.string().nullish(),
+  faciliteiten: z.array(z.string()).nullish(),
+  afbeelding: z.string().nullish(),
+  breedte: z.number().nullish(),
+  hoogte: z.number().nullish(),
+  zitplaatsen: VirtualTrainSeatsSchema.nullish(),
+  bakken: z.array(z.object({
+    afbeelding: VirtualTrainImageSchema.nullish(),
+  }).passthrough()).nullish(),
+}).passthrough();
+
+export const VirtualTrainPlatformItemSchema = z.object({
+  type: z.string(),
+  paddingLeft: z.number(),
+  width: z.number().nullish(),
+  description: z.string().nullish(),
+}).passthrough();
+
+export const VirtualTrainResponseSchema = z.object({
+  station: z.string().nullish(),
+  type: z.string().nullish(),
+  vervoerder: z.string().nullish(),
+  spoor: z.string().nullish(),
+  materieeldelen: z.array(VirtualTrainPartSchema).nullish(),
+  ingekort: z.boolean().nullish(),
+  lengte: z.number().nullish(),
+  lengteInMeters: z.number().nullish(),
+  lengteInPixels: z.number().nullish(),
+  perronVoorzieningen: z.array(VirtualTrainPlatformItemSchema).nullish(),
+  bakbord: z.number().nullish(),
+  rijrichting: z.string().nullish(),
+}).passthrough();
+
+// Normalized train composition, produced by normalizeTrainComposition
+export const SeatCountsSchema = z.object({
+  firstClass: z.number(),
+  secondClass: z.number(),
+  foldingFirstClass: z.number(),
+  foldingSecondClass: z.number(),
+  standingFirstClass: z.number(),
+  standingSecondClass: z.number(),
+  bicycleSpots: z.number(),
+});
+
+export const CarriageSchema = z.object({
+  imageUrl: z.string(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const TrainPartSchema = z.object({
+  materialNumber: z.number().nullable(),
+  type: z.string(),
+  facilities: z.array(z.string()),
+  imageUrl: z.string().nullable(),
+  width: z.number(),
+  seats: SeatCountsSchema,
+  carriages: z.array(CarriageSchema),
+});
+
+// Stairs, lifts, escalators and platform letters; position is in composition pixels
+export const PlatformFeatureSchema = z.object({
+  type: z.string(),
+  position: z.number(),
+  width: z.number(),
+  description: z.string(),
+});
+
+// LINKS/RECHTS: the side of the drawing the train departs towards
+export const TravelDirectionSchema = z.enum(["LINKS", "RECHTS"]);
+
+export const TrainCompositionSchema = z.object({
+  trainType: z.string().nullable(),
+  operator: z.string().nullable(),
+  stationCode: z.string().nullable(),
+  track: z.string().nullable(),
+  direction: TravelDirectionSchema.nullable(),
+  shortened: z.boolean(),
+  lengthInMeters: z.number().nullable(),
+  parts: z.array(TrainPartSchema),
+  carriages: z.array(CarriageSchema),
+  seats: SeatCountsSchema,
+  facilities: z.array(z.string()),
+  platformFeatures: z.array(PlatformFeatureSchema),
+});
+
+// One price in the fares matrix: every product, class and discount for the trip.
+// Supplements (ICE, Intercity direct) are only broken down where NS does so.
+export const FareSchema = z.object({
+  priceInCents: z.number(),
+  priceInCentsExcludingSupplement: z.number().optional(),
+  supplementInCents: z.number().optional(),
+  buyableTicketSupplementPriceInCents: z.number().optional(),
+  product: z.string(),
+  travelClass: z.string(),
+  discountType: z.string(),
+});
+
+// Part of the trip priced by a single operator
+export const FareLegSchema = z.object({
+  origin: z.object({
+    name: z.string(),
+    uicCode: z.string().optional(),
+    stationCode: z.string().optional(),
+  }),
+  destination: z.object({
+    name: z.string(),
+    uicCode: z.string().optional(),
+    stationCode: z.string().optional(),
+  }),
+  operator: z.string().optional(),
+  productTypes: z.array(z.string()).optional(),
+  fares: z.array(FareSchema),
+  travelDate: z.string().optional(),
+});
+
 export const TripSchema = z.object({
   idx: z.number(),
   uid: z.string(),
@@ -151,7 +340,7 @@ export const TripSchema = z.object({
   actualDurationInMinutes: z.number(),
   transfers: z.number(),
   status: z.string(),
-  messages: z.array(z.any()),
+  messages: z.array(TripMessageSchema),
   legs: z.array(LegSchema),
   checksum: z.string().optional(),
   crowdForecast: z.string().optional(),
@@ -168,8 +357,8 @@ export const TripSchema = z.object({
       name: z.string(),
     }),
   }).optional(),
-  fares: z.array(z.any()).optional(),
-  fareLegs: z.array(z.any()).optional(),
+  fares: z.array(FareSchema).optional(),
+  fareLegs: z.array(FareLegSchema).optional(),
   productFare: z.object({
     priceInCents: z.number(),
     priceInCentsExcludingSupplement: z.number(),
@@ -201,26 +390,331 @@ export const TripSchema = z.object({
   modalityListItems: z.array(z.any()).optional(),
 });
 
+// Freshness of a response served through the server-side upstream cache
+export const CacheStatusSchema = z.enum(["HIT", "MISS", "STALE"]);
+
+export const CacheInfoSchema = z.object({
+  status: CacheStatusSchema,
+  ageSeconds: z.number(),
+});
+
+// What the NS trips endpoint answers; fields besides the trips are passed on as they come
+export const NsTripsResponseSchema = z.object({ trips: z.array(TripSchema) }).passthrough();
+
 export const NSApiResponseSchema = z.object({
   source: z.string(),
   trips: z.array(TripSchema),
+  cacheInfo: CacheInfoSchema.optional(),
 });
 
+// Fare selection on the search form. DAL_VRIJ is a subscription rather than an
+// NS discount type: free off-peak, priced as 20% discount in the rush hours.
+export const TravelClassSchema = z.enum(["1", "2"]);
+export const DiscountOptionSchema = z.enum(["NO_DISCOUNT", "DISCOUNT_20_PERCENT", "DISCOUNT_40_PERCENT", "DAL_VRIJ"]);
+export const FareProductSchema = z.enum(["OVCHIPKAART_ENKELE_REIS", "OVCHIPKAART_RETOUR"]);
+
+export const MAX_VIA_WAIT_MINUTES = 240;
+export const MAX_AVOID_STATIONS = 5;
+
 export const TripSearchSchema = z.object({
   fromStation: z.string().min(1, "From station is required"),
   toStation: z.string().min(1, "To station is required"),
+  // Station the trip has to pass through, by name
+  viaStation: z.string().trim().optional().transform((value) => value || undefined),
+  // Minutes to stay at the via station, planned by NS (viaWaitTime)
+  viaWaitMinutes: z.coerce.number().int().min(0).max(MAX_VIA_WAIT_MINUTES).optional(),
+  // Stations the trip must not call at or pass through; NS can't plan around
+  // them, so trips are filtered afterwards (shared/routeConstraints.ts)
+  avoidStations: z.array(z.string().trim().min(1)).max(MAX_AVOID_STATIONS).optional(),
   dateTime: z.string().min(1, "Date and time is required"),
   searchForArrival: z.boolean().optional().default(false),
   excludeBus: z.boolean().optional().default(false),
   excludeTram: z.boolean().optional().default(false),
   excludeMetro: z.boolean().optional().default(false),
   walkingOnly: z.boolean().optional().default(false),
+  travelClass: TravelClassSchema.optional().default("2"),
+  discount: DiscountOptionSchema.optional().default("NO_DISCOUNT"),
+  product: FareProductSchema.optional().default("OVCHIPKAART_ENKELE_REIS"),
+});
+
+// The fare options on their own, for reloading a trip found with them
+export const FareSelectionSchema = TripSearchSchema.pick({ travelClass: true, discount: true, product: true });
+
+// NS Places API (places-api/v2/places) raw response. Entries are parsed one by
+// one, so a single odd station group or POI doesn't empty the dropdown.
+const PlaceCoordinateSchema = z.number().finite().nullish().catch(null);
+
+export const NsPlaceLocationSchema = z.object({
+  name: z.string(),
+  stationCode: z.string().nullish(),
+  lat: PlaceCoordinateSchema,
+  lng: PlaceCoordinateSchema,
+});
+
+export const NsPlaceSchema = z.object({
+  type: z.string().nullish(),
+  name: z.string().nullish(),
+  stationCode: z.string().nullish(),
+  lat: PlaceCoordinateSchema,
+  lng: PlaceCoordinateSchema,
+  locations: z.array(z.unknown()).nullish(),
+});
+
+export const NsPlacesResponseSchema = z.object({
+  payload: z.array(z.unknown()),
+});
+
+// Normalized Places API result, as served by /api/places and used by the station dropdown
+export const PlaceKindSchema = z.enum(["station", "poi", "address"]);
+
+export const PlaceSchema = z.object({
+  name: z.string(),
+  kind: PlaceKindSchema,
+  type: z.string(),
+  stationCode: z.string().nullable(),
+  lat: z.number().nullable(),
+  lng: z.number().nullable(),
+  priority: z.number(),
+});
+
+export const PlaceResolutionSchema = z.object({
+  query: z.string(),
+  place: PlaceSchema.nullable(),
+});
+
+// Batch composition lookup for all legs on a results page
+export const TrainBatchItemSchema = z.object({
+  trainNumber: z.string().min(1),
+  stationCode: z.string().min(1),
+  dateTime: z.string().min(1),
+});
+
+export const TrainBatchRequestSchema = z.object({
+  legs: z.array(TrainBatchItemSchema).min(1).max(100),
+});
+
+// Keyed by legKey (`${trainNumber}-${stationCode}`); failed lookups land in errors
+export const TrainBatchResponseSchema = z.object({
+  trains: z.record(z.any()),
+  errors: z.record(z.string()),
+});
+
+// Missed-connection fallbacks (shared/fallbacks.ts): per transfer, the best
+// trip to the destination leaving after the connection that was missed
+// Options of the original search a fallback is planned with: modalities, fares,
+// avoid stations and a via station still ahead. Route and time come from the
+// missed connection, and a fallback always leaves after it.
+export const FallbackSearchOptionsSchema = TripSearchSchema.omit({
+  fromStation: true,
+  toStation: true,
+  dateTime: true,
+  searchForArrival: true,
+});
+
+export const FallbackRequestItemSchema = z.object({
+  fromStation: z.string().min(1),
+  toStation: z.string().min(1),
+  // Planned departure of the missed connection, as NS sends it
+  missedDeparture: z.string().min(1),
+  // Train number of the missed connection, so it isn't offered again
+  missedTrain: z.string().optional(),
+  options: FallbackSearchOptionsSchema.optional(),
+});
+
+export const FallbackBatchRequestSchema = z.object({
+  transfers: z.array(FallbackRequestItemSchema).min(1).max(20),
+});
+
+export const FallbackPlanSchema = z.object({
+  departure: z.string(),
+  arrival: z.string(),
+  // First ride of the fallback, e.g. "IC 3545"
+  trainName: z.string(),
+  transfers: z.number(),
+  ctxRecon: z.string(),
+});
+
+// Keyed by fallbackKey; null when nothing leaves later that day
+export const FallbackBatchResponseSchema = z.object({
+  plans: z.record(FallbackPlanSchema.nullable()),
+  errors: z.record(z.string()),
+});
+
+// Departure and arrival boards, normalized by shared/stationBoard.ts
+export const BoardKindSchema = z.enum(["departures", "arrivals"]);
+
+export const BoardEntrySchema = z.object({
+  trainNumber: z.string(),
+  category: z.string(),
+  productType: z.string(),
+  operator: z.string().nullable(),
+  // Final destination on a departure board, origin on an arrival board
+  towards: z.string(),
+  via: z.array(z.string()),
+  plannedDateTime: z.string(),
+  actualDateTime: z.string().nullable(),
+  delayMinutes: z.number(),
+  plannedTrack: z.string().nullable(),
+  actualTrack: z.string().nullable(),
+  trackChanged: z.boolean(),
+  cancelled: z.boolean(),
+  messages: z.array(z.string()),
+});
+
+export const StationBoardSchema = z.object({
+  stationCode: z.string(),
+  kind: BoardKindSchema,
+  entries: z.array(BoardEntrySchema),
+  cacheInfo: CacheInfoSchema.optional(),
+});
+
+// Active disruptions and engineering works, normalized by shared/disruptions.ts.
+// Calamities have no stations: they apply to the whole network.
+export const DisruptionTypeSchema = z.enum(["CALAMITY", "DISRUPTION", "MAINTENANCE"]);
+
+export const DisruptionStationSchema = z.object({
+  uicCode: z.string(),
+  stationCode: z.string().nullable(),
+  name: z.string(),
+});
+
+export const DisruptionSchema = z.object({
+  id: z.string(),
+  type: DisruptionTypeSchema,
+  title: z.string(),
+  description: z.string().nullable(),
+  advices: z.array(z.string()),
+  start: z.string().nullable(),
+  end: z.string().nullable(),
+  expectedDuration: z.string().nullable(),
+  additionalTravelTime: z.string().nullable(),
+  stations: z.array(DisruptionStationSchema),
+});
+
+export const DisruptionsResponseSchema = z.object({
+  disruptions: z.array(DisruptionSchema),
+  cacheInfo: CacheInfoSchema.optional(),
+});
+
+// Live trip monitor (server/tripMonitor.ts): what changed between two polls of a trip.
+// previous/current hold minutes of delay, platforms, cancelled flags or carriage counts.
+export const TripChangeKindSchema = z.enum(["delay", "track", "cancelled", "composition"]);
+
+export const TripChangeSchema = z.object({
+  kind: TripChangeKindSchema,
+  legIdx: z.string(),
+  // null for changes to the whole leg (cancelled train, shorter composition)
+  stopName: z.string().nullable(),
+  previous: z.union([z.number(), z.string(), z.boolean()]).nullable(),
+  current: z.union([z.number(), z.string(), z.boolean()]).nullable(),
+  description: z.string(),
+});
+
+// One server-sent event: the trip as it is now, and what changed since the last poll
+export const TripUpdateSchema = z.object({
+  ctxRecon: z.string(),
+  trip: TripSchema,
+  changes: z.array(TripChangeSchema),
+  checkedAt: z.string(),
+});
+
+// Accounts and what they own. The rows live in the database tables of
+// shared/tables.ts, which only the server imports; these schemas validate what
+// the client sends.
+
+export const insertUserSchema = z.object({
+  username: z.string().trim().min(3, "Username needs at least 3 characters").max(64),
+  password: z.string().min(8, "Password needs at least 8 characters"),
+});
+
+// Credentials for /api/auth/login; registration validates with insertUserSchema
+export const LoginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Everything on the search form except the route and the moment of travel
+export const SavedRouteOptionsSchema = TripSearchSchema.omit({ fromStation: true, toStation: true, dateTime: true });
+
+// Saved route as sent by the client; the owner comes from the session
+export const SavedRouteInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  fromStation: z.string().min(1),
+  toStation: z.string().min(1),
+  options: SavedRouteOptionsSchema,
+  isFavourite: z.boolean().optional(),
+  // A commute: ISO weekdays (1 = Monday) and "HH:MM", planned ahead in the calendar feed
+  commuteDays: z.array(z.number().int().min(1).max(7)).max(7).optional(),
+  commuteTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Commute time must be HH:MM").nullable().optional(),
+});
+export const SavedRoutePatchSchema = SavedRouteInputSchema.partial();
+
+// Favourite station as sent by the client; the owner comes from the session
+export const FavouriteStationInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
 });
 
+export type NoteType = z.infer<typeof NoteTypeSchema>;
+export type Note = z.infer<typeof NoteSchema>;
+export type TripMessageType = z.infer<typeof TripMessageTypeSchema>;
+export type TripMessage = z.infer<typeof TripMessageSchema>;
 export type Station = z.infer<typeof StationSchema>;
 export type Product = z.infer<typeof ProductSchema>;
 export type Stop = z.infer<typeof StopSchema>;
 export type Leg = z.infer<typeof LegSchema>;
+export type Fare = z.infer<typeof FareSchema>;
+export type FareLeg = z.infer<typeof FareLegSchema>;
 export type Trip = z.infer<typeof TripSchema>;
+export type VirtualTrainResponse = z.infer<typeof VirtualTrainResponseSchema>;
+export type SeatCounts = z.infer<typeof SeatCountsSchema>;
+export type Carriage = z.infer<typeof CarriageSchema>;
+export type TrainPart = z.infer<typeof TrainPartSchema>;
+export type PlatformFeature = z.infer<typeof PlatformFeatureSchema>;
+export type TravelDirection = z.infer<typeof TravelDirectionSchema>;
+export type TrainComposition = z.infer<typeof TrainCompositionSchema>;
+export type TrainBatchItem = z.infer<typeof TrainBatchItemSchema>;
+export type TrainBatchRequest = z.infer<typeof TrainBatchRequestSchema>;
+export type TrainBatchResponse = z.infer<typeof TrainBatchResponseSchema>;
+export type FallbackSearchOptions = z.infer<typeof FallbackSearchOptionsSchema>;
+export type FallbackRequestItem = z.infer<typeof FallbackRequestItemSchema>;
+export type FallbackBatchRequest = z.infer<typeof FallbackBatchRequestSchema>;
+export type FallbackPlan = z.infer<typeof FallbackPlanSchema>;
+export type FallbackBatchResponse = z.infer<typeof FallbackBatchResponseSchema>;
+export type CacheStatus = z.infer<typeof CacheStatusSchema>;
+export type CacheInfo = z.infer<typeof CacheInfoSchema>;
+export type NsTripsResponse = z.infer<typeof NsTripsResponseSchema>;
 export type NSApiResponse = z.infer<typeof NSApiResponseSchema>;
+export type TravelClass = z.infer<typeof TravelClassSchema>;
+export type DiscountOption = z.infer<typeof DiscountOptionSchema>;
+export type FareProduct = z.infer<typeof FareProductSchema>;
 export type TripSearch = z.infer<typeof TripSearchSchema>;
+export type NsPlace = z.infer<typeof NsPlaceSchema>;
+export type PlaceKind = z.infer<typeof PlaceKindSchema>;
+export type Place = z.infer<typeof PlaceSchema>;
+export type PlaceResolution = z.infer<typeof PlaceResolutionSchema>;
+export type BoardKind = z.infer<typeof BoardKindSchema>;
+export type BoardEntry = z.infer<typeof BoardEntrySchema>;
+export type StationBoard = z.infer<typeof StationBoardSchema>;
+export type DisruptionType = z.infer<typeof DisruptionTypeSchema>;
+export type DisruptionStation = z.infer<typeof DisruptionStationSchema>;
+export type Disruption = z.infer<typeof DisruptionSchema>;
+export type DisruptionsResponse = z.infer<typeof DisruptionsResponseSchema>;
+export type TripChangeKind = z.infer<typeof TripChangeKindSchema>;
+export type TripChange = z.infer<typeof TripChangeSchema>;
+export type TripUpdate = z.infer<typeof TripUpdateSchema>;
+// Shape of a row after a JSON round trip: dates arrive as ISO strings
+export type Jsonified<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// What the API returns for a user: never the password hash
+export type PublicUser = Pick<User, "id" | "username">;
+export type Login = z.infer<typeof LoginSchema>;
+export type SavedRouteOptions = z.infer<typeof SavedRouteOptionsSchema>;
+export type SavedRoute = typeof savedRoutes.$inferSelect;
+export type SavedRouteInput = z.infer<typeof SavedRouteInputSchema>;
+export type SavedRoutePatch = z.infer<typeof SavedRoutePatchSchema>;
+export type SearchHistoryEntry = typeof searchHistory.$inferSelect;
+export type FavouriteStation = typeof favouriteStations.$inferSelect;
+export type FavouriteStationInput = z.infer<typeof FavouriteStationInputSchema>;
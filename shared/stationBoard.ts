@@ -0,0 +1,54 @@
+import { type BoardEntry, type BoardKind, type StationBoard } from "./schema";
+
+// NS departures/arrivals payloads ({ payload: { departures | arrivals: [...] } })
+// flattened into BoardEntry records in planned-time order, like the station displays.
+
+const text = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+function delayInMinutes(planned: string, actual: string | null): number {
+  if (!actual) return 0;
+  const delay = Math.round((new Date(actual).getTime() - new Date(planned).getTime()) / 60000);
+  return Number.isFinite(delay) && delay > 0 ? delay : 0;
+}
+
+function normalizeEntry(item: any, kind: BoardKind): BoardEntry | null {
+  const plannedDateTime = text(item?.plannedDateTime);
+  if (!plannedDateTime) return null;
+
+  const actualDateTime = text(item.actualDateTime);
+  const plannedTrack = text(item.plannedTrack);
+  const actualTrack = text(item.actualTrack);
+
+  return {
+    trainNumber: text(item.product?.number) || text(item.name) || "",
+    category: text(item.product?.shortCategoryName) || text(item.trainCategory) || text(item.product?.categoryCode) || "",
+    productType: text(item.product?.type) || "TRAIN",
+    operator: text(item.product?.operatorName),
+    towards: (kind === "departures" ? text(item.direction) : text(item.origin)) || "",
+    via: Array.isArray(item.routeStations)
+      ? item.routeStations.map((station: any) => text(station?.mediumName)).filter((name: string | null): name is string => !!name)
+      : [],
+    plannedDateTime,
+    actualDateTime,
+    delayMinutes: delayInMinutes(plannedDateTime, actualDateTime),
+    plannedTrack,
+    actualTrack,
+    trackChanged: !!actualTrack && !!plannedTrack && actualTrack !== plannedTrack,
+    cancelled: item.cancelled === true,
+    messages: Array.isArray(item.messages)
+      ? item.messages.map((message: any) => text(message?.message)).filter((message: string | null): message is string => !!message)
+      : [],
+  };
+}
+
+export function normalizeStationBoard(data: any, stationCode: string, kind: BoardKind): StationBoard {
+  const items: any[] = Array.isArray(data?.payload?.[kind]) ? data.payload[kind] : [];
+
+  const entries = items
+    .map((item) => normalizeEntry(item, kind))
+    .filter((entry): entry is BoardEntry => entry !== null)
+    .sort((a, b) => new Date(a.plannedDateTime).getTime() - new Date(b.plannedDateTime).getTime());
+
+  return { stationCode, kind, entries };
+}
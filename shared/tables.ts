@@ -0,0 +1,100 @@
+import { sql } from "drizzle-orm";
+import { boolean, index, jsonb, pgTable, serial, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  FavouriteStationInputSchema,
+  SavedRouteInputSchema,
+  TripSchema,
+  TripSearchSchema,
+  type SavedRouteOptions,
+  type Trip,
+  type TripSearch,
+} from "./schema";
+
+// Database tables (drizzle.config.ts, `npm run db:push`), accessed through
+// server/storage.ts. Everything a user owns is deleted with the user. Server
+// only: the client gets the row types from shared/schema.ts.
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  // Secret part of the user's commute calendar URL; null while the feed is off
+  calendarToken: text("calendar_token").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const savedRoutes = pgTable("saved_routes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  fromStation: text("from_station").notNull(),
+  toStation: text("to_station").notNull(),
+  options: jsonb("options").$type<SavedRouteOptions>().notNull(),
+  isFavourite: boolean("is_favourite").notNull().default(false),
+  // A commute: ISO weekdays (1 = Monday) and "HH:MM", planned ahead in the calendar feed
+  commuteDays: jsonb("commute_days").$type<number[]>().notNull().default([]),
+  commuteTime: text("commute_time"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("saved_routes_user_idx").on(table.userId)]);
+
+export const searchHistory = pgTable("search_history", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromStation: text("from_station").notNull(),
+  toStation: text("to_station").notNull(),
+  search: jsonb("search").$type<TripSearch>().notNull(),
+  searchedAt: timestamp("searched_at").notNull().defaultNow(),
+}, (table) => [index("search_history_user_idx").on(table.userId)]);
+
+// Stations pinned in the station dropdown, once per user
+export const favouriteStations = pgTable("favourite_stations", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("favourite_stations_user_name_idx").on(table.userId, table.name)]);
+
+// Trips as last seen, so changes (delays, platforms, cancellations) can be diffed
+export const tripSnapshots = pgTable("trip_snapshots", {
+  id: serial("id").primaryKey(),
+  ctxRecon: text("ctx_recon").notNull(),
+  trip: jsonb("trip").$type<Trip>().notNull(),
+  capturedAt: timestamp("captured_at").notNull().defaultNow(),
+}, (table) => [index("trip_snapshots_ctx_recon_idx").on(table.ctxRecon)]);
+
+// Trips a user follows for live updates
+export const monitors = pgTable("monitors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  ctxRecon: text("ctx_recon").notNull(),
+  label: text("label").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastCheckedAt: timestamp("last_checked_at"),
+}, (table) => [index("monitors_user_idx").on(table.userId)]);
+
+export const insertSavedRouteSchema = SavedRouteInputSchema.extend({ userId: z.string() });
+
+export const insertSearchHistorySchema = createInsertSchema(searchHistory, {
+  search: TripSearchSchema,
+}).omit({ id: true, searchedAt: true });
+
+export const insertFavouriteStationSchema = FavouriteStationInputSchema.extend({ userId: z.string() });
+
+export const insertTripSnapshotSchema = createInsertSchema(tripSnapshots, {
+  trip: TripSchema,
+}).omit({ id: true, capturedAt: true });
+
+export const insertMonitorSchema = createInsertSchema(monitors, {
+  ctxRecon: (schema) => schema.min(1),
+}).omit({ id: true, createdAt: true, lastCheckedAt: true });
+
+export type InsertSavedRoute = z.infer<typeof insertSavedRouteSchema>;
+export type InsertSearchHistoryEntry = z.infer<typeof insertSearchHistorySchema>;
+export type InsertFavouriteStation = z.infer<typeof insertFavouriteStationSchema>;
+export type TripSnapshot = typeof tripSnapshots.$inferSelect;
+export type InsertTripSnapshot = z.infer<typeof insertTripSnapshotSchema>;
+export type Monitor = typeof monitors.$inferSelect;
+export type InsertMonitor = z.infer<typeof insertMonitorSchema>;
@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Leg, type Trip } from "./schema";
+import {
+  legModality,
+  timelineDomain,
+  timelineRows,
+  timelineSegments,
+  timelineStack,
+  type TimelineLeg,
+  type TimelineModality,
+  type TimelineRow,
+} from "./timeline";
+
+// Only the fields the timeline reads; NS legs carry far more
+interface LegLiteral {
+  travelType?: string;
+  product: { type?: string; categoryCode?: string };
+}
+
+const asLeg = (leg: LegLiteral): Leg => ({ travelType: "PUBLIC_TRANSIT", ...leg }) as unknown as Leg;
+
+interface ModalityCase {
+  name: string;
+  leg: LegLiteral;
+  modality: TimelineModality;
+}
+
+const modalityCases: ModalityCase[] = [
+  { name: "intercity", leg: { product: { type: "TRAIN", categoryCode: "IC" } }, modality: "train" },
+  { name: "walk by travel type", leg: { travelType: "WALK", product: {} }, modality: "walk" },
+  { name: "walk by product type", leg: { product: { type: "walk" } }, modality: "walk" },
+  { name: "bus by category only", leg: { product: { categoryCode: "BUS" } }, modality: "bus" },
+  { name: "tram", leg: { product: { type: "TRAM", categoryCode: "TRM" } }, modality: "tram" },
+  { name: "metro", leg: { product: { type: "METRO", categoryCode: "MET" } }, modality: "metro" },
+  { name: "no product details", leg: { product: {} }, modality: "train" },
+];
+
+const at = (time: string) => new Date(`2025-08-01T${time}:00Z`).getTime();
+
+const timelineLeg = (start: string, end: string, delayedEnd: string | null = null): TimelineLeg => ({
+  legIdx: "0",
+  label: "IC 2100",
+  modality: "train",
+  cancelled: false,
+  start: at(start),
+  end: at(end),
+  delayedEnd: delayedEnd ? at(delayedEnd) : null,
+});
+
+interface StackCase {
+  name: string;
+  legs: TimelineLeg[];
+  stack: Record<string, number>;
+}
+
+// All rows start on an axis from 08:00
+const stackCases: StackCase[] = [
+  {
+    name: "one leg, on time",
+    legs: [timelineLeg("08:10", "08:40")],
+    stack: { offset: 10, leg0: 30, delay0: 0 },
+  },
+  {
+    name: "change with a wait",
+    legs: [timelineLeg("08:10", "08:40"), timelineLeg("08:47", "09:10")],
+    stack: { offset: 10, leg0: 30, delay0: 0, wait1: 7, leg1: 23, delay1: 0 },
+  },
+  {
+    name: "late arrival shortens the wait",
+    legs: [timelineLeg("08:10", "08:40", "08:44"), timelineLeg("08:47", "09:10")],
+    stack: { offset: 10, leg0: 30, delay0: 4, wait1: 3, leg1: 23, delay1: 0 },
+  },
+  {
+    name: "late arrival is cut off at the next planned departure",
+    legs: [timelineLeg("08:10", "08:40", "08:55"), timelineLeg("08:47", "09:10", "09:15")],
+    stack: { offset: 10, leg0: 30, delay0: 7, wait1: 0, leg1: 23, delay1: 5 },
+  },
+];
+
+describe("timeline", () => {
+  describe("legModality", () => {
+    for (const testCase of modalityCases) {
+      it(testCase.name, () => {
+        assert.equal(legModality(asLeg(testCase.leg)), testCase.modality);
+      });
+    }
+  });
+
+  it("turns trips into rows with a label and a late arrival per leg", () => {
+    const trip = {
+      uid: "trip-1",
+      legs: [
+        {
+          idx: "0",
+          name: "",
+          travelType: "PUBLIC_TRANSIT",
+          product: { type: "TRAIN", categoryCode: "IC", shortCategoryName: "IC", number: "2100" },
+          cancelled: false,
+          origin: { plannedDateTime: "2025-08-01T08:10:00Z" },
+          destination: { plannedDateTime: "2025-08-01T08:40:00Z", actualDateTime: "2025-08-01T08:43:00Z" },
+        },
+        {
+          idx: "1",
+          name: "Bus 33",
+          travelType: "PUBLIC_TRANSIT",
+          product: { type: "BUS", categoryCode: "BUS" },
+          cancelled: true,
+          origin: { plannedDateTime: "2025-08-01T08:50:00Z" },
+          // Early arrivals are not drawn
+          destination: { plannedDateTime: "2025-08-01T09:05:00Z", actualDateTime: "2025-08-01T09:03:00Z" },
+        },
+      ],
+    } as unknown as Trip;
+
+    assert.deepEqual(timelineRows([trip]), [{
+      uid: "trip-1",
+      legs: [
+        { ...timelineLeg("08:10", "08:40", "08:43"), legIdx: "0" },
+        { ...timelineLeg("08:50", "09:05"), legIdx: "1", label: "Bus 33", modality: "bus", cancelled: true },
+      ],
+    }]);
+  });
+
+  it("widens the axis to whole quarters around every leg and late arrival", () => {
+    const rows: TimelineRow[] = [
+      { uid: "a", legs: [timelineLeg("08:10", "08:40")] },
+      { uid: "b", legs: [timelineLeg("08:20", "09:05", "09:16")] },
+    ];
+    assert.deepEqual(timelineDomain(rows), [at("08:00"), at("09:30")]);
+    assert.deepEqual(timelineDomain([]), [0, 0]);
+  });
+
+  it("lists the stack keys in drawing order", () => {
+    assert.deepEqual(
+      timelineSegments(2).map((segment) => segment.key),
+      ["offset", "leg0", "delay0", "wait1", "leg1", "delay1"],
+    );
+  });
+
+  describe("timelineStack", () => {
+    for (const testCase of stackCases) {
+      it(testCase.name, () => {
+        assert.deepEqual(timelineStack({ uid: "trip", legs: testCase.legs }, at("08:00")), testCase.stack);
+      });
+    }
+  });
+});
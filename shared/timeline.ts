@@ -0,0 +1,101 @@
+import { type Leg, type Trip } from "./schema";
+
+// Results as a timeline: one row per trip with its legs on a shared time axis.
+// Rows are drawn as stacked bars, so each row becomes a run of segments from the
+// start of the axis: empty space up to the first departure, then per leg the
+// planned ride, the extra minutes of a late arrival, and the wait for the next leg.
+
+export type TimelineModality = "train" | "bus" | "tram" | "metro" | "walk";
+
+export interface TimelineLeg {
+  legIdx: string;
+  label: string;
+  modality: TimelineModality;
+  cancelled: boolean;
+  // Epoch milliseconds
+  start: number;
+  end: number;
+  // Expected arrival when it is later than planned
+  delayedEnd: number | null;
+}
+
+export interface TimelineRow {
+  uid: string;
+  legs: TimelineLeg[];
+}
+
+export type TimelineSegmentKind = "offset" | "wait" | "leg" | "delay";
+
+export interface TimelineSegment {
+  // Stack key, e.g. leg0, delay0, wait1
+  key: string;
+  kind: TimelineSegmentKind;
+  legIndex: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export function legModality(leg: Leg): TimelineModality {
+  const type = leg.product.type?.toUpperCase();
+  const category = leg.product.categoryCode?.toUpperCase();
+  if (leg.travelType === "WALK" || type === "WALK" || category === "WALK") return "walk";
+  if (type === "BUS" || category === "BUS") return "bus";
+  if (type === "TRAM" || category === "TRAM") return "tram";
+  if (type === "METRO" || category === "METRO") return "metro";
+  return "train";
+}
+
+export function timelineRows(trips: Trip[]): TimelineRow[] {
+  return trips.map((trip) => ({
+    uid: trip.uid,
+    legs: trip.legs.map((leg) => {
+      const end = new Date(leg.destination.plannedDateTime).getTime();
+      const actualEnd = leg.destination.actualDateTime ? new Date(leg.destination.actualDateTime).getTime() : end;
+      return {
+        legIdx: leg.idx,
+        label: leg.name || `${leg.product.shortCategoryName} ${leg.product.number}`.trim(),
+        modality: legModality(leg),
+        cancelled: leg.cancelled,
+        start: new Date(leg.origin.plannedDateTime).getTime(),
+        end,
+        delayedEnd: actualEnd > end ? actualEnd : null,
+      };
+    }),
+  }));
+}
+
+// Earliest departure to latest arrival, widened to whole quarters of an hour
+export function timelineDomain(rows: TimelineRow[]): [number, number] {
+  const legs = rows.flatMap((row) => row.legs);
+  if (legs.length === 0) return [0, 0];
+  const quarter = 15 * MINUTE;
+  const start = Math.min(...legs.map((leg) => leg.start));
+  const end = Math.max(...legs.map((leg) => leg.delayedEnd ?? leg.end));
+  return [Math.floor(start / quarter) * quarter, Math.ceil(end / quarter) * quarter];
+}
+
+// The stack keys for trips with up to `legCount` legs, in drawing order
+export function timelineSegments(legCount: number): TimelineSegment[] {
+  return Array.from({ length: legCount }, (_, legIndex): TimelineSegment[] => [
+    { key: legIndex === 0 ? "offset" : `wait${legIndex}`, kind: legIndex === 0 ? "offset" : "wait", legIndex },
+    { key: `leg${legIndex}`, kind: "leg", legIndex },
+    { key: `delay${legIndex}`, kind: "delay", legIndex },
+  ]).flat();
+}
+
+// Minutes per stack key for one row. A late arrival is cut off where the next
+// leg was planned to leave, so the next leg keeps its place on the axis.
+export function timelineStack(row: TimelineRow, domainStart: number): Record<string, number> {
+  const stack: Record<string, number> = {};
+  let cursor = domainStart;
+  row.legs.forEach((leg, index) => {
+    const next = row.legs[index + 1];
+    const start = Math.max(leg.start, cursor);
+    stack[index === 0 ? "offset" : `wait${index}`] = (start - cursor) / MINUTE;
+    stack[`leg${index}`] = Math.max(leg.end - start, 0) / MINUTE;
+    const delayedEnd = leg.delayedEnd && next ? Math.min(leg.delayedEnd, next.start) : leg.delayedEnd;
+    stack[`delay${index}`] = delayedEnd && delayedEnd > leg.end ? (delayedEnd - leg.end) / MINUTE : 0;
+    cursor = Math.max(leg.end, delayedEnd ?? 0);
+  });
+  return stack;
+}
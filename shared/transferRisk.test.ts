@@ -0,0 +1,242 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Leg } from "./schema";
+import { connectionRisk, riskLevel, transferRisks, type TransferRiskLevel } from "./transferRisk";
+
+// Only the fields the scoring reads; NS legs carry far more
+interface LegEnd {
+  name: string;
+  plannedDateTime: string;
+  actualDateTime?: string;
+  plannedTrack?: string;
+  actualTrack?: string;
+}
+
+interface LegLiteral {
+  origin: LegEnd;
+  destination: LegEnd;
+  travelType?: string;
+  product?: { type: string; categoryCode: string };
+  cancelled?: boolean;
+  reachable?: boolean;
+  punctuality?: number;
+}
+
+const asLeg = (leg: LegLiteral): Leg =>
+  ({ travelType: "PUBLIC_TRANSIT", product: { type: "TRAIN", categoryCode: "IC" }, cancelled: false, ...leg }) as unknown as Leg;
+
+interface ConnectionCase {
+  name: string;
+  arriving: LegLiteral;
+  departing: LegLiteral;
+  score: number;
+  level: TransferRiskLevel;
+  samePlatform: boolean | null;
+  slackMinutes: number;
+  firstReason: string;
+}
+
+const connectionCases: ConnectionCase[] = [
+  {
+    name: "same platform, 3 minutes",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "5a" },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:03:00+0200", plannedTrack: "5b" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:25:00+0200" },
+    },
+    // One minute to cross the platform leaves two: 60 - 2 * 12
+    score: 36,
+    level: "medium",
+    samePlatform: true,
+    slackMinutes: 2,
+    firstReason: "3 min, same platform 5b",
+  },
+  {
+    name: "same platform, 3 minutes, after a train on time 80% of the time",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "5a" },
+      punctuality: 80,
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:03:00+0200", plannedTrack: "5b" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:25:00+0200" },
+    },
+    score: 56,
+    level: "high",
+    samePlatform: true,
+    slackMinutes: 2,
+    firstReason: "3 min, same platform 5b",
+  },
+  {
+    name: "other platform, 3 minutes, arriving 4 minutes late",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: {
+        name: "Rotterdam Centraal",
+        plannedDateTime: "2025-08-01T09:00:00+0200",
+        actualDateTime: "2025-08-01T09:04:00+0200",
+        plannedTrack: "7",
+      },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:03:00+0200", plannedTrack: "12" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:25:00+0200" },
+    },
+    score: 100,
+    level: "missed",
+    samePlatform: false,
+    slackMinutes: -4,
+    firstReason: "Connection cannot be made",
+  },
+  {
+    name: "other platform, 3 minutes, both trains late but one minute left",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: {
+        name: "Rotterdam Centraal",
+        plannedDateTime: "2025-08-01T09:00:00+0200",
+        actualDateTime: "2025-08-01T09:04:00+0200",
+        plannedTrack: "7",
+      },
+    },
+    departing: {
+      origin: {
+        name: "Rotterdam Centraal",
+        plannedDateTime: "2025-08-01T09:03:00+0200",
+        actualDateTime: "2025-08-01T09:08:00+0200",
+        plannedTrack: "12",
+      },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:25:00+0200" },
+    },
+    // 60 - 1 * 12 for the slack, 4 * 4 for the late arrival
+    score: 64,
+    level: "high",
+    samePlatform: false,
+    slackMinutes: 1,
+    firstReason: "4 min from platform 7 to 12",
+  },
+  {
+    name: "other platform, 2 minutes as planned by NS",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "7" },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:02:00+0200", plannedTrack: "9" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:25:00+0200" },
+    },
+    // One minute short of the three a platform change takes: 60 + 1 * 12
+    score: 72,
+    level: "high",
+    samePlatform: false,
+    slackMinutes: -1,
+    firstReason: "Shorter than the 3 min a change usually takes",
+  },
+  {
+    name: "train to bus, 3 minutes as planned by NS",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "7" },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:03:00+0200" },
+      destination: { name: "Rotterdam Zuidplein", plannedDateTime: "2025-08-01T09:20:00+0200" },
+      product: { type: "BUS", categoryCode: "BUS" },
+    },
+    // Two minutes short of the five it takes to leave the station: 60 + 2 * 12
+    score: 84,
+    level: "high",
+    samePlatform: null,
+    slackMinutes: -2,
+    firstReason: "Shorter than the 5 min a change usually takes",
+  },
+  {
+    name: "connection NS marks unreachable",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "7" },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:10:00+0200", plannedTrack: "12" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:32:00+0200" },
+      reachable: false,
+    },
+    score: 100,
+    level: "missed",
+    samePlatform: false,
+    slackMinutes: 7,
+    firstReason: "Connection cannot be made",
+  },
+  {
+    name: "cancelled departing train",
+    arriving: {
+      origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+      destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "7" },
+    },
+    departing: {
+      origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:10:00+0200", plannedTrack: "12" },
+      destination: { name: "Breda", plannedDateTime: "2025-08-01T09:32:00+0200" },
+      cancelled: true,
+    },
+    score: 100,
+    level: "missed",
+    samePlatform: false,
+    slackMinutes: 7,
+    firstReason: "Cancelled",
+  },
+];
+
+describe("transfer risk", () => {
+  describe("connectionRisk", () => {
+    for (const testCase of connectionCases) {
+      it(testCase.name, () => {
+        const risk = connectionRisk(asLeg(testCase.arriving), asLeg(testCase.departing), 1);
+        assert.equal(risk.score, testCase.score);
+        assert.equal(risk.level, testCase.level);
+        assert.equal(risk.samePlatform, testCase.samePlatform);
+        assert.equal(risk.slackMinutes, testCase.slackMinutes);
+        assert.equal(risk.reasons[0], testCase.firstReason);
+      });
+    }
+  });
+
+  it("folds a walk leg into the change between the rides around it", () => {
+    const risks = transferRisks([
+      asLeg({
+        origin: { name: "Den Haag HS", plannedDateTime: "2025-08-01T08:40:00+0200" },
+        destination: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200", plannedTrack: "1" },
+      }),
+      asLeg({
+        origin: { name: "Rotterdam Centraal", plannedDateTime: "2025-08-01T09:00:00+0200" },
+        destination: { name: "Rotterdam Blaak", plannedDateTime: "2025-08-01T09:05:00+0200" },
+        travelType: "WALK",
+        product: { type: "WALK", categoryCode: "WALK" },
+      }),
+      asLeg({
+        origin: { name: "Rotterdam Blaak", plannedDateTime: "2025-08-01T09:12:00+0200", plannedTrack: "3" },
+        destination: { name: "Dordrecht", plannedDateTime: "2025-08-01T09:30:00+0200" },
+      }),
+    ]);
+
+    assert.equal(risks.length, 1);
+    const [risk] = risks;
+    // Departs with the leg after the walk; the platform is unknown across stations
+    assert.equal(risk.legIndex, 2);
+    assert.equal(risk.station, "Rotterdam Blaak");
+    assert.equal(risk.expectedMinutes, 12);
+    // Five minutes walking and three to find the platform leave four: 60 - 4 * 12
+    assert.equal(risk.slackMinutes, 4);
+    assert.equal(risk.samePlatform, null);
+    assert.equal(risk.score, 12);
+    assert.equal(risk.level, "low");
+    assert.equal(risk.reasons[0], "12 min including a 5 min walk");
+  });
+
+  it("maps scores onto the levels the results filter uses", () => {
+    assert.deepEqual([0, 24, 25, 49, 50, 99, 100].map(riskLevel), ["low", "low", "medium", "medium", "high", "high", "missed"]);
+  });
+});
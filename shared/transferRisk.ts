@@ -0,0 +1,153 @@
+import { type Leg, type Trip } from "./schema";
+import { legModality } from "./timeline";
+
+// How likely a connection is to fail, from 0 (nothing to worry about) to 100
+// (already missed). The buffer between arrival and departure, with realtime
+// times, is set against the minutes needed to change: less when staying on the
+// same platform, more when leaving the station for a bus, tram or metro. A
+// small buffer weighs heavier after a train that is already running late or
+// that is often late (leg.punctuality, percent on time). NS plans changes shorter
+// than these minutes; such a connection is risky, but only missed once NS says
+// so or the realtime times leave no gap at all.
+
+export type TransferRiskLevel = "low" | "medium" | "high" | "missed";
+
+export interface TransferRisk {
+  // Index of the leg the connection departs with
+  legIndex: number;
+  station: string;
+  plannedMinutes: number;
+  expectedMinutes: number;
+  // Minutes left over after the change itself
+  slackMinutes: number;
+  arrivalDelayMinutes: number;
+  samePlatform: boolean | null;
+  score: number;
+  level: TransferRiskLevel;
+  reasons: string[];
+}
+
+export interface TripTransferRisk {
+  score: number;
+  level: TransferRiskLevel;
+  // The weakest connection of the trip
+  worst: TransferRisk;
+}
+
+// Levels from the lowest score that reaches them
+const LEVEL_THRESHOLDS: Array<[TransferRiskLevel, number]> = [
+  ["missed", 100],
+  ["high", 50],
+  ["medium", 25],
+  ["low", 0],
+];
+
+export const TRANSFER_RISK_LEVELS: TransferRiskLevel[] = ["low", "medium", "high", "missed"];
+
+const SAME_PLATFORM_MINUTES = 1;
+const CHANGE_PLATFORM_MINUTES = 3;
+const LEAVE_STATION_MINUTES = 5;
+
+const minutesBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+// "5a" and "5b" are two ends of platform 5
+const platformNumber = (track: string) => track.replace(/[^0-9]/g, "") || track;
+
+export function riskLevel(score: number): TransferRiskLevel {
+  return LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)![0];
+}
+
+// `walkMinutes` is the planned walk between the two rides, when NS plans one
+export function connectionRisk(arriving: Leg, departing: Leg, legIndex: number, walkMinutes = 0): TransferRisk {
+  const arrival = arriving.destination;
+  const departure = departing.origin;
+  const plannedMinutes = minutesBetween(arrival.plannedDateTime, departure.plannedDateTime);
+  const expectedMinutes = minutesBetween(
+    arrival.actualDateTime || arrival.plannedDateTime,
+    departure.actualDateTime || departure.plannedDateTime,
+  );
+  const arrivalDelayMinutes = Math.max(0, minutesBetween(arrival.plannedDateTime, arrival.actualDateTime || arrival.plannedDateTime));
+
+  const fromTrack = arrival.actualTrack || arrival.plannedTrack;
+  const toTrack = departure.actualTrack || departure.plannedTrack;
+  const samePlatform =
+    fromTrack && toTrack && walkMinutes === 0 ? platformNumber(fromTrack) === platformNumber(toTrack) : null;
+  const leavesStation = legModality(departing) !== "train";
+  const changeMinutes =
+    walkMinutes > 0
+      ? walkMinutes + CHANGE_PLATFORM_MINUTES
+      : leavesStation
+        ? LEAVE_STATION_MINUTES
+        : samePlatform
+          ? SAME_PLATFORM_MINUTES
+          : CHANGE_PLATFORM_MINUTES;
+  const slackMinutes = expectedMinutes - changeMinutes;
+
+  const reasons: string[] = [];
+  if (walkMinutes > 0) reasons.push(`${expectedMinutes} min including a ${walkMinutes} min walk`);
+  else if (leavesStation) reasons.push(`${expectedMinutes} min to walk to the ${legModality(departing)}`);
+  else if (samePlatform) reasons.push(`${expectedMinutes} min, same platform ${toTrack}`);
+  else if (fromTrack && toTrack) reasons.push(`${expectedMinutes} min from platform ${fromTrack} to ${toTrack}`);
+  else reasons.push(`${expectedMinutes} min to change`);
+  if (arrivalDelayMinutes > 0) reasons.push(`${arrivalDelayMinutes} min late on arrival`);
+  if (arriving.punctuality !== undefined && arriving.punctuality < 90) {
+    reasons.push(`arriving train on time ${Math.round(arriving.punctuality)}% of the time`);
+  }
+
+  let score: number;
+  if (departing.reachable === false || departing.cancelled || arriving.cancelled || expectedMinutes < 0) {
+    reasons.unshift(departing.reachable === false || expectedMinutes < 0 ? "Connection cannot be made" : "Cancelled");
+    score = 100;
+  } else {
+    if (slackMinutes < 0) reasons.unshift(`Shorter than the ${changeMinutes} min a change usually takes`);
+    // 60 for having no minute to spare, more for every minute short, nothing from 5 minutes on
+    const slackRisk = Math.max(0, 60 - 12 * slackMinutes);
+    // Unpunctual trains matter less the more time there is
+    const latenessWeight = slackMinutes < 3 ? 1 : slackMinutes < 6 ? 0.5 : 0.1;
+    const punctualityRisk = arriving.punctuality !== undefined ? (100 - arriving.punctuality) * latenessWeight : 0;
+    // A train that is late already tends to lose more time
+    const delayRisk = arrivalDelayMinutes > 0 && slackMinutes < 5 ? Math.min(arrivalDelayMinutes * 4, 20) : 0;
+    score = Math.min(99, Math.round(slackRisk + punctualityRisk + delayRisk));
+  }
+
+  return {
+    legIndex,
+    station: departure.name,
+    plannedMinutes,
+    expectedMinutes,
+    slackMinutes,
+    arrivalDelayMinutes,
+    samePlatform,
+    score,
+    level: riskLevel(score),
+    reasons,
+  };
+}
+
+// Every change between two rides; walks are part of a change, so a walk leg
+// links the ride before it with the ride after it
+export function transferRisks(legs: Leg[]): TransferRisk[] {
+  const risks: TransferRisk[] = [];
+  let previousRide: Leg | null = null;
+  let walkMinutes = 0;
+  for (let index = 0; index < legs.length; index++) {
+    const leg = legs[index];
+    if (legModality(leg) === "walk") {
+      walkMinutes += minutesBetween(leg.origin.plannedDateTime, leg.destination.plannedDateTime);
+      continue;
+    }
+    if (previousRide) risks.push(connectionRisk(previousRide, leg, index, walkMinutes));
+    previousRide = leg;
+    walkMinutes = 0;
+  }
+  return risks;
+}
+
+// The trip is as safe as its weakest connection; null for direct trips
+export function tripTransferRisk(trip: Trip): TripTransferRisk | null {
+  const risks = transferRisks(trip.legs);
+  if (risks.length === 0) return null;
+  const worst = risks.reduce((a, b) => (b.score > a.score ? b : a));
+  return { score: worst.score, level: worst.level, worst };
+}
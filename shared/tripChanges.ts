@@ -0,0 +1,140 @@
+import { type Leg, type Station, type Trip, type TripChange } from "./schema";
+import { legKey } from "./nsGateway";
+
+// Differences between two versions of the same trip, as the live monitor sees
+// them: delays and platforms where the traveller gets on and off, cancelled
+// trains and stops, and trains running with fewer carriages.
+
+// Carriage count per legKey; legs without a known composition are left out
+export type CarriageCounts = Record<string, number>;
+
+function delayMinutes(planned: string | undefined, actual: string | undefined): number {
+  if (!planned || !actual) return 0;
+  const delay = Math.round((new Date(actual).getTime() - new Date(planned).getTime()) / 60000);
+  return Number.isFinite(delay) ? delay : 0;
+}
+
+const formatDelay = (minutes: number) => (minutes > 0 ? `+${minutes} min` : "on time");
+
+const trainName = (leg: Leg) => leg.name || `${leg.product.shortCategoryName || ""} ${leg.product.number || ""}`.trim();
+
+// Key of the composition lookup for a leg, as used by /api/trains/batch
+export function legCompositionKey(leg: Leg): string | null {
+  return leg.product.number && leg.origin.stationCode ? legKey(leg.product.number, leg.origin.stationCode) : null;
+}
+
+function stationChanges(leg: Leg, previous: Station, current: Station, event: "departure" | "arrival"): TripChange[] {
+  const changes: TripChange[] = [];
+  const label = event === "departure" ? `Departure from ${current.name}` : `Arrival at ${current.name}`;
+
+  const before = delayMinutes(previous.plannedDateTime, previous.actualDateTime);
+  const after = delayMinutes(current.plannedDateTime, current.actualDateTime);
+  if (before !== after) {
+    changes.push({
+      kind: "delay",
+      legIdx: leg.idx,
+      stopName: current.name,
+      previous: before,
+      current: after,
+      description: `${label} now ${formatDelay(after)} (was ${formatDelay(before)})`,
+    });
+  }
+
+  const trackBefore = previous.actualTrack || previous.plannedTrack || null;
+  const trackAfter = current.actualTrack || current.plannedTrack || null;
+  if (trackAfter && trackBefore !== trackAfter) {
+    changes.push({
+      kind: "track",
+      legIdx: leg.idx,
+      stopName: current.name,
+      previous: trackBefore,
+      current: trackAfter,
+      description: `${label}: platform ${trackAfter}${trackBefore ? ` instead of ${trackBefore}` : ""}`,
+    });
+  }
+
+  return changes;
+}
+
+function legChanges(previous: Leg, current: Leg): TripChange[] {
+  if (previous.cancelled !== current.cancelled) {
+    // Once the train is (no longer) cancelled, its stops and times say little
+    return [{
+      kind: "cancelled",
+      legIdx: current.idx,
+      stopName: null,
+      previous: previous.cancelled,
+      current: current.cancelled,
+      description: current.cancelled ? `${trainName(current)} is cancelled` : `${trainName(current)} runs again`,
+    }];
+  }
+
+  const changes = [
+    ...stationChanges(current, previous.origin, current.origin, "departure"),
+    ...stationChanges(current, previous.destination, current.destination, "arrival"),
+  ];
+
+  const previousStops = new Map(previous.stops.map((stop) => [`${stop.uicCode}-${stop.routeIdx}`, stop]));
+  for (const stop of current.stops) {
+    const before = previousStops.get(`${stop.uicCode}-${stop.routeIdx}`);
+    if (!before || stop.passing || before.cancelled === stop.cancelled) continue;
+    changes.push({
+      kind: "cancelled",
+      legIdx: current.idx,
+      stopName: stop.name,
+      previous: before.cancelled,
+      current: stop.cancelled,
+      description: stop.cancelled
+        ? `${trainName(current)} no longer stops at ${stop.name}`
+        : `${trainName(current)} stops at ${stop.name} again`,
+    });
+  }
+
+  if (!previous.shorterStock && current.shorterStock) {
+    changes.push({
+      kind: "composition",
+      legIdx: current.idx,
+      stopName: null,
+      previous: null,
+      current: null,
+      description: `${trainName(current)} runs with a shorter train`,
+    });
+  }
+
+  return changes;
+}
+
+// Legs are matched by idx; a trip that was replanned into other legs only
+// reports changes for the legs both versions share
+export function diffTrips(previous: Trip, current: Trip): TripChange[] {
+  const previousLegs = new Map(previous.legs.map((leg) => [leg.idx, leg]));
+  return current.legs.flatMap((leg) => {
+    const before = previousLegs.get(leg.idx);
+    return before ? legChanges(before, leg) : [];
+  });
+}
+
+// Trains that lost carriages since the previous poll
+export function diffCarriageCounts(trip: Trip, previous: CarriageCounts, current: CarriageCounts): TripChange[] {
+  return trip.legs.flatMap((leg): TripChange[] => {
+    const key = legCompositionKey(leg);
+    if (!key || previous[key] === undefined || current[key] === undefined) return [];
+    if (current[key] >= previous[key]) return [];
+    return [{
+      kind: "composition",
+      legIdx: leg.idx,
+      stopName: null,
+      previous: previous[key],
+      current: current[key],
+      description: `${trainName(leg)} shortened to ${current[key]} carriages (was ${previous[key]})`,
+    }];
+  });
+}
+
+// Realtime data stops changing some time after the final arrival
+export function tripFinishedBefore(trip: Trip, moment: Date): boolean {
+  const lastLeg = trip.legs[trip.legs.length - 1];
+  if (!lastLeg) return true;
+  const arrival = lastLeg.destination.actualDateTime || lastLeg.destination.plannedDateTime;
+  return new Date(arrival).getTime() < moment.getTime();
+}